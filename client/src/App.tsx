@@ -16,6 +16,9 @@ function App() {
   const [zipCode, setZipCode] = useState('20001'); // Default to DC
   const [isPaused, setIsPaused] = useState(false);
   const [showFullContent, setShowFullContent] = useState(false);
+  const [showPlanetImages, setShowPlanetImages] = useState(() => {
+    return getCookie('showPlanetImages') === 'true';
+  });
   const [showIntroModal, setShowIntroModal] = useState(() => {
     return getCookie('hideIntroModal') !== 'true';
   });
@@ -115,6 +118,9 @@ function App() {
         handleArticleHover
       );
       
+      // Set before loading so new planets get their image textures
+      orbitalSystemRef.current.setImageTextures(getCookie('showPlanetImages') === 'true');
+      
       // Load initial articles
       orbitalSystemRef.current.loadArticles(zipCode);
     }
@@ -148,6 +154,19 @@ function App() {
     }
   };
 
+  // Handle the planet image texture option
+  const handlePlanetImagesToggle = (enabled: boolean) => {
+    setShowPlanetImages(enabled);
+    setCookie('showPlanetImages', String(enabled), 365);
+    
+    if (orbitalSystemRef.current) {
+      orbitalSystemRef.current.setImageTextures(enabled);
+    }
+  };
+
+  // Prefer the summary of the fetched page, since source content is often missing or truncated
+  const detailText = selectedArticle?.summary || selectedArticle?.content;
+
   return (
     <div className="app">
       {/* Intro modal */}
@@ -208,6 +227,16 @@ function App() {
           </div>
           
           <button onClick={handleRefresh}>Load Articles</button>
+          
+          <div className="checkbox-group">
+            <input
+              id="showPlanetImages"
+              type="checkbox"
+              checked={showPlanetImages}
+              onChange={(e) => handlePlanetImagesToggle(e.target.checked)}
+            />
+            <label htmlFor="showPlanetImages">Show article images on planets</label>
+          </div>
         </div>
         
         <div className="article-history">
@@ -228,6 +257,19 @@ function App() {
 
         {selectedArticle && (
           <div className="article-details">
+            {selectedArticle.imageUrl && (
+              <img
+                key={selectedArticle.imageUrl}
+                className="article-hero"
+                src={selectedArticle.imageUrl}
+                width={selectedArticle.imageWidth}
+                height={selectedArticle.imageHeight}
+                alt=""
+                loading="lazy"
+                // Hide images the publisher no longer serves
+                onError={(e) => { e.currentTarget.style.display = 'none'; }}
+              />
+            )}
             <h2>{selectedArticle.title}</h2>
             <p className="article-meta">
               Source: {selectedArticle.source}
@@ -246,12 +288,12 @@ function App() {
               )}
             </p>
             <div className="article-content">
-              {!selectedArticle.content ? 'No content available' : (
-                showFullContent || selectedArticle.content.length <= 300 
-                ? selectedArticle.content 
+              {!detailText ? 'No content available' : (
+                showFullContent || detailText.length <= 300 
+                ? detailText 
                 : (
                   <>
-                    {selectedArticle.content.substring(0, 300)}...
+                    {detailText.substring(0, 300)}...
                     <button 
                       className="read-more-button" 
                       onClick={() => setShowFullContent(true)}
@@ -273,7 +315,7 @@ function App() {
                   Read Original
                 </a>
               )}
-              {showFullContent && selectedArticle.content && selectedArticle.content.length > 300 && (
+              {showFullContent && detailText && detailText.length > 300 && (
                 <button 
                   className="collapse-button" 
                   onClick={() => setShowFullContent(false)}
@@ -16,7 +16,7 @@ export const ArticleService = {
    */
   async getArticles(zipCode?: string, query?: string): Promise<Article[]> {
     try {
-      const params: Record<string, string> = {};
+      const params: Record<string, string> = { sort: 'effectiveMass' }; // Biggest fresh articles first
       if (zipCode) params.userZipCode = zipCode; // Changed from zipCode to userZipCode to match server expectation
       if (query) params.query = query;
       
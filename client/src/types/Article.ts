@@ -31,13 +31,22 @@ export interface Article {
   id: string;
   title: string;
   content?: string; // Made optional to match server changes
+  summary?: string; // Extractive summary of the article page, when it could be fetched
   source: string;
   sourceUrl?: string;
+  imageUrl?: string; // Lead image of the article, when the source or page has one
+  imageWidth?: number; // Size of the lead image in pixels, when known
+  imageHeight?: number;
   author?: string;
   publishedAt: string;
   location: string | Location; // Geographic location the article relates to (can be string or Location object)
   tags?: string[];
+  topics?: { name: string; score: number }[]; // Classified topics with scores (their names are also in tags)
+  entities?: { name: string; type: 'person' | 'organization'; count: number }[]; // People and organizations mentioned
   mass: number; // Based on source credibility and article length
+  effectiveMass?: number; // Mass decayed by the article's age, used for the planet
+  storyId?: string; // Story shared by near-duplicate articles from different sources
+  storyMemberCount?: number; // Number of articles in the story (when grouped by story)
   tier: TierType; // Orbital tier (close, medium, far)
 }
 
@@ -493,6 +493,17 @@ export class OrbitalSystem {
     return this.isPaused;
   }
   
+  /**
+   * Show or hide article images as planet textures
+   * @param enabled Whether planets are wrapped in their article's lead image
+   */
+  setImageTextures(enabled: boolean): void {
+    Planet.imageTextures = enabled;
+    Planet.planets
+      .filter(planet => planet.name !== 'Local Group News')
+      .forEach(planet => planet.setImageTexture(enabled));
+  }
+  
   /**
    * Set the currently hovered article ID
    * @param articleId The ID of the hovered article, or null if none
@@ -15,6 +15,8 @@ export class Planet {
   static collisionSystem: boolean = false; // Whether to enable collisions
   static currentFollowed?: Planet; // Currently followed planet
   static eclipticForce: number = 0.0002; // Reduced force for more 3D orbits
+  static imageTextures: boolean = false; // Whether to wrap planets in their article's lead image
+  static textureLoader: THREE.TextureLoader = new THREE.TextureLoader().setCrossOrigin('anonymous');
 
   // Instance properties
   id: string;
@@ -29,6 +31,7 @@ export class Planet {
   article?: Article;
   planet: THREE.Mesh;
   label?: THREE.Sprite;
+  imageTexture?: THREE.Texture; // Loaded once, the first time image textures are shown
   
   // Trail properties
   trailPoints: Vector3D[] = [];
@@ -194,6 +197,45 @@ export class Planet {
     scene.add(this.label);
   }
 
+  /**
+   * Show or hide the article's lead image as the planet's texture
+   * Planets without an image, or whose image cannot be loaded, keep their tier color
+   */
+  setImageTexture(enabled: boolean): void {
+    const material = this.planet.material as THREE.MeshStandardMaterial;
+
+    if (!enabled || !this.article?.imageUrl) {
+      material.map = null;
+      material.color.setHex(this.color);
+      material.needsUpdate = true;
+      return;
+    }
+
+    const applyTexture = (texture: THREE.Texture) => {
+      // The option may have been turned off while the image was loading
+      if (!Planet.imageTextures) return;
+      material.map = texture;
+      material.color.setHex(0xffffff); // Show the image in its own colors
+      material.needsUpdate = true;
+    };
+
+    if (this.imageTexture) {
+      applyTexture(this.imageTexture);
+      return;
+    }
+
+    Planet.textureLoader.load(
+      this.article.imageUrl,
+      texture => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        this.imageTexture = texture;
+        applyTexture(texture);
+      },
+      undefined,
+      () => console.warn(`Could not load image texture for ${this.id}`)
+    );
+  }
+
   /**
    * Update the velocity based on gravitational forces
    */
@@ -392,6 +434,11 @@ export class Planet {
       scene.remove(this.trailLine);
     }
     
+    // Free the image texture if one was loaded
+    if (this.imageTexture) {
+      this.imageTexture.dispose();
+    }
+    
     // Remove from the static list
     for (let i = 0; i < Planet.planets.length; ++i) {
       if (Planet.planets[i] === this) {
@@ -545,7 +592,7 @@ export class Planet {
       article.title,
       posX, posY, posZ,
       velX, velY, velZ,
-      article.mass || 1000, // Default mass if not specified
+      article.effectiveMass || article.mass || 1000, // Decayed mass, default if not specified
       Planet.calculateRadiusFromContent(article),
       Planet.getColorFromTier(article.tier),
       false, // Not fixed
@@ -562,6 +609,11 @@ export class Planet {
     // Add to scene
     scene.add(planet.planet);
     
+    // Wrap the planet in the article's image if that option is on
+    if (Planet.imageTextures) {
+      planet.setImageTexture(true);
+    }
+    
     // Create label
     planet.createLabel(scene);
     
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import geocodeCacheService from '../services/geocodeCacheService';
+
+/**
+ * List cached geocoding results, most used first, with hit and miss totals
+ * @route GET /api/admin/geocode-cache?q=&page=&limit=
+ */
+export const getGeocodeCache = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50; // Default to 50 entries per page
+
+    const [result, stats] = await Promise.all([
+      geocodeCacheService.list({
+        query: req.query.q as string,
+        page: isNaN(page) ? 1 : page,
+        limit: isNaN(limit) ? 50 : limit
+      }),
+      geocodeCacheService.getStats()
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      results: result.entries.length,
+      data: {
+        entries: result.entries,
+        stats,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          pages: result.pages
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error listing geocode cache:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to list geocode cache',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Delete cached geocoding results so they are looked up again
+ * Without a query every expired entry is deleted with expired=true, or every entry with all=true
+ * @route DELETE /api/admin/geocode-cache?q=&countryCode=&expired=&all=
+ */
+export const purgeGeocodeCache = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Emptying the whole cache has to be asked for, so a missing q cannot wipe it by accident
+    if (!req.query.q && req.query.expired !== 'true' && req.query.all !== 'true') {
+      res.status(400).json({
+        status: 'fail',
+        message: 'Specify q, expired=true or all=true'
+      });
+      return;
+    }
+
+    const deleted = await geocodeCacheService.purge({
+      query: req.query.q as string | undefined,
+      countryCode: req.query.countryCode as string | undefined,
+      expiredOnly: req.query.expired === 'true'
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: { deleted }
+    });
+  } catch (error) {
+    console.error('Error purging geocode cache:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to purge geocode cache',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import retentionService from '../services/retentionService';
+
+/**
+ * Parse a date query parameter
+ * A date without a time (YYYY-MM-DD) used as an upper bound includes that whole day
+ * @param value Query parameter value
+ * @param endOfDay Whether a date without a time means the end of that day
+ * @returns Parsed date, undefined if missing, or null if invalid
+ */
+const parseDateParam = (value: unknown, endOfDay: boolean): Date | undefined | null => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value as string)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return date;
+};
+
+/**
+ * Get archived articles published in a date range, newest first
+ * @route GET /api/archive?from=&to=&source=&page=&limit=
+ */
+export const getArchivedArticles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = parseDateParam(req.query.from, false);
+    const to = parseDateParam(req.query.to, true);
+
+    if (from === null || to === null) {
+      res.status(400).json({
+        status: 'fail',
+        message: 'Invalid date range: from and to must be ISO 8601 dates'
+      });
+      return;
+    }
+
+    if (from && to && from >= to) {
+      res.status(400).json({
+        status: 'fail',
+        message: 'Invalid date range: from must be before to'
+      });
+      return;
+    }
+
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50; // Default to 50 articles per page
+
+    const result = await retentionService.getArchivedArticles({
+      from,
+      to,
+      source: req.query.source as string,
+      page: isNaN(page) ? 1 : page,
+      limit: isNaN(limit) ? 50 : limit
+    });
+
+    res.status(200).json({
+      status: 'success',
+      results: result.articles.length,
+      data: {
+        articles: result.articles,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          pages: result.pages
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching archived articles:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to fetch archived articles',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Get the retention settings and the outcome of the last retention run
+ * @route GET /api/archive/status
+ */
+export const getRetentionStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      status: 'success',
+      data: retentionService.getStatus()
+    });
+  } catch (error) {
+    console.error('Error getting retention status:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to get retention status',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
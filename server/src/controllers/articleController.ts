@@ -4,6 +4,8 @@ import { articleFetcher } from '../services/articleFetcherService';
 import { GeocodingService } from '../services/geocodingService';
 import { addTierToArticle } from './articleController.helpers';
 import userZipService from '../services/userZipService';
+import articleRevisionService from '../services/articleRevisionService';
+import massScorer from '../services/massScorer';
 
 // Initialize services
 const articleStoreInstance = new articleStore();
@@ -19,6 +21,9 @@ export const getArticles = async (req: Request, res: Response): Promise<void> =>
     const location = req.query.location as string;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 50; // Default to 50 articles
     const daysBack = req.query.daysBack ? parseInt(req.query.daysBack as string) : 7; // Default to 7 days
+    const groupByStory = req.query.groupBy === 'story'; // One representative per story instead of every article
+    const sortByEffectiveMass = req.query.sort === 'effectiveMass'; // Biggest fresh articles first
+    const tags = req.query.tags ? String(req.query.tags).split(',').map(tag => tag.trim()).filter(Boolean) : undefined; // Comma-separated, any match
     
     // Accept both zipCode and userZipCode parameters for compatibility
     const userZipCode = (req.query.userZipCode || req.query.zipCode) as string; // User's zip code for distance calculation
@@ -28,7 +33,9 @@ export const getArticles = async (req: Request, res: Response): Promise<void> =>
       source,
       location,
       limit,
-      daysBack
+      daysBack,
+      groupByStory,
+      tags
     });
     
     // Log article count for monitoring
@@ -55,6 +62,16 @@ export const getArticles = async (req: Request, res: Response): Promise<void> =>
     const articlesWithTierPromises = articles.map(article => addTierToArticle(article, geocodingService));
     const articlesWithTier = await Promise.all(articlesWithTierPromises);
     
+    // Decay mass by age at request time, so stale stories do not stay as big as fresh ones
+    const now = new Date();
+    articlesWithTier.forEach(article => {
+      article.effectiveMass = massScorer.getEffectiveMass(article, now);
+    });
+    
+    if (sortByEffectiveMass) {
+      articlesWithTier.sort((a, b) => (b.effectiveMass || 0) - (a.effectiveMass || 0));
+    }
+    
     // Log the number of articles retrieved
     console.log(`Retrieved and processed ${articlesWithTier.length} articles with tier information`);
     
@@ -107,6 +124,7 @@ export const getArticleById = async (req: Request, res: Response): Promise<void>
     
     // Add tier information to the article for API response
     const articleWithTier = await addTierToArticle(articles[0], geocodingService);
+    articleWithTier.effectiveMass = massScorer.getEffectiveMass(articleWithTier);
     
     res.status(200).json({
       status: 'success',
@@ -123,6 +141,52 @@ export const getArticleById = async (req: Request, res: Response): Promise<void>
   }
 };
 
+/**
+ * Get the revision history of an article, newest first
+ * @route GET /api/articles/:id/revisions
+ */
+export const getArticleRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50; // Default to 50 revisions
+    
+    const revisions = await articleRevisionService.getRevisions(id, isNaN(limit) ? 50 : limit);
+    
+    if (revisions.length === 0) {
+      // Distinguish an article that was never revised from one that does not exist
+      const articles = await articleStoreInstance.getArticles({
+        articleId: id,
+        limit: 1,
+        daysBack: 0
+      });
+      
+      if (articles.length === 0) {
+        res.status(404).json({
+          status: 'fail',
+          message: `No article found with ID: ${id}`
+        });
+        return;
+      }
+    }
+    
+    res.status(200).json({
+      status: 'success',
+      results: revisions.length,
+      data: {
+        articleId: id,
+        revisions
+      }
+    });
+  } catch (error) {
+    console.error('Error getting article revisions:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to get article revisions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
 /**
  * Get article fetcher status
  * @route GET /api/articles/fetcher/status
@@ -130,10 +194,11 @@ export const getArticleById = async (req: Request, res: Response): Promise<void>
 export const getArticleFetcherStatus = async (req: Request, res: Response): Promise<void> => {
   try {
     const status = articleFetcher.getStatus();
+    const leases = await articleFetcher.getLeases();
     
     res.status(200).json({
       status: 'success',
-      data: status
+      data: { ...status, leases }
     });
   } catch (error) {
     console.error('Error getting article fetcher status:', error);
@@ -145,14 +210,94 @@ export const getArticleFetcherStatus = async (req: Request, res: Response): Prom
   }
 };
 
+/**
+ * Get recorded article fetch runs with per-source outcomes
+ * @route GET /api/articles/fetcher/runs
+ */
+export const getFetchRuns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20; // Default to 20 runs per page
+    const source = req.query.source as string;
+    
+    const result = await articleFetcher.getRuns({
+      page: isNaN(page) ? 1 : page,
+      limit: isNaN(limit) ? 20 : limit,
+      source
+    });
+    
+    res.status(200).json({
+      status: 'success',
+      results: result.runs.length,
+      data: {
+        runs: result.runs,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          pages: result.pages
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error getting article fetch runs:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to get article fetch runs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
 /**
  * Trigger an article fetch manually
  * @route POST /api/articles/fetcher/fetch
  */
 export const triggerArticleFetch = async (req: Request, res: Response): Promise<void> => {
   try {
+    // Optionally restrict the fetch to a single source
+    const source = (req.body?.source || req.query.source) as string | undefined;
+    
+    if (source) {
+      const provider = articleFetcher.getRegistry().get(source);
+      
+      if (!provider) {
+        res.status(404).json({
+          status: 'fail',
+          message: `Unknown news source: ${source}`
+        });
+        return;
+      }
+      
+      if (!provider.enabled) {
+        res.status(400).json({
+          status: 'fail',
+          message: `News source '${source}' is disabled`
+        });
+        return;
+      }
+      
+      if (articleFetcher.isSourceRunning(source)) {
+        res.status(409).json({
+          status: 'conflict',
+          message: `Article fetch already in progress for ${source}`,
+          data: articleFetcher.getStatus()
+        });
+        return;
+      }
+      
+      articleFetcher.fetchAndStoreArticles([source]);
+      
+      res.status(200).json({
+        status: 'success',
+        message: `Article fetch triggered for ${source}`,
+        data: articleFetcher.getStatus()
+      });
+      return;
+    }
+    
     // Check if a fetch is already in progress
-    const status = articleFetcher.getStatus() as any;
+    const status = articleFetcher.getStatus();
     
     if (status.isRunning) {
       res.status(409).json({
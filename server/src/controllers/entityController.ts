@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import articleStore from '../services/articleStore';
+import entityService from '../services/entityService';
+import { EntityType } from '../types/models/article.type';
+
+// Initialize services
+const articleStoreInstance = new articleStore();
+
+const ENTITY_TYPES: EntityType[] = ['person', 'organization'];
+
+/**
+ * Get the articles mentioning a person or organization, most recently fetched first
+ * @route GET /api/entities/:name/articles?limit=&daysBack=
+ */
+export const getEntityArticles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name } = req.params;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50; // Default to 50 articles
+    const daysBack = req.query.daysBack ? parseInt(req.query.daysBack as string) : 30; // Default to 30 days
+
+    const articles = await articleStoreInstance.getArticles({
+      entity: name,
+      limit: isNaN(limit) ? 50 : limit,
+      daysBack: isNaN(daysBack) ? 30 : daysBack
+    });
+
+    res.status(200).json({
+      status: 'success',
+      results: articles.length,
+      data: {
+        entity: name,
+        articles
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching entity articles:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to fetch entity articles',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Get the people and organizations mentioned in the most recent articles,
+ * optionally only those near a reader's ZIP code
+ * @route GET /api/entities/top?zipCode=&type=&daysBack=&limit=
+ */
+export const getTopEntities = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zipCode = req.query.zipCode as string | undefined;
+    const type = req.query.type as EntityType | undefined;
+
+    if (type && !ENTITY_TYPES.includes(type)) {
+      res.status(400).json({
+        status: 'fail',
+        message: `Invalid entity type: ${type}. Expected one of: ${ENTITY_TYPES.join(', ')}`
+      });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20; // Default to 20 entities
+    const daysBack = req.query.daysBack ? parseInt(req.query.daysBack as string) : 7; // Default to 7 days
+
+    const result = await entityService.getTopEntities({
+      zipCode,
+      type,
+      limit: isNaN(limit) ? 20 : limit,
+      daysBack: isNaN(daysBack) ? 7 : daysBack
+    });
+
+    if (!result) {
+      res.status(400).json({
+        status: 'fail',
+        message: `Could not locate ZIP code: ${zipCode}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      results: result.entities.length,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error fetching top entities:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to fetch top entities',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -6,6 +6,7 @@ import routes from './routes';
 import { globalErrorHandler } from './utils/errorHandler';
 import mongoManager from './database/MongoManager';
 import { articleFetcher } from './services/articleFetcherService';
+import retentionService from './services/retentionService';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
@@ -67,6 +68,9 @@ mongoManager.connect()
     articleFetcher.start('0 * * * *'); // Run every hour
     console.log('✅ Article fetcher service started');
     
+    // Archive old articles on their own schedule
+    retentionService.start();
+    
     // Start the server after successful MongoDB connection
     const server = startServer();
     
@@ -77,6 +81,7 @@ mongoManager.connect()
       // Stop the article fetcher
       articleFetcher.stop();
       console.log('Article fetcher stopped');
+      retentionService.stop();
       
       server.close(() => {
         console.log('Server closed');
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ApiQuotaUsage } from '../types/models/apiQuota.type';
+
+// Interface for the MongoDB document that extends the ApiQuotaUsage interface
+export interface ApiQuotaDocument extends ApiQuotaUsage, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema for the ApiQuota model
+const ApiQuotaSchema = new Schema(
+  {
+    provider: { type: String, required: true },
+    date: { type: String, required: true },
+    count: { type: Number, default: 0 }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'api_quotas'
+  }
+);
+
+// One counter per provider per day
+ApiQuotaSchema.index({ provider: 1, date: 1 }, { unique: true });
+
+// Create the model
+export const ApiQuotaModel = mongoose.model<ApiQuotaDocument>('ApiQuota', ApiQuotaSchema);
+
+export default ApiQuotaModel;
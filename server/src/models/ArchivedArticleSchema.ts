@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ArticleDocument } from './ArticleSchema';
+
+// Interface for the MongoDB document of an archived article
+export interface ArchivedArticleDocument extends ArticleDocument {
+  archivedAt: Date; // When the article was moved out of the articles collection
+}
+
+// Plain archived article, as returned by lean() queries
+export type ArchivedArticleRecord = Omit<ArchivedArticleDocument, keyof Document> & { _id: Types.ObjectId; __v?: number };
+
+// Create the schema for the ArchivedArticle model
+// Archived articles keep every field of the stored article; lookups only need fewer indexes
+const ArchivedArticleSchema = new Schema(
+  {
+    articleId: { type: String, required: true },
+    aliasIds: [{ type: String }],
+    title: { type: String, required: true },
+    content: { type: String, default: '' },
+    summary: { type: String },
+    source: { type: String, required: true },
+    sourceUrl: { type: String },
+    canonicalUrl: { type: String },
+    imageUrl: { type: String },
+    imageWidth: { type: Number },
+    imageHeight: { type: Number },
+    author: { type: String },
+    publishedAt: { type: String, required: true },
+    location: { type: Schema.Types && Schema.Types.Mixed ? Schema.Types.Mixed : Object, required: true },
+    tags: [{ type: String }],
+    topics: [{ _id: false, name: { type: String }, score: { type: Number } }],
+    entities: [{ _id: false, name: { type: String }, type: { type: String }, count: { type: Number } }],
+    mass: { type: Number, required: true },
+    storyId: { type: String },
+    fetchedAt: { type: Date },
+    archivedAt: { type: Date, required: true }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'articles_archive'
+  }
+);
+
+// Archiving the same article twice replaces the earlier copy
+ArchivedArticleSchema.index({ articleId: 1 }, { unique: true });
+// Archive queries filter by publication date, optionally per source
+ArchivedArticleSchema.index({ publishedAt: -1 });
+ArchivedArticleSchema.index({ source: 1, publishedAt: -1 });
+
+// Create the model
+export const ArchivedArticleModel = mongoose.model<ArchivedArticleDocument>('ArchivedArticle', ArchivedArticleSchema);
+
+export default ArchivedArticleModel;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ArticleRevision } from '../types/models/articleRevision.type';
+
+// Interface for the MongoDB document that extends the ArticleRevision interface
+export interface ArticleRevisionDocument extends ArticleRevision, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Field change, embedded in each revision
+const ArticleFieldChangeSchema = new Schema(
+  {
+    field: { type: String, required: true },
+    before: { type: Schema.Types && Schema.Types.Mixed ? Schema.Types.Mixed : Object },
+    after: { type: Schema.Types && Schema.Types.Mixed ? Schema.Types.Mixed : Object }
+  },
+  { _id: false }
+);
+
+// Create the schema for the ArticleRevision model
+const ArticleRevisionSchema = new Schema(
+  {
+    articleId: { type: String, required: true },
+    previous: {
+      title: { type: String, required: true },
+      content: { type: String },
+      location: { type: Schema.Types && Schema.Types.Mixed ? Schema.Types.Mixed : Object },
+      mass: { type: Number }
+    },
+    changes: [ArticleFieldChangeSchema],
+    revisedAt: { type: Date, required: true }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'article_revisions'
+  }
+);
+
+// Revisions are always read per article, newest first
+ArticleRevisionSchema.index({ articleId: 1, revisedAt: -1 });
+
+// Create the model
+export const ArticleRevisionModel = mongoose.model<ArticleRevisionDocument>('ArticleRevision', ArticleRevisionSchema);
+
+export default ArticleRevisionModel;
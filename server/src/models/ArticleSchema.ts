@@ -1,23 +1,35 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 import { Article, ArticleLocation } from '../types/models/article.type';
 
 // Interface for the MongoDB document that extends the Article interface
 // Use Omit to avoid conflicts between Article.id and Document._id
 export interface ArticleDocument extends Omit<Article, 'id'>, Document {
+  articleId: string; // Article.id, stored under another name
   createdAt: Date;
   updatedAt: Date;
   fetchedAt: Date; // When the article was fetched from the API
+  aliasIds?: string[]; // IDs of the same article from other sources
 }
 
+// Plain stored article, as returned by lean() queries
+export type ArticleRecord = Omit<ArticleDocument, keyof Document> & { _id: Types.ObjectId; __v?: number };
+
 // Create the schema for the Article model
 const ArticleSchema = new Schema(
   {
     // Use articleId in the schema to avoid conflicts with Document._id
     articleId: { type: String, required: true, unique: true, index: true },
+    aliasIds: [{ type: String }], // IDs of the same article from other sources, e.g. a NewsAPI article a Reddit post linked to first
     title: { type: String, required: true },
     content: { type: String, default: '' }, // Made optional with default empty string
+    summary: { type: String }, // Extractive summary of the fetched article page
     source: { type: String, required: true },
     sourceUrl: { type: String },
+    // Normalized sourceUrl; sparse so articles stored before normalization can coexist
+    canonicalUrl: { type: String, unique: true, sparse: true },
+    imageUrl: { type: String }, // Lead image from the source or the page's Open Graph image
+    imageWidth: { type: Number },
+    imageHeight: { type: Number },
     author: { type: String },
     publishedAt: { type: String, required: true },
     location: { 
@@ -34,7 +46,10 @@ const ArticleSchema = new Schema(
       }
     },
     tags: [{ type: String }],
+    topics: [{ _id: false, name: { type: String }, score: { type: Number } }], // Classified topics with scores
+    entities: [{ _id: false, name: { type: String }, type: { type: String }, count: { type: Number } }], // People and organizations with mention counts
     mass: { type: Number, required: true },
+    storyId: { type: String }, // Story cluster shared by near-duplicate articles
     // tier removed - will be calculated dynamically, not stored
     fetchedAt: { type: Date, default: Date.now }
   },
@@ -48,6 +63,10 @@ const ArticleSchema = new Schema(
 ArticleSchema.index({ source: 1, publishedAt: -1 });
 ArticleSchema.index({ location: 1 });
 ArticleSchema.index({ fetchedAt: 1 });
+ArticleSchema.index({ storyId: 1 });
+ArticleSchema.index({ aliasIds: 1 });
+ArticleSchema.index({ tags: 1 });
+ArticleSchema.index({ 'entities.name': 1 });
 
 // Create the model
 export const ArticleModel = mongoose.model<ArticleDocument>('Article', ArticleSchema);
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ContentCacheEntry } from '../types/models/contentCache.type';
+
+// Interface for the MongoDB document that extends the ContentCacheEntry interface
+export interface ContentCacheDocument extends ContentCacheEntry, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema for the ContentCache model
+const ContentCacheSchema = new Schema(
+  {
+    url: { type: String, required: true },
+    text: { type: String, default: '' },
+    image: { url: { type: String }, width: { type: Number }, height: { type: Number } },
+    etag: { type: String },
+    lastModified: { type: String },
+    fetchedAt: { type: Date, required: true },
+    checkedAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'content_cache'
+  }
+);
+
+// One entry per canonical URL
+ContentCacheSchema.index({ url: 1 }, { unique: true });
+
+// Pages nobody has asked for in 30 days are deleted by MongoDB
+ContentCacheSchema.index({ checkedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+// Create the model
+export const ContentCacheModel = mongoose.model<ContentCacheDocument>('ContentCache', ContentCacheSchema);
+
+export default ContentCacheModel;
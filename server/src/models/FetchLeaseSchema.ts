@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { FetchLease } from '../types/models/fetchLease.type';
+
+// Interface for the MongoDB document that extends the FetchLease interface
+export interface FetchLeaseDocument extends FetchLease, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema for the FetchLease model
+const FetchLeaseSchema = new Schema(
+  {
+    source: { type: String, required: true },
+    ownerId: { type: String, required: true },
+    acquiredAt: { type: Date, required: true },
+    heartbeatAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'fetch_leases'
+  }
+);
+
+// One lease per source; the unique index makes concurrent acquisition safe
+FetchLeaseSchema.index({ source: 1 }, { unique: true });
+
+// Create the model
+export const FetchLeaseModel = mongoose.model<FetchLeaseDocument>('FetchLease', FetchLeaseSchema);
+
+export default FetchLeaseModel;
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { FetchRun } from '../types/models/fetchRun.type';
+
+// Interface for the MongoDB document that extends the FetchRun interface
+export interface FetchRunDocument extends FetchRun, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Per-source outcome, embedded in each run
+const FetchRunSourceSchema = new Schema(
+  {
+    source: { type: String, required: true },
+    fetched: { type: Number, default: 0 },
+    geocoded: { type: Number, default: 0 },
+    stored: { type: Number, default: 0 },
+    inserted: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    errorMessages: [{ type: String }],
+    durationMs: { type: Number, default: 0 }
+  },
+  { _id: false }
+);
+
+// Create the schema for the FetchRun model
+const FetchRunSchema = new Schema(
+  {
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+    durationMs: { type: Number, required: true },
+    status: { type: String, enum: ['success', 'partial', 'failed'], required: true },
+    sources: [FetchRunSourceSchema],
+    errorMessages: [{ type: String }]
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'fetch_runs'
+  }
+);
+
+// Create indexes for common queries
+FetchRunSchema.index({ startedAt: -1 });
+FetchRunSchema.index({ 'sources.source': 1, startedAt: -1 });
+
+// Create the model
+export const FetchRunModel = mongoose.model<FetchRunDocument>('FetchRun', FetchRunSchema);
+
+export default FetchRunModel;
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { GeocodeCacheEntry } from '../types/models/geocodeCache.type';
+
+// Interface for the MongoDB document; the result is stored as `found` plus its fields
+export interface GeocodeCacheDocument extends Omit<GeocodeCacheEntry, 'result'>, Document {
+  found: boolean;
+  result?: GeocodeCacheEntry['result'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema for the GeocodeCache model
+const GeocodeCacheSchema = new Schema(
+  {
+    query: { type: String, required: true },
+    countryCode: { type: String, default: '' },
+    found: { type: Boolean, required: true }, // False when OpenCage found nothing for the query
+    result: {
+      coordinates: { latitude: { type: Number }, longitude: { type: Number } },
+      zipCode: { type: String },
+      city: { type: String },
+      state: { type: String },
+      country: { type: String },
+      formattedAddress: { type: String }
+    },
+    hits: { type: Number, default: 0 },
+    misses: { type: Number, default: 0 },
+    fetchedAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    lastHitAt: { type: Date }
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    collection: 'geocode_cache'
+  }
+);
+
+// One entry per query and country bias
+GeocodeCacheSchema.index({ query: 1, countryCode: 1 }, { unique: true });
+
+// Expired results are deleted by MongoDB
+GeocodeCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// The admin listing shows the most used queries first
+GeocodeCacheSchema.index({ hits: -1 });
+
+// Create the model
+export const GeocodeCacheModel = mongoose.model<GeocodeCacheDocument>('GeocodeCache', GeocodeCacheSchema);
+
+export default GeocodeCacheModel;
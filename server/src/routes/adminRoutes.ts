@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import {
+  getGeocodeCache,
+  purgeGeocodeCache
+} from '../controllers/adminController';
+
+const router = Router();
+
+// Geocode cache routes
+router.get('/geocode-cache', getGeocodeCache);
+router.delete('/geocode-cache', purgeGeocodeCache);
+
+export default router;
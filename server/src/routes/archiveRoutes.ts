@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import {
+  getArchivedArticles,
+  getRetentionStatus
+} from '../controllers/archiveController';
+
+const router = Router();
+
+// Archive routes
+router.get('/', getArchivedArticles);
+router.get('/status', getRetentionStatus);
+
+export default router;
@@ -2,7 +2,9 @@ import { Router } from 'express';
 import { 
   getArticles, 
   getArticleById, 
+  getArticleRevisions,
   getArticleFetcherStatus,
+  getFetchRuns,
   triggerArticleFetch
 } from '../controllers/articleController';
 
@@ -11,10 +13,12 @@ const router = Router();
 // Article routes
 router.get('/', getArticles);
 router.get('/:id', getArticleById);
+router.get('/:id/revisions', getArticleRevisions);
 // Read status route removed as we no longer track read status
 
 // Article fetcher routes
 router.get('/fetcher/status', getArticleFetcherStatus);
+router.get('/fetcher/runs', getFetchRuns);
 router.post('/fetcher/fetch', triggerArticleFetch);
 
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import {
+  getEntityArticles,
+  getTopEntities
+} from '../controllers/entityController';
+
+const router = Router();
+
+// Entity routes
+router.get('/top', getTopEntities);
+router.get('/:name/articles', getEntityArticles);
+
+export default router;
@@ -1,9 +1,15 @@
 import { Router } from 'express';
 import articleRoutes from './articleRoutes';
+import archiveRoutes from './archiveRoutes';
+import entityRoutes from './entityRoutes';
+import adminRoutes from './adminRoutes';
 
 const router = Router();
 
 // Mount routes
 router.use('/articles', articleRoutes);
+router.use('/archive', archiveRoutes);
+router.use('/entities', entityRoutes);
+router.use('/admin', adminRoutes);
 
 export default router;
@@ -1,45 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
 import cron from 'node-cron';
 import { CronExpressionParser } from 'cron-parser';
 import { NewsService } from './newsService';
-import articleStore from './articleStore';
-import { Article } from '../types/models/article.type';
-import { GeocodingService } from './geocodingService';
+import { ArticlePipeline } from './articlePipeline';
+import { NewsSourceRegistry } from './newsSourceRegistry';
+import { registerDefaultProviders } from './providers';
+import { NewsSourceProvider, NewsSourceStatus } from '../types/services/newsSource.type';
+import fetchRunService, { FetchRunService } from './fetchRunService';
+import { FetchRun, FetchRunPage, FetchRunSourceOutcome, FetchRunStatus } from '../types/models/fetchRun.type';
+import { FetchLeaseStatus } from '../types/models/fetchLease.type';
+import resilience, { ResilienceService } from './resilienceService';
+import quotaService, { QuotaService } from './quotaService';
+import leaseService, { LeaseService } from './leaseService';
+import { FetchProgressMessage, FetchResultMessage, FetchWorkerMessage, FetchWorkerRequest } from '../types/services/fetchWorker.type';
+import { ArticleFetcherStatus } from '../types/services/articleFetcher.type';
 
 /**
  * Service for fetching articles on a schedule and storing them in the database
  */
 export class ArticleFetcherService {
   private newsService: NewsService;
-  private articleStore: any;
-  private geocodingService: GeocodingService;
-  private cronJob: cron.ScheduledTask | null = null;
-  private isRunning: boolean = false;
+  private pipeline: ArticlePipeline;
+  private workerPath: string;
+  private workerEnabled: boolean;
+  private activeWorkers: number = 0;
+  private cronJobs: Map<string, cron.ScheduledTask> = new Map();
+  private defaultSchedule: string = '0 */6 * * *';
+  private runningSources: Set<string> = new Set();
   private fetchCount: number = 0;
-  private readonly defaultArticleLimit: number = 50; // Increased from 30 to 50
   private lastFetchTime: Date | null = null;
+  private sourceLastFetchTimes: Map<string, Date> = new Map();
+  private registry: NewsSourceRegistry;
+  private fetchRunService: FetchRunService;
+  private resilience: ResilienceService;
+  private quotaService: QuotaService;
+  private leaseService: LeaseService;
+  private lastRun: FetchRun | null = null;
 
-  constructor() {
+  /**
+   * @param registry Optional registry of news source providers (defaults to the built-in providers)
+   */
+  constructor(registry?: NewsSourceRegistry) {
     this.newsService = new NewsService();
-    this.articleStore = new articleStore();
-    this.geocodingService = new GeocodingService();
+    this.pipeline = new ArticlePipeline();
+    // The worker only exists as compiled JavaScript, so fetches run on the main thread under ts-jest
+    this.workerPath = path.join(__dirname, '..', 'workers', 'articleFetchWorker.js');
+    this.workerEnabled = process.env.FETCH_WORKER_ENABLED !== 'false';
+    this.registry = registry || registerDefaultProviders(new NewsSourceRegistry(), this.newsService);
+    this.fetchRunService = fetchRunService;
+    this.resilience = resilience;
+    this.quotaService = quotaService;
+    this.leaseService = leaseService;
+  }
+
+  /**
+   * Get the registry of news source providers
+   * Register additional providers here to include them in scheduled fetches
+   * @returns The news source registry
+   */
+  public getRegistry(): NewsSourceRegistry {
+    return this.registry;
   }
 
   /**
-   * Start the article fetcher service with a cron schedule
-   * @param cronSchedule Cron schedule expression (default: every 6 hours)
+   * Start the article fetcher service
+   * Each enabled source gets its own cron job using the provider's schedule,
+   * falling back to the given default schedule
+   * Sources registered or enabled after starting are scheduled on the next start
+   * @param cronSchedule Default cron schedule expression (default: every 6 hours)
    */
   public start(cronSchedule: string = '0 */6 * * *'): void {
-    if (this.cronJob) {
-      console.info('Article fetcher already running, stopping previous job');
+    if (this.cronJobs.size > 0) {
+      console.info('Article fetcher already running, stopping previous jobs');
       this.stop();
     }
 
-    console.info(`Starting article fetcher with schedule: ${cronSchedule}`);
+    this.defaultSchedule = cronSchedule;
+
+    // Load today's API usage so the status reports the shared budget
+    this.quotaService.refresh();
     
-    // Schedule the cron job
-    this.cronJob = cron.schedule(cronSchedule, async () => {
-      await this.fetchAndStoreArticles();
-    });
+    // Schedule a cron job per enabled source
+    for (const provider of this.registry.getEnabled()) {
+      const schedule = provider.schedule || cronSchedule;
+      console.info(`Starting article fetcher for ${provider.id} with schedule: ${schedule}`);
+      
+      this.cronJobs.set(provider.id, cron.schedule(schedule, async () => {
+        await this.fetchAndStoreArticles([provider.id]);
+      }));
+    }
 
     // Fetch articles immediately on startup
     this.fetchAndStoreArticles()
@@ -51,135 +102,273 @@ export class ArticleFetcherService {
    * Stop the article fetcher service
    */
   public stop(): void {
-    if (this.cronJob) {
-      this.cronJob.stop();
-      this.cronJob = null;
+    if (this.cronJobs.size > 0) {
+      this.cronJobs.forEach(job => job.stop());
+      this.cronJobs.clear();
       console.info('Article fetcher stopped');
     }
   }
 
   /**
-   * Fetch articles from all sources and store them in the database
+   * Check whether a source is currently being fetched
+   * @param sourceId Provider id
+   * @returns True if a fetch for the source is in progress
+   */
+  public isSourceRunning(sourceId: string): boolean {
+    return this.runningSources.has(sourceId);
+  }
+
+  /**
+   * Fetch articles from sources and store them in the database
+   * Sources that are already being fetched are skipped
+   * Each run is recorded in the fetch run history with per-source outcomes
+   * @param sourceIds Optional provider ids to fetch (default: all enabled sources)
+   * @returns The completed run, or null if there was nothing to fetch
    */
-  public async fetchAndStoreArticles(): Promise<void> {
-    if (this.isRunning) {
+  public async fetchAndStoreArticles(sourceIds?: string[]): Promise<FetchRun | null> {
+    const requestedProviders = sourceIds
+      ? sourceIds
+        .map(id => this.registry.get(id))
+        .filter((provider): provider is NewsSourceProvider => provider !== undefined)
+      : this.registry.getEnabled();
+    const idleProviders = requestedProviders.filter(provider => !this.runningSources.has(provider.id));
+    
+    if (idleProviders.length < requestedProviders.length) {
+      console.debug('Skipping sources with a fetch already in progress');
+    }
+    
+    // Mark sources as running before acquiring leases so overlapping calls on this instance skip them
+    idleProviders.forEach(provider => this.runningSources.add(provider.id));
+    
+    // Only fetch sources whose lease this instance holds, so replicas do not fetch the same source
+    const providers: NewsSourceProvider[] = [];
+    for (const provider of idleProviders) {
+      if (await this.leaseService.acquire(provider.id)) {
+        providers.push(provider);
+      } else {
+        console.debug(`Skipping ${provider.id}, its fetch lease is held by another instance`);
+        this.runningSources.delete(provider.id);
+      }
+    }
+    
+    if (providers.length === 0) {
       console.debug('Article fetch already in progress, skipping');
-      return;
+      return null;
     }
 
-    this.isRunning = true;
     this.fetchCount++;
     this.lastFetchTime = new Date();
     
+    const startedAt = this.lastFetchTime;
+    const pending = new Set(providers.map(provider => provider.id));
+    const outcomes: FetchRunSourceOutcome[] = [];
+    const runErrors: string[] = [];
+    
+    // Progress messages keep the per-source state current while the run is in progress
+    const onProgress = (message: FetchProgressMessage): void => {
+      if (message.stage === 'started') {
+        this.sourceLastFetchTimes.set(message.source, new Date());
+      } else if (pending.delete(message.source)) {
+        this.runningSources.delete(message.source);
+        this.leaseService.release(message.source);
+      }
+    };
+    
     try {
       console.info(`Starting article fetch #${this.fetchCount}`);
       
-      // Fetch articles from Reddit (real data source)
-      const redditArticles = await this.fetchFromSource('reddit', true);
-      console.info(`Fetched ${redditArticles.length} articles from Reddit`);
-      
-      // Fetch articles from NewsAPI (real data source)
-      const newsAPIArticles = await this.fetchFromSource('newsapi', true);
-      console.info(`Fetched ${newsAPIArticles.length} articles from NewsAPI`);
-      
-      // Process and geocode all real data source articles
-      const processedRedditArticles = await this.processArticles(redditArticles);
-      const processedNewsAPIArticles = await this.processArticles(newsAPIArticles);
-      
-      console.info(`Processed ${processedRedditArticles.length + processedNewsAPIArticles.length} articles with geocoding information`);
+      let remaining = providers;
       
-      // Store articles from all real sources
-      const articlesToStore = [...processedRedditArticles, ...processedNewsAPIArticles];
-      
-      // Fetch articles from other sources (these are currently mocked)
-      // but don't store them in the database
-      const twitterArticles = await this.fetchFromSource('twitter', false);
-      const washingtonPostArticles = await this.fetchFromSource('washington_post', false);
-      
-      console.info(`Fetched ${twitterArticles.length} mock Twitter articles and ${washingtonPostArticles.length} mock Washington Post articles`);
-      
-      // Store articles in the database
-      if (articlesToStore.length > 0) {
-        const storedCount = await this.articleStore.storeArticles(articlesToStore);
-        console.info(`Stored ${storedCount} articles in the database`);
-      } else {
-        console.info('No articles to store in the database');
+      if (this.isWorkerAvailable()) {
+        // Fetch in a worker thread so NLP and HTML parsing do not block API requests
+        const result = await this.runInWorker(providers, onProgress);
+        outcomes.push(...result.outcomes);
+        remaining = providers.filter(provider => result.unavailable.includes(provider.id));
       }
       
-      console.info('Article fetch completed successfully');
+      // Run the remaining providers on the main thread (all of them when the worker is unavailable)
+      outcomes.push(...await this.pipeline.runSources(remaining, onProgress));
+      
+      console.info('Article fetch completed');
     } catch (error) {
       console.error('Error fetching and storing articles:', error);
+      runErrors.push(error instanceof Error ? error.message : 'Unknown error');
     } finally {
-      this.isRunning = false;
+      pending.forEach(id => {
+        this.runningSources.delete(id);
+        this.leaseService.release(id);
+      });
     }
+    
+    // Keep outcomes in the requested order when some sources ran on the main thread
+    const order = providers.map(provider => provider.id);
+    outcomes.sort((a, b) => order.indexOf(a.source) - order.indexOf(b.source));
+    
+    const finishedAt = new Date();
+    const run: FetchRun = {
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      status: this.determineRunStatus(outcomes, runErrors),
+      sources: outcomes,
+      errorMessages: runErrors
+    };
+    
+    this.lastRun = run;
+    await this.fetchRunService.recordRun(run);
+    
+    return run;
   }
 
   /**
-   * Fetch articles from a specific source
-   * @param source Source to fetch articles from
-   * @param storeArticles Whether to store the articles in the database
-   * @returns Array of articles
+   * Check whether fetches can run in a worker thread
+   * @returns True if the worker is enabled and its compiled script exists
    */
-  private async fetchFromSource(source: string, storeArticles: boolean = true): Promise<Article[]> {
-    try {
-      console.log(`Fetching articles from ${source}`);
+  private isWorkerAvailable(): boolean {
+    return this.workerEnabled && fs.existsSync(this.workerPath);
+  }
+
+  /**
+   * Run the pipeline for the given providers in a worker thread
+   * @param providers Providers to fetch articles from
+   * @param onProgress Callback for progress messages from the worker
+   * @returns The worker's result message
+   */
+  private runInWorker(providers: NewsSourceProvider[], onProgress: (message: FetchProgressMessage) => void): Promise<FetchResultMessage> {
+    const request: FetchWorkerRequest = {
+      sources: providers.map(provider => ({ id: provider.id, limit: provider.defaultLimit })),
+      circuits: this.resilience.getStatus()
+    };
+    
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(this.workerPath, { workerData: request });
+      let result: FetchResultMessage | null = null;
+      let errorMessage: string | null = null;
+      this.activeWorkers++;
       
-      let articles: Article[] = [];
+      worker.on('message', (message: FetchWorkerMessage) => {
+        switch (message.type) {
+          case 'progress':
+            onProgress(message);
+            break;
+          case 'result':
+            result = message;
+            break;
+          case 'error':
+            errorMessage = message.message;
+            break;
+        }
+      });
       
-      // Fetch articles based on source
-      switch (source) {
-        case 'reddit':
-          // Use forceFetch=true to ensure we always get fresh articles
-          articles = await this.newsService.fetchFromReddit('news', this.defaultArticleLimit, true);
-          break;
-        case 'newsapi':
-          // Use forceFetch=true to ensure we always get fresh articles
-          articles = await this.newsService.fetchFromNewsAPI(this.defaultArticleLimit, true);
-          break;
-        case 'twitter':
-          articles = await this.newsService.fetchFromTwitter();
-          break;
-        case 'washington_post':
-          articles = await this.newsService.fetchFromWashingtonPost();
-          break;
-        default:
-          console.warn(`Unknown source: ${source}`);
-      }
+      worker.on('error', error => {
+        errorMessage = error.message;
+      });
       
-      console.log(`Fetched ${articles.length} articles from ${source}`);
-      return articles;
-    } catch (error) {
-      console.error(`Error fetching articles from ${source}:`, error);
-      return [];
+      worker.on('exit', code => {
+        this.activeWorkers--;
+        
+        if (result) {
+          // Carry the worker's circuit breaker state and API usage over to the main thread
+          this.resilience.restore(result.circuits);
+          this.quotaService.refresh();
+          resolve(result);
+        } else {
+          reject(new Error(errorMessage || `Fetch worker exited with code ${code}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Determine the overall status of a run from its source outcomes
+   * @param outcomes Per-source outcomes
+   * @param runErrors Errors not attributable to a single source
+   * @returns Run status
+   */
+  private determineRunStatus(outcomes: FetchRunSourceOutcome[], runErrors: string[]): FetchRunStatus {
+    const failedSources = outcomes.filter(outcome => outcome.errorMessages.length > 0).length;
+    
+    if (runErrors.length > 0 || (outcomes.length > 0 && failedSources === outcomes.length)) {
+      return 'failed';
     }
+    
+    return failedSources > 0 ? 'partial' : 'success';
+  }
+
+  /**
+   * Get recorded fetch runs, newest first
+   * @param options Pagination options and an optional source filter
+   * @returns Page of fetch runs
+   */
+  public async getRuns(options: { page?: number; limit?: number; source?: string } = {}): Promise<FetchRunPage> {
+    return this.fetchRunService.getRuns(options);
+  }
+
+  /**
+   * Get the fetch leases of every instance, showing which instance fetches each source
+   * @returns Array of lease statuses
+   */
+  public async getLeases(): Promise<FetchLeaseStatus[]> {
+    return this.leaseService.getLeases();
   }
 
   /**
    * Get the status of the article fetcher service
    * @returns Status information
    */
-  public getStatus(): object {
+  public getStatus(): ArticleFetcherStatus {
+    const sources = this.getSourceStatuses();
+    const nextRuns = sources
+      .map(source => source.nextScheduledRun)
+      .filter((run): run is string => run !== null)
+      .sort();
+    
     return {
-      isRunning: this.isRunning,
-      isScheduled: this.cronJob !== null,
+      instanceId: this.leaseService.getOwnerId(),
+      isRunning: this.runningSources.size > 0,
+      isScheduled: this.cronJobs.size > 0,
       fetchCount: this.fetchCount,
       lastFetchAt: this.lastFetchTime ? this.lastFetchTime.toISOString() : null,
-      nextScheduledFetch: this.cronJob ? this.getNextScheduledRun() : null
+      nextScheduledFetch: nextRuns.length > 0 ? nextRuns[0] : null,
+      sources,
+      circuits: this.resilience.getStatus(),
+      quotas: this.quotaService.getStatus(),
+      worker: {
+        enabled: this.isWorkerAvailable(),
+        activeWorkers: this.activeWorkers
+      },
+      lastRun: this.lastRun
+        ? { status: this.lastRun.status, finishedAt: this.lastRun.finishedAt.toISOString(), durationMs: this.lastRun.durationMs }
+        : null
     };
   }
   
   /**
-   * Calculate the next scheduled run time based on the cron expression
+   * Get the scheduling state of every registered source
+   * @returns Array of source statuses
+   */
+  private getSourceStatuses(): NewsSourceStatus[] {
+    return this.registry.getSummaries().map(summary => {
+      const schedule = summary.schedule || this.defaultSchedule;
+      const lastFetch = this.sourceLastFetchTimes.get(summary.id);
+      
+      return {
+        ...summary,
+        schedule,
+        isRunning: this.runningSources.has(summary.id),
+        lastFetchAt: lastFetch ? lastFetch.toISOString() : null,
+        nextScheduledRun: this.cronJobs.has(summary.id) ? this.getNextScheduledRun(schedule) : null
+      };
+    });
+  }
+  
+  /**
+   * Calculate the next scheduled run time based on a cron expression
+   * @param expression Cron expression
    * @returns Next scheduled run time as ISO string
    */
-  private getNextScheduledRun(): string | null {
-    if (!this.cronJob) return null;
-    
+  private getNextScheduledRun(expression: string): string | null {
     try {
-      // Get the cron expression from the job
-      const expression = (this.cronJob as any).options?.cronExpression;
-      if (!expression) return null;
-      
       // Use cron-parser to get the next run time
       const interval = CronExpressionParser.parse(expression);
       return interval.next().toISOString();
@@ -188,75 +377,6 @@ export class ArticleFetcherService {
       return null;
     }
   }
-  
-  /**
-   * Process articles with geocoding information
-   * @param articles Articles to process
-   * @returns Processed articles with geocoding information (only those with valid coordinates)
-   */
-  private async processArticles(articles: Article[]): Promise<Article[]> {
-    const processedArticles: Article[] = [];
-    
-    for (const article of articles) {
-      try {
-        // Extract location information
-        let locationName: string | undefined;
-        
-        // Handle different location formats
-        if (typeof article.location === 'string') {
-          // If location is a string, use it directly
-          locationName = article.location;
-        } else if (article.location && typeof article.location === 'object') {
-          // Get location name from the location field
-          locationName = article.location.location;
-          
-          // If the article already has valid coordinates, use it directly
-          if (article.location.latitude !== undefined && article.location.longitude !== undefined) {
-            processedArticles.push(article);
-            continue;
-          }
-        }
-        
-        // Skip articles without a location name
-        if (!locationName) {
-          console.debug(`Skipping article without location information: ${article.id}`);
-          continue;
-        }
-        
-        // Geocode the location (US locations will be prioritized by the geocoding service)
-        console.debug(`Geocoding location: ${locationName}`);
-        const geocodedLocation = await this.geocodingService.geocodeLocation(locationName);
-        
-        // Only include articles with valid geocoding results that have coordinates
-        if (geocodedLocation && geocodedLocation.coordinates) {
-          // Create a new location object with the required fields
-          article.location = {
-            location: locationName,
-            latitude: geocodedLocation.coordinates.latitude,
-            longitude: geocodedLocation.coordinates.longitude,
-            zipCode: geocodedLocation.zipCode
-          };
-          
-          // Log if this is a US location that was prioritized
-          if (geocodedLocation.isUSLocation) {
-            console.debug(`US location prioritized for article: ${article.id}`);
-          }
-          
-          console.debug(`Successfully geocoded location for article: ${article.id}`);
-          processedArticles.push(article);
-        } else {
-          console.warn(`Failed to geocode location for article: ${article.id}, excluding from results`);
-          // Do not include articles without valid coordinates
-        }
-      } catch (error) {
-        console.error(`Error processing article ${article.id}:`, error);
-        // Do not include articles with errors
-      }
-    }
-    
-    console.info(`Processed ${articles.length} articles, kept ${processedArticles.length} with valid coordinates`);
-    return processedArticles;
-  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,209 @@
+import { ArticleStore } from './articleStore';
+import { Article } from '../types/models/article.type';
+import { GeocodingService } from './geocodingService';
+import { getCoordinates } from '../utils/locationUtils';
+import storyClusterService, { StoryClusterService } from './storyClusterService';
+import topicClassifier, { TopicClassifier } from './topicClassifier';
+import { NewsSourceProvider } from '../types/services/newsSource.type';
+import { FetchRunSourceOutcome } from '../types/models/fetchRun.type';
+import { FetchProgressMessage } from '../types/services/fetchWorker.type';
+
+/**
+ * The fetch, geocode and store pipeline for news sources
+ * Runs inside the fetch worker thread, or on the main thread when the worker is unavailable
+ */
+export class ArticlePipeline {
+  private articleStore: ArticleStore;
+  private geocodingService: GeocodingService;
+  private storyClusterService: StoryClusterService;
+  private topicClassifier: TopicClassifier;
+
+  /**
+   * @param store Optional article store (defaults to a new ArticleStore)
+   * @param geocodingService Optional geocoding service (defaults to a new GeocodingService)
+   * @param clusterService Optional story cluster service (defaults to the shared instance)
+   * @param classifier Optional topic classifier (defaults to the shared instance)
+   */
+  constructor(store?: ArticleStore, geocodingService?: GeocodingService, clusterService?: StoryClusterService, classifier?: TopicClassifier) {
+    this.articleStore = store || new ArticleStore();
+    this.geocodingService = geocodingService || new GeocodingService();
+    this.storyClusterService = clusterService || storyClusterService;
+    this.topicClassifier = classifier || topicClassifier;
+  }
+
+  /**
+   * Run the pipeline for each provider in order
+   * @param providers Providers to fetch articles from
+   * @param onProgress Optional callback notified when a source starts and finishes
+   * @returns Outcome of each source fetch
+   */
+  async runSources(providers: NewsSourceProvider[], onProgress?: (message: FetchProgressMessage) => void): Promise<FetchRunSourceOutcome[]> {
+    const outcomes: FetchRunSourceOutcome[] = [];
+
+    for (const provider of providers) {
+      onProgress?.({ type: 'progress', source: provider.id, stage: 'started' });
+      const outcome = await this.runSource(provider);
+      outcomes.push(outcome);
+      onProgress?.({ type: 'progress', source: provider.id, stage: 'completed', outcome });
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Fetch, geocode and store articles from a single provider
+   * @param provider Provider to fetch articles from
+   * @returns Outcome of the source fetch
+   */
+  async runSource(provider: NewsSourceProvider): Promise<FetchRunSourceOutcome> {
+    const startTime = Date.now();
+    const outcome: FetchRunSourceOutcome = {
+      source: provider.id,
+      fetched: 0,
+      geocoded: 0,
+      stored: 0,
+      skipped: 0,
+      errorMessages: [],
+      durationMs: 0
+    };
+    
+    const articles = await this.fetchFromSource(provider, outcome.errorMessages);
+    outcome.fetched = articles.length;
+    
+    if (!provider.storeArticles) {
+      // Mock sources are fetched but their articles are not stored in the database
+      console.info(`Fetched ${articles.length} mock articles from ${provider.id}, not storing`);
+      outcome.skipped = articles.length;
+    } else if (articles.length > 0) {
+      // Process and geocode articles from real data sources
+      const processedArticles = await this.processArticles(articles);
+      console.info(`Processed ${processedArticles.length} ${provider.id} articles with geocoding information`);
+      outcome.geocoded = processedArticles.length;
+      outcome.skipped = articles.length - processedArticles.length;
+      
+      if (processedArticles.length > 0) {
+        // Tag each article with its topics from the controlled vocabulary
+        this.topicClassifier.tagArticles(processedArticles);
+        
+        try {
+          // Group near-duplicates of the same story, e.g. the same event from Reddit and NewsAPI
+          await this.storyClusterService.assignStories(processedArticles);
+        } catch (error) {
+          // Articles are still stored without a story
+          console.error(`Error clustering ${provider.id} articles into stories:`, error);
+        }
+        
+        try {
+          const result = await this.articleStore.storeArticles(processedArticles);
+          outcome.stored = result.inserted + result.updated;
+          outcome.inserted = result.inserted;
+          outcome.updated = result.updated;
+          outcome.unchanged = result.unchanged;
+          outcome.failed = result.failed;
+          outcome.errorMessages.push(...result.errors);
+          console.info(`Stored ${outcome.stored} ${provider.id} articles in the database`);
+        } catch (error) {
+          console.error(`Error storing articles from ${provider.id}:`, error);
+          outcome.errorMessages.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    }
+    
+    outcome.durationMs = Date.now() - startTime;
+    return outcome;
+  }
+
+  /**
+   * Fetch articles from a specific source provider
+   * @param provider Provider to fetch articles from
+   * @param errors Collects the error message if the provider fails
+   * @returns Array of articles (empty if the provider fails)
+   */
+  private async fetchFromSource(provider: NewsSourceProvider, errors: string[] = []): Promise<Article[]> {
+    try {
+      console.log(`Fetching articles from ${provider.id}`);
+      
+      // Use forceFetch=true to ensure we always get fresh articles
+      const articles = await provider.fetch({ limit: provider.defaultLimit, forceFetch: true });
+      
+      console.log(`Fetched ${articles.length} articles from ${provider.id}`);
+      return articles;
+    } catch (error) {
+      console.error(`Error fetching articles from ${provider.id}:`, error);
+      errors.push(error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+
+  /**
+   * Process articles with geocoding information
+   * @param articles Articles to process
+   * @returns Processed articles with geocoding information (only those with valid coordinates)
+   */
+  private async processArticles(articles: Article[]): Promise<Article[]> {
+    const processedArticles: Article[] = [];
+    
+    for (const article of articles) {
+      try {
+        // Extract location information
+        let locationName: string | undefined;
+        
+        // Handle different location formats
+        if (typeof article.location === 'string') {
+          // If location is a string, use it directly
+          locationName = article.location;
+        } else if (article.location && typeof article.location === 'object') {
+          // Get location name from the location field
+          locationName = article.location.location;
+          
+          // If the article already has valid coordinates, use it directly; 0,0 is the placeholder
+          // geocodeArticleLocation leaves when it found no place, e.g. for feed items
+          if (getCoordinates(article.location)) {
+            processedArticles.push(article);
+            continue;
+          }
+        }
+        
+        // Skip articles without a location name, including the 'Unknown' placeholder sources set
+        if (!locationName || locationName === 'Unknown') {
+          console.debug(`Skipping article without location information: ${article.id}`);
+          continue;
+        }
+        
+        // Geocode the location (US locations will be prioritized by the geocoding service)
+        console.debug(`Geocoding location: ${locationName}`);
+        const geocodedLocation = await this.geocodingService.geocodeLocation(locationName);
+        
+        // Only include articles with valid geocoding results that have coordinates
+        if (geocodedLocation && geocodedLocation.coordinates) {
+          // Create a new location object with the required fields
+          article.location = {
+            location: locationName,
+            latitude: geocodedLocation.coordinates.latitude,
+            longitude: geocodedLocation.coordinates.longitude,
+            zipCode: geocodedLocation.zipCode
+          };
+          
+          // Log if this is a US location that was prioritized
+          if (geocodedLocation.isUSLocation) {
+            console.debug(`US location prioritized for article: ${article.id}`);
+          }
+          
+          console.debug(`Successfully geocoded location for article: ${article.id}`);
+          processedArticles.push(article);
+        } else {
+          console.warn(`Failed to geocode location for article: ${article.id}, excluding from results`);
+          // Do not include articles without valid coordinates
+        }
+      } catch (error) {
+        console.error(`Error processing article ${article.id}:`, error);
+        // Do not include articles with errors
+      }
+    }
+    
+    console.info(`Processed ${articles.length} articles, kept ${processedArticles.length} with valid coordinates`);
+    return processedArticles;
+  }
+}
+
+export default ArticlePipeline;
@@ -0,0 +1,108 @@
+import ArticleRevisionModel from '../models/ArticleRevisionSchema';
+import { ArticleRecord } from '../models/ArticleSchema';
+import mongoManager from '../database/MongoManager';
+import {
+  ArticleFieldChange,
+  ArticleRevision,
+  ArticleRevisionFields
+} from '../types/models/articleRevision.type';
+
+// Fields snapshotted in each revision
+const REVISION_FIELDS: (keyof ArticleRevisionFields)[] = ['title', 'content', 'location', 'mass'];
+
+// Mass follows votes and comments, so a change in mass alone is not a new revision
+const CONTENT_FIELDS: (keyof ArticleRevisionFields)[] = ['title', 'content', 'location'];
+
+/**
+ * Service for the revision history of stored articles
+ * Headline rewrites and corrections overwrite the stored article, so its
+ * previous fields are kept as a revision whenever an update changes them
+ */
+export class ArticleRevisionService {
+  /**
+   * Build the revision for an update of a stored article
+   * Only an update from the article's own source is an edit; a copy of the same
+   * story from another source is not a revision of the stored article
+   * @param existing Stored article (lean document)
+   * @param articleId ID of the incoming article
+   * @param fields Fields the update will set
+   * @returns Revision, or null if the update comes from another article or changes no title, content or location
+   */
+  buildRevision(existing: Pick<ArticleRecord, 'articleId' | keyof ArticleRevisionFields>, articleId: string, fields: Record<string, unknown>): ArticleRevision | null {
+    if (existing.articleId !== articleId) {
+      return null;
+    }
+
+    const changes: ArticleFieldChange[] = REVISION_FIELDS
+      .filter(field => field in fields && JSON.stringify(existing[field]) !== JSON.stringify(fields[field]))
+      .map(field => ({ field, before: existing[field], after: fields[field] }));
+
+    if (!changes.some(change => CONTENT_FIELDS.includes(change.field))) {
+      return null;
+    }
+
+    return {
+      articleId: existing.articleId,
+      previous: {
+        title: existing.title,
+        content: existing.content,
+        location: existing.location,
+        mass: existing.mass
+      },
+      changes,
+      revisedAt: new Date()
+    };
+  }
+
+  /**
+   * Persist revisions
+   * @param revisions Revisions to record
+   * @returns Number of revisions recorded
+   */
+  async recordRevisions(revisions: ArticleRevision[]): Promise<number> {
+    if (revisions.length === 0 || !mongoManager.isConnected()) {
+      return 0;
+    }
+
+    try {
+      const recorded = await ArticleRevisionModel.insertMany(revisions, { ordered: false });
+      return recorded.length;
+    } catch (error) {
+      console.error('Error recording article revisions:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the revision history of an article, newest first
+   * @param articleId Article id
+   * @param limit Maximum number of revisions to return
+   * @returns Array of revisions
+   */
+  async getRevisions(articleId: string, limit: number = 50): Promise<ArticleRevision[]> {
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, returning empty revision history');
+      return [];
+    }
+
+    try {
+      const docs = await ArticleRevisionModel.find({ articleId })
+        .sort({ revisedAt: -1 })
+        .limit(Math.min(200, Math.max(1, limit)))
+        .lean<ArticleRevision[]>();
+
+      // Strip MongoDB internals from the response
+      return docs.map(doc => ({
+        articleId: doc.articleId,
+        previous: doc.previous,
+        changes: doc.changes || [],
+        revisedAt: doc.revisedAt
+      }));
+    } catch (error) {
+      console.error(`Error retrieving revisions for article ${articleId}:`, error);
+      return [];
+    }
+  }
+}
+
+export default new ArticleRevisionService();
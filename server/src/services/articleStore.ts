@@ -1,7 +1,28 @@
 import { Article } from '../types/models/article.type';
-import ArticleModel from '../models/ArticleSchema';
+import { AnyBulkWriteOperation, FilterQuery, mongo } from 'mongoose';
+import ArticleModel, { ArticleDocument, ArticleRecord } from '../models/ArticleSchema';
+import { toArticle } from '../utils/articleMapper';
 import mongoManager from '../database/MongoManager';
 import { GeocodingService } from './geocodingService';
+import { canonicalizeUrl } from '../utils/urlCanonicalizer';
+import { StoreArticlesResult } from '../types/services/articleStore.type';
+import { ArticleRevision } from '../types/models/articleRevision.type';
+import articleRevisionService from './articleRevisionService';
+
+// Maximum number of articles written with a single bulkWrite
+const BULK_WRITE_BATCH_SIZE = 100;
+
+// The parts of a failed write of an unordered bulkWrite that are reported
+type WriteErrorInfo = { index?: number; errmsg?: string; message?: string };
+
+/**
+ * Escape a string for use as a literal in a regular expression
+ * @param value String to escape
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
 /**
  * Service for storing and retrieving articles from MongoDB
@@ -13,132 +34,249 @@ export class ArticleStore {
     this.geocodingService = new GeocodingService();
   }
   /**
-   * Store articles in the database
+   * Store articles in the database with batched bulk upserts
+   * Articles are matched to their stored copy by ID, canonical URL or raw URL.
+   * New articles are inserted, changed articles are updated (keeping a revision
+   * of their previous fields) and unchanged articles are not written at all.
+   * A copy stored under another ID, e.g. by another source, only gains the tags
+   * and the ID of the incoming article
    * @param articles Articles to store
-   * @returns Number of articles successfully stored
+   * @returns Inserted, updated, unchanged and failed counts for the batch
    */
-  async storeArticles(articles: Article[]): Promise<number> {
-    console.log(`Attempting to store ${articles.length} articles`);
+  async storeArticles(articles: Article[]): Promise<StoreArticlesResult> {
+    const result: StoreArticlesResult = { inserted: 0, updated: 0, unchanged: 0, failed: 0, errors: [] };
     
     if (!mongoManager.isConnected()) {
       console.warn('MongoDB not connected, skipping article storage');
-      return 0;
+      return result;
     }
 
-    try {
-      let savedCount = 0;
-      const duplicateCount = 0; // Not used after removing the skip logic
+    // Tracking parameters, AMP variants etc. are removed from the URL so they match the same article
+    const entries: { article: Article; canonicalUrl?: string }[] = [];
+    const seenKeys = new Set<string>();
+    
+    for (const article of articles) {
+      const canonicalUrl = article.canonicalUrl || canonicalizeUrl(article.sourceUrl);
+      const key = canonicalUrl || article.id;
       
-      // Process each article
-      for (const article of articles) {
-        // Debug log the article being processed
-        console.log(`Processing article: ${article.id} - ${article.title.substring(0, 30)}...`);
-        
-        // Check if article already exists by ID or URL
-        // Make sure to use the lean: false option to get a Mongoose document that has save() method
-        const existingArticle = await ArticleModel.findOne({ 
-          $or: [
-            { articleId: article.id },
-            { sourceUrl: article.sourceUrl }
-          ]
-        });
-        
-        if (existingArticle) {
-          // Debug log for existing article
-          console.log(`Found existing article: ${article.id} - ${article.title.substring(0, 30)}...`);
-          
-          // Always update existing articles regardless of when they were last fetched
-          const lastFetchTime = new Date(existingArticle.fetchedAt);
-          const hoursSinceLastFetch = (Date.now() - lastFetchTime.getTime()) / (1000 * 60 * 60);
-          
-          console.log(`Updating existing article (${hoursSinceLastFetch.toFixed(2)} hours old): ${article.id}`);
-          
-          // Update existing article with new data
-          try {
-            // Check if existingArticle is a valid Mongoose document
-            if (existingArticle && typeof existingArticle.save === 'function') {
-              existingArticle.title = article.title;
-              existingArticle.content = article.content;
-              existingArticle.location = article.location;
-              existingArticle.mass = article.mass;
-              existingArticle.fetchedAt = new Date();
-              
-              await existingArticle.save();
-              savedCount++;
-              console.log(`Successfully updated existing article: ${article.id}`);
-            } else {
-              // If existingArticle is not a valid Mongoose document, use findOneAndUpdate instead
-              console.log(`Using findOneAndUpdate for article: ${article.id} (not a valid Mongoose document)`);
-              await ArticleModel.findOneAndUpdate(
-                { $or: [{ articleId: article.id }, { sourceUrl: article.sourceUrl }] },
-                {
-                  $set: {
-                    title: article.title,
-                    content: article.content,
-                    location: article.location,
-                    mass: article.mass,
-                    fetchedAt: new Date()
-                  }
-                },
-                { new: true }
-              );
-              savedCount++;
-              console.log(`Successfully updated existing article with findOneAndUpdate: ${article.id}`);
-            }
-          } catch (updateError) {
-            console.error(`Error updating article ${article.id}:`, updateError);
-            // Try to create a new article as a fallback
-            try {
-              console.log(`Attempting to create new article as fallback for: ${article.id}`);
-              await ArticleModel.create({
-                articleId: article.id,
-                title: article.title,
-                content: article.content,
+      // The same article can appear twice in a batch (e.g. two Reddit posts linking to it)
+      if (seenKeys.has(key) || seenKeys.has(article.id)) {
+        result.unchanged++;
+        continue;
+      }
+      
+      seenKeys.add(key);
+      seenKeys.add(article.id);
+      entries.push({ article, canonicalUrl });
+    }
+
+    for (let start = 0; start < entries.length; start += BULK_WRITE_BATCH_SIZE) {
+      const batch = entries.slice(start, start + BULK_WRITE_BATCH_SIZE);
+      
+      try {
+        await this.storeBatch(batch, result);
+      } catch (error) {
+        console.error('Error storing articles:', error);
+        result.failed += batch.length;
+        result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    
+    console.log(`Stored ${articles.length} articles: ${result.inserted} inserted, ${result.updated} updated, ` +
+      `${result.unchanged} unchanged, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Write one batch of articles with a single bulkWrite
+   * @param batch Articles with their canonical URL
+   * @param result Result the batch counts are added to
+   */
+  private async storeBatch(batch: { article: Article; canonicalUrl?: string }[], result: StoreArticlesResult): Promise<void> {
+    // Load the stored copies of the whole batch in one query
+    const ids = batch.map(({ article }) => article.id);
+    const canonicalUrls = batch.map(({ canonicalUrl }) => canonicalUrl).filter((url): url is string => !!url);
+    const sourceUrls = batch.map(({ article }) => article.sourceUrl).filter((url): url is string => !!url);
+    
+    const existingDocs = await ArticleModel.find({
+      $or: [
+        { articleId: { $in: ids } },
+        { canonicalUrl: { $in: canonicalUrls } },
+        { sourceUrl: { $in: sourceUrls } }
+      ]
+    }).lean<ArticleRecord[]>();
+    
+    const operations: AnyBulkWriteOperation<ArticleDocument>[] = [];
+    // Revisions of updated articles, keyed by the index of their operation
+    const revisions = new Map<number, ArticleRevision>();
+    const now = new Date();
+    
+    for (const { article, canonicalUrl } of batch) {
+      const existing = existingDocs.find(doc => doc.articleId === article.id || (doc.aliasIds || []).includes(article.id)) ||
+        (canonicalUrl && existingDocs.find(doc => doc.canonicalUrl === canonicalUrl)) ||
+        (article.sourceUrl && existingDocs.find(doc => doc.sourceUrl === article.sourceUrl));
+      const fields = this.toUpdateFields(article, canonicalUrl);
+      
+      if (!existing) {
+        // Upsert rather than insert, so an article stored meanwhile by another instance is left alone
+        operations.push({
+          updateOne: {
+            filter: { articleId: article.id },
+            update: {
+              $setOnInsert: {
+                ...fields,
+                articleId: article.id, // Map id to articleId for MongoDB
                 source: article.source,
                 sourceUrl: article.sourceUrl,
                 author: article.author,
                 publishedAt: article.publishedAt,
-                location: article.location,
-                tags: article.tags,
-                mass: article.mass,
-                fetchedAt: new Date()
-              });
-              savedCount++;
-              console.log(`Successfully created new article as fallback: ${article.id}`);
-            } catch (createError) {
-              console.error(`Error creating fallback article ${article.id}:`, createError);
-            }
+                fetchedAt: now
+              }
+            },
+            upsert: true
           }
-        } else {
-          // Debug log for new article
-          console.log(`Creating new article: ${article.id} - ${article.title.substring(0, 30)}...`);
-          
-          // Create new article document using create method
-          await ArticleModel.create({
-            articleId: article.id, // Map id to articleId for MongoDB
-            title: article.title,
-            content: article.content,
-            source: article.source,
-            sourceUrl: article.sourceUrl,
-            author: article.author,
-            publishedAt: article.publishedAt,
-            location: article.location,
-            tags: article.tags,
-            mass: article.mass,
-            fetchedAt: new Date()
+        });
+        continue;
+      }
+      
+      if (existing.articleId !== article.id) {
+        // The first source to store an article keeps its row, e.g. a Reddit post linking to a
+        // NewsAPI article; the other copy only adds its tags and its ID as an alias
+        const newTags = (article.tags || []).filter(tag => !(existing.tags || []).includes(tag));
+        const isNewAlias = !(existing.aliasIds || []).includes(article.id);
+        
+        if (newTags.length > 0 || isNewAlias) {
+          operations.push({
+            updateOne: {
+              filter: { _id: existing._id },
+              update: {
+                $addToSet: { tags: { $each: newTags }, aliasIds: article.id },
+                $set: { fetchedAt: now }
+              }
+            }
           });
-          
-          savedCount++;
-          console.log(`Successfully created new article: ${article.id}`);
+        } else {
+          result.unchanged++;
         }
+        continue;
       }
       
-      console.log(`Stored ${savedCount} articles successfully (skipped ${duplicateCount} recent duplicates)`);
-      return savedCount;
+      // Tags added by other sources' copies are kept rather than replaced by this source's tags
+      if (fields.tags && existing.tags) {
+        fields.tags = this.mergeTags(existing.tags, fields.tags as string[]);
+      }
+      
+      if (this.hasChanges(existing, fields)) {
+        const revision = articleRevisionService.buildRevision(existing, article.id, fields);
+        if (revision) {
+          revisions.set(operations.length, revision);
+        }
+        
+        operations.push({
+          updateOne: {
+            filter: { _id: existing._id },
+            update: { $set: { ...fields, fetchedAt: now } }
+          }
+        });
+      } else {
+        result.unchanged++;
+      }
+    }
+    
+    if (operations.length === 0) {
+      return;
+    }
+    
+    const failedIndexes = new Set<number>();
+    
+    try {
+      const writeResult = await ArticleModel.bulkWrite(operations, { ordered: false });
+      this.addWriteCounts(writeResult, 0, result);
     } catch (error) {
-      console.error('Error storing articles:', error);
-      return 0;
+      // With ordered: false the other writes still go through, and the error carries their counts
+      const bulkError = error as { result?: mongo.BulkWriteResult; writeErrors?: WriteErrorInfo | WriteErrorInfo[] };
+      if (!bulkError.result) {
+        throw error;
+      }
+      
+      const writeErrors = ([] as WriteErrorInfo[]).concat(bulkError.writeErrors || []);
+      this.addWriteCounts(bulkError.result, writeErrors.length, result);
+      result.errors.push(...writeErrors.map(writeError => writeError.errmsg || writeError.message || 'Unknown write error'));
+      writeErrors.forEach(writeError => writeError.index !== undefined && failedIndexes.add(writeError.index));
+      console.error(`Failed to write ${writeErrors.length} of ${operations.length} articles`);
     }
+    
+    // Keep the previous fields of every article whose update went through
+    await articleRevisionService.recordRevisions(
+      Array.from(revisions.entries())
+        .filter(([index]) => !failedIndexes.has(index))
+        .map(([, revision]) => revision)
+    );
+  }
+
+  /**
+   * Add the counts of a bulkWrite result to the batch result
+   * Upserts that matched an existing article had nothing to insert and count as unchanged
+   * @param writeResult Result reported by MongoDB
+   * @param failed Number of failed writes
+   * @param result Result the counts are added to
+   */
+  private addWriteCounts(writeResult: mongo.BulkWriteResult, failed: number, result: StoreArticlesResult): void {
+    const upserted = writeResult.upsertedCount || 0;
+    const matched = writeResult.matchedCount || 0;
+    const modified = writeResult.modifiedCount || 0;
+    
+    result.inserted += upserted;
+    result.updated += modified;
+    result.unchanged += matched - modified;
+    result.failed += failed;
+  }
+
+  /**
+   * Build the fields that are written for an article, leaving out undefined values
+   * @param article Article to store
+   * @param canonicalUrl Canonical form of the article URL
+   * @returns Fields to set
+   */
+  private toUpdateFields(article: Article, canonicalUrl?: string): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      title: article.title,
+      content: article.content,
+      summary: article.summary,
+      canonicalUrl,
+      imageUrl: article.imageUrl,
+      imageWidth: article.imageWidth,
+      imageHeight: article.imageHeight,
+      location: article.location,
+      tags: article.tags,
+      topics: article.topics,
+      entities: article.entities,
+      mass: article.mass,
+      storyId: article.storyId
+    };
+    
+    Object.keys(fields).forEach(key => fields[key] === undefined && delete fields[key]);
+    return fields;
+  }
+
+  /**
+   * Add incoming tags to the stored ones, keeping the stored order so unchanged tags compare equal
+   * @param storedTags Tags of the stored article
+   * @param tags Tags of the incoming article
+   * @returns Stored tags followed by the incoming tags not stored yet
+   */
+  private mergeTags(storedTags: string[], tags: string[]): string[] {
+    return [...storedTags, ...tags.filter(tag => !storedTags.includes(tag))];
+  }
+
+  /**
+   * Check whether any field differs from the stored article
+   * @param existing Stored article
+   * @param fields Fields to set
+   * @returns True if at least one field changed
+   */
+  private hasChanges(existing: Record<string, unknown>, fields: Record<string, unknown>): boolean {
+    return Object.keys(fields).some(key => JSON.stringify(existing[key]) !== JSON.stringify(fields[key]));
   }
 
   /**
@@ -152,6 +290,9 @@ export class ArticleStore {
     limit?: number;
     daysBack?: number;
     articleId?: string; // Added articleId parameter
+    groupByStory?: boolean; // Return one representative article per story
+    tags?: string[]; // Only articles with at least one of these tags
+    entity?: string; // Only articles mentioning this person or organization (case-insensitive)
   } = {}): Promise<Article[]> {
     if (!mongoManager.isConnected()) {
       console.warn('MongoDB not connected, returning empty results');
@@ -162,9 +303,11 @@ export class ArticleStore {
       const { source, location, limit = 100, daysBack = 7 } = options;
       
       // Build query
-      const query: any = {};
+      const query: FilterQuery<ArticleDocument> = {};
       
       if (source) query.source = source;
+      if (options.tags && options.tags.length > 0) query.tags = { $in: options.tags };
+      if (options.entity) query['entities.name'] = new RegExp(`^${escapeRegExp(options.entity)}$`, 'i');
       
       // Handle location query - could be string or object with zipCode
       if (location) {
@@ -179,7 +322,10 @@ export class ArticleStore {
       }
       
       // Tier is no longer stored in the database, so we don't query by it
-      if (options.articleId) query.articleId = options.articleId; // Added articleId to query
+      if (options.articleId) {
+        // Articles stored by another source are found by their alias too
+        query.$and = [{ $or: [{ articleId: options.articleId }, { aliasIds: options.articleId }] }];
+      }
       
       // Filter by date range if specified
       if (daysBack > 0) {
@@ -191,6 +337,10 @@ export class ArticleStore {
         };
       }
       
+      if (options.groupByStory) {
+        return await this.getStoryRepresentatives(query, limit);
+      }
+      
       // Execute query
       const storedArticles = await ArticleModel.find(query)
         .sort({ fetchedAt: -1 })
@@ -198,24 +348,7 @@ export class ArticleStore {
         .lean();
       
       // Map MongoDB documents back to Article interface
-      const articles = storedArticles.map(doc => {
-        // Cast the document to any to access the articleId field
-        const docAny = doc as any;
-        
-        return {
-          id: docAny.articleId, // Map articleId back to id
-          title: docAny.title,
-          content: docAny.content,
-          source: docAny.source,
-          sourceUrl: docAny.sourceUrl,
-          author: docAny.author,
-          publishedAt: docAny.publishedAt,
-          location: docAny.location, // This could be string or ArticleLocation object
-          tags: docAny.tags,
-          mass: docAny.mass
-          // tier removed - will be calculated dynamically, not stored
-        };
-      });
+      const articles = storedArticles.map(doc => toArticle(doc));
       
       console.log(`Retrieved ${articles.length} articles from database`);
       return articles;
@@ -241,7 +374,7 @@ export class ArticleStore {
       today.setHours(0, 0, 0, 0);
       
       // Build query
-      const query: any = {
+      const query: FilterQuery<ArticleDocument> = {
         fetchedAt: { $gte: today },
         source
       };
@@ -267,6 +400,39 @@ export class ArticleStore {
     });
   }
 
+  /**
+   * Retrieve one representative article per story
+   * The representative is the story's article with the highest mass, and stories are
+   * ordered by their most recently fetched article. Articles without a story stand alone
+   * @param query Filter applied to articles before grouping
+   * @param limit Maximum number of stories to return
+   * @returns Array of representative articles with their story member count
+   */
+  private async getStoryRepresentatives(query: FilterQuery<ArticleDocument>, limit: number): Promise<Article[]> {
+    const stories = await ArticleModel.aggregate<{ article: ArticleRecord; memberCount: number }>([
+      { $match: query },
+      { $sort: { mass: -1 } },
+      {
+        $group: {
+          _id: { $ifNull: ['$storyId', '$articleId'] },
+          article: { $first: '$$ROOT' },
+          memberCount: { $sum: 1 },
+          fetchedAt: { $max: '$fetchedAt' }
+        }
+      },
+      { $sort: { fetchedAt: -1 } },
+      { $limit: limit }
+    ]);
+    
+    const articles = stories.map(story => ({
+      ...toArticle(story.article),
+      storyMemberCount: story.memberCount
+    }));
+    
+    console.log(`Retrieved ${articles.length} stories from database`);
+    return articles;
+  }
+
   // markArticleAsRead method removed as we no longer track read status
 }
 
@@ -0,0 +1,182 @@
+import * as dotenv from 'dotenv';
+import ContentCacheModel from '../models/ContentCacheSchema';
+import mongoManager from '../database/MongoManager';
+import { ContentCacheEntry } from '../types/models/contentCache.type';
+import { PageImage } from '../types/services/contentExtraction.type';
+import { canonicalizeUrl } from '../utils/urlCanonicalizer';
+
+dotenv.config();
+
+// Entries kept in memory when MongoDB is not connected
+const MAX_MEMORY_ENTRIES = 500;
+
+/**
+ * Cache of the text extracted from fetched article pages
+ * Entries are keyed by canonical URL, so the same story linked with tracking
+ * parameters is only downloaded once. Within the TTL the cached text is used
+ * without contacting the publisher; after it, the page is revalidated with a
+ * conditional request using the stored ETag and Last-Modified headers
+ */
+export class ContentCacheService {
+  private _ttlMs: number;
+  private _memoryCache: Map<string, ContentCacheEntry> = new Map();
+
+  /**
+   * @param ttlHours Hours a page is used without revalidation (defaults to CONTENT_CACHE_TTL_HOURS or 6)
+   */
+  constructor(ttlHours?: number) {
+    this._ttlMs = (ttlHours || this.readNumber('CONTENT_CACHE_TTL_HOURS', 6)) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Get the cached content of a page
+   * @param url Page URL
+   * @returns Cached entry, fresh or not, or null if the page has not been fetched
+   */
+  async get(url: string): Promise<ContentCacheEntry | null> {
+    const key = this.getKey(url);
+
+    if (!mongoManager.isConnected()) {
+      return this._memoryCache.get(key) || null;
+    }
+
+    try {
+      const doc = await ContentCacheModel.findOne({ url: key }).lean();
+      return doc ? this.toEntry(doc) : null;
+    } catch (error) {
+      console.error(`Error reading content cache for ${key}:`, error);
+      return this._memoryCache.get(key) || null;
+    }
+  }
+
+  /**
+   * Check whether a cached page can be used without revalidation
+   * @param entry Cached entry
+   * @param now Time to check against
+   * @returns True until the entry expires
+   */
+  isFresh(entry: ContentCacheEntry, now: Date = new Date()): boolean {
+    return new Date(entry.expiresAt).getTime() > now.getTime();
+  }
+
+  /**
+   * Build the headers of a conditional request for a cached page
+   * @param entry Cached entry
+   * @returns If-None-Match and If-Modified-Since headers for the validators the publisher sent
+   */
+  getConditionalHeaders(entry: ContentCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Cache the content of a downloaded page
+   * @param url Page URL
+   * @param page Extracted text, lead image and the page's validators
+   * @returns Cached entry
+   */
+  async store(url: string, page: { text: string; image?: PageImage; etag?: string; lastModified?: string }): Promise<ContentCacheEntry> {
+    const now = new Date();
+    const entry: ContentCacheEntry = {
+      url: this.getKey(url),
+      text: page.text,
+      image: page.image,
+      etag: page.etag,
+      lastModified: page.lastModified,
+      fetchedAt: now,
+      checkedAt: now,
+      expiresAt: new Date(now.getTime() + this._ttlMs)
+    };
+
+    await this.save(entry);
+    return entry;
+  }
+
+  /**
+   * Extend a cached page the publisher confirmed is unchanged (304 Not Modified)
+   * @param entry Cached entry
+   * @param validators Validators sent with the 304 response, which may replace the stored ones
+   * @returns Updated entry
+   */
+  async revalidate(entry: ContentCacheEntry, validators: { etag?: string; lastModified?: string } = {}): Promise<ContentCacheEntry> {
+    const now = new Date();
+    const updated: ContentCacheEntry = {
+      ...entry,
+      etag: validators.etag || entry.etag,
+      lastModified: validators.lastModified || entry.lastModified,
+      checkedAt: now,
+      expiresAt: new Date(now.getTime() + this._ttlMs)
+    };
+
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Get the cache key of a page
+   * @param url Page URL
+   * @returns Canonical URL, or the URL as given if it cannot be parsed
+   */
+  private getKey(url: string): string {
+    return canonicalizeUrl(url) || url;
+  }
+
+  /**
+   * Save an entry to MongoDB, or to memory when MongoDB is not available
+   * @param entry Entry to save
+   */
+  private async save(entry: ContentCacheEntry): Promise<void> {
+    if (mongoManager.isConnected()) {
+      try {
+        await ContentCacheModel.updateOne({ url: entry.url }, { $set: entry }, { upsert: true });
+        return;
+      } catch (error) {
+        console.error(`Error saving content cache for ${entry.url}:`, error);
+      }
+    }
+
+    // Oldest entries are dropped first, since Map keeps insertion order
+    this._memoryCache.delete(entry.url);
+    this._memoryCache.set(entry.url, entry);
+    if (this._memoryCache.size > MAX_MEMORY_ENTRIES) {
+      this._memoryCache.delete(this._memoryCache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Convert a stored document to a cache entry
+   * @param doc Lean document
+   * @returns Cache entry
+   */
+  private toEntry(doc: ContentCacheEntry): ContentCacheEntry {
+    return {
+      url: doc.url,
+      text: doc.text || '',
+      image: doc.image && doc.image.url ? doc.image : undefined,
+      etag: doc.etag || undefined,
+      lastModified: doc.lastModified || undefined,
+      fetchedAt: new Date(doc.fetchedAt),
+      checkedAt: new Date(doc.checkedAt),
+      expiresAt: new Date(doc.expiresAt)
+    };
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+  }
+}
+
+export default new ContentCacheService();
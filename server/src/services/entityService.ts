@@ -0,0 +1,147 @@
+import * as dotenv from 'dotenv';
+import { FilterQuery } from 'mongoose';
+import ArticleModel, { ArticleDocument, ArticleRecord } from '../models/ArticleSchema';
+import mongoManager from '../database/MongoManager';
+import { GeocodingService } from './geocodingService';
+import { ArticleEntity, ArticleLocation, EntityType } from '../types/models/article.type';
+import { Coordinates } from '../types/services/geocoding.type';
+import { TopEntitiesResult, TopEntity } from '../types/services/entity.type';
+
+dotenv.config();
+
+// Kilometers per degree of latitude
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Service for the people and organizations mentioned in stored articles
+ * Counts which entities are trending, across all articles or only those
+ * located near a reader's ZIP code
+ */
+export class EntityService {
+  private _geocodingService: GeocodingService;
+  private _areaRadiusKm: number;
+  private _scanLimit: number;
+
+  /**
+   * @param geocodingService Optional geocoding service (defaults to a new GeocodingService)
+   * @param areaRadiusKm Radius of a reader's area (defaults to ENTITY_AREA_RADIUS_KM or 50, the close tier)
+   * @param scanLimit Maximum number of recent articles counted (defaults to ENTITY_SCAN_LIMIT or 2000)
+   */
+  constructor(geocodingService?: GeocodingService, areaRadiusKm?: number, scanLimit?: number) {
+    this._geocodingService = geocodingService || new GeocodingService();
+    this._areaRadiusKm = areaRadiusKm || this.readNumber('ENTITY_AREA_RADIUS_KM', 50);
+    this._scanLimit = scanLimit || this.readNumber('ENTITY_SCAN_LIMIT', 2000);
+  }
+
+  /**
+   * Get the entities mentioned in the most recent articles
+   * @param options ZIP code of the reader's area, entity type, days to look back and number of entities
+   * @returns Entities mentioned in the most articles, or null if the ZIP code could not be located
+   */
+  async getTopEntities(options: {
+    zipCode?: string;
+    type?: EntityType;
+    daysBack?: number;
+    limit?: number;
+  } = {}): Promise<TopEntitiesResult | null> {
+    const { zipCode, type, daysBack = 7 } = options;
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    let center: Coordinates | null = null;
+    if (zipCode) {
+      center = await this._geocodingService.geocodeZipCode(zipCode);
+      if (!center) {
+        return null;
+      }
+    }
+
+    const result: TopEntitiesResult = {
+      ...(center ? { zipCode, radiusKm: this._areaRadiusKm } : {}),
+      articleCount: 0,
+      entities: []
+    };
+
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, returning no entities');
+      return result;
+    }
+
+    const query: FilterQuery<ArticleDocument> = { 'entities.0': { $exists: true } };
+    if (daysBack > 0) {
+      query.publishedAt = { $gte: new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString() };
+    }
+    if (center) {
+      Object.assign(query, this.boundingBoxQuery(center));
+    }
+
+    const docs = await ArticleModel.find(query, { entities: 1, location: 1 })
+      .sort({ publishedAt: -1 })
+      .limit(this._scanLimit)
+      .lean<Pick<ArticleRecord, 'entities' | 'location'>[]>();
+
+    // The bounding box is a square, so drop the articles in its corners
+    // (it only matches structured locations, so each has coordinates)
+    const articles = center
+      ? docs.filter(doc => this._geocodingService.calculateDistance(center as Coordinates, doc.location as ArticleLocation) / 1000 <= this._areaRadiusKm)
+      : docs;
+
+    result.articleCount = articles.length;
+    result.entities = this.countEntities(articles.map(doc => doc.entities || []), type).slice(0, limit);
+    return result;
+  }
+
+  /**
+   * Count the articles and mentions of each entity
+   * @param articleEntities Entities of each article
+   * @param type Only count entities of this type
+   * @returns Entities mentioned in the most articles first, then the most mentioned
+   */
+  private countEntities(articleEntities: ArticleEntity[][], type?: EntityType): TopEntity[] {
+    const totals = new Map<string, TopEntity>();
+
+    for (const entities of articleEntities) {
+      for (const entity of entities) {
+        if (type && entity.type !== type) {
+          continue;
+        }
+
+        const key = `${entity.type}:${entity.name.toLowerCase()}`;
+        const total = totals.get(key) || { name: entity.name, type: entity.type, articles: 0, mentions: 0 };
+        total.articles++;
+        total.mentions += entity.count || 1;
+        totals.set(key, total);
+      }
+    }
+
+    return Array.from(totals.values())
+      .sort((a, b) => b.articles - a.articles || b.mentions - a.mentions);
+  }
+
+  /**
+   * Build a query for articles located within a square around a point
+   * @param center Center of the area
+   * @returns Latitude and longitude range conditions
+   */
+  private boundingBoxQuery(center: Coordinates): Record<string, unknown> {
+    const latDelta = this._areaRadiusKm / KM_PER_DEGREE;
+    const lngDelta = this._areaRadiusKm / (KM_PER_DEGREE * Math.max(0.01, Math.cos(center.latitude * Math.PI / 180)));
+
+    return {
+      'location.latitude': { $gte: center.latitude - latDelta, $lte: center.latitude + latDelta },
+      'location.longitude': { $gte: center.longitude - lngDelta, $lte: center.longitude + lngDelta }
+    };
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+  }
+}
+
+export default new EntityService();
@@ -0,0 +1,269 @@
+import * as dotenv from 'dotenv';
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import { XMLParser } from 'fast-xml-parser';
+import { Article } from '../types/models/article.type';
+import {
+  AtomEntryNode,
+  FeedDocumentNode,
+  FeedItem,
+  ParsedFeed,
+  RssItemNode,
+  XmlTextNode
+} from '../types/services/feed.type';
+import { LocationService } from './locationService';
+import { GeocodingService } from './geocodingService';
+import { geocodeArticleLocation } from '../utils/locationUtils';
+import { canonicalizeUrl } from '../utils/urlCanonicalizer';
+import massScorer from './massScorer';
+
+/**
+ * Service for fetching articles from RSS 2.0 and Atom feeds
+ * Used for local papers and city blogs that only publish feeds
+ */
+export class FeedService {
+  private _feedUrls: string[];
+  private _userAgent: string = 'OrbitalNews/1.0';
+  private _parser: XMLParser;
+  private _locationService: LocationService;
+  private _geocodingService: GeocodingService;
+
+  /**
+   * @param feedUrls Feed URLs to ingest (defaults to the comma-separated RSS_FEED_URLS environment variable)
+   */
+  constructor(feedUrls?: string[]) {
+    dotenv.config();
+    this._feedUrls = feedUrls || (process.env.RSS_FEED_URLS || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(url => url.length > 0);
+    this._parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      isArray: (name: string): boolean => ['item', 'entry', 'category', 'link'].includes(name)
+    });
+    this._locationService = new LocationService();
+    this._geocodingService = new GeocodingService();
+  }
+
+  /**
+   * Get the configured feed URLs
+   * @returns Array of feed URLs
+   */
+  getFeedUrls(): string[] {
+    return [...this._feedUrls];
+  }
+
+  /**
+   * Fetch articles from all configured feeds
+   * A failing feed is logged and skipped so it does not block the others
+   * @param limit Maximum number of articles to return per feed (default: 50)
+   * @returns Promise with array of articles
+   */
+  async fetchArticles(limit: number = 50): Promise<Article[]> {
+    if (this._feedUrls.length === 0) {
+      console.warn('No RSS/Atom feed URLs configured');
+      return [];
+    }
+
+    const results = await Promise.all(this._feedUrls.map(async (url) => {
+      try {
+        const feed = await this.fetchFeed(url);
+        const items = feed.items.slice(0, limit);
+        return await Promise.all(items.map(item => this.transformFeedItem(item, feed.title)));
+      } catch (error) {
+        console.warn(`Failed to fetch or process feed ${url}:`, error);
+        return [];
+      }
+    }));
+
+    const articles = results.flat();
+    console.info(`Fetched ${articles.length} articles from ${this._feedUrls.length} feeds`);
+    return articles;
+  }
+
+  /**
+   * Fetch and parse a single feed
+   * @param url Feed URL
+   * @returns Parsed feed
+   */
+  async fetchFeed(url: string): Promise<ParsedFeed> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': this._userAgent,
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8'
+      },
+      timeout: 10000 // 10 second timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed error: ${response.status} ${response.statusText}`);
+    }
+
+    return this.parseFeed(await response.text());
+  }
+
+  /**
+   * Parse an RSS 2.0 or Atom document
+   * @param xml Feed document
+   * @returns Parsed feed
+   */
+  parseFeed(xml: string): ParsedFeed {
+    const doc: FeedDocumentNode = this._parser.parse(xml);
+
+    if (doc.rss && doc.rss.channel) {
+      const channel = doc.rss.channel;
+      return {
+        format: 'rss',
+        title: this.getText(channel.title),
+        items: (channel.item || []).map(item => this.normalizeRssItem(item))
+      };
+    }
+
+    if (doc.feed) {
+      return {
+        format: 'atom',
+        title: this.getText(doc.feed.title),
+        items: (doc.feed.entry || []).map(entry => this.normalizeAtomEntry(entry))
+      };
+    }
+
+    throw new Error('Unsupported feed format: expected an RSS 2.0 or Atom document');
+  }
+
+  /**
+   * Normalize an RSS 2.0 <item>
+   * @param item Parsed item element
+   * @returns Feed item
+   */
+  private normalizeRssItem(item: RssItemNode): FeedItem {
+    const link = this.getText(item.link?.[0]);
+
+    return {
+      guid: this.getText(item.guid) || link,
+      title: this.getText(item.title),
+      link,
+      content: this.stripHtml(this.getText(item['content:encoded']) || this.getText(item.description)),
+      author: this.getText(item['dc:creator']) || this.getText(item.author) || undefined,
+      publishedAt: this.toISODate(this.getText(item.pubDate) || this.getText(item['dc:date'])),
+      categories: (item.category || []).map(category => this.getText(category)).filter(Boolean)
+    };
+  }
+
+  /**
+   * Normalize an Atom <entry>
+   * @param entry Parsed entry element
+   * @returns Feed item
+   */
+  private normalizeAtomEntry(entry: AtomEntryNode): FeedItem {
+    // Prefer the alternate link, which is the default when rel is omitted
+    const links = entry.link || [];
+    const alternate = links.find(link => !link['@_rel'] || link['@_rel'] === 'alternate') || links[0];
+    const link = alternate ? alternate['@_href'] || '' : '';
+    const author = Array.isArray(entry.author) ? entry.author[0] : entry.author;
+
+    return {
+      guid: this.getText(entry.id) || link,
+      title: this.getText(entry.title),
+      link,
+      content: this.stripHtml(this.getText(entry.content) || this.getText(entry.summary)),
+      author: author ? this.getText(author.name) || undefined : undefined,
+      publishedAt: this.toISODate(this.getText(entry.published) || this.getText(entry.updated)),
+      categories: (entry.category || []).map(category => (typeof category === 'object' && '@_term' in category && category['@_term']) || this.getText(category)).filter(Boolean)
+    };
+  }
+
+  /**
+   * Transform a feed item into our Article format
+   * @param item Feed item
+   * @param feedTitle Title of the feed, used as a fallback author
+   * @returns Article object
+   */
+  private async transformFeedItem(item: FeedItem, feedTitle: string): Promise<Article> {
+    const articleId = `rss-${crypto.createHash('sha1').update(item.guid || item.link).digest('hex').substring(0, 24)}`;
+
+    const mass = massScorer.calculateMass({
+      source: 'rss',
+      publisher: feedTitle,
+      url: item.link,
+      title: item.title,
+      content: item.content,
+      publishedAt: item.publishedAt
+    });
+
+    const article: Article = {
+      id: articleId,
+      title: item.title,
+      content: item.content,
+      source: 'rss',
+      sourceUrl: item.link,
+      canonicalUrl: canonicalizeUrl(item.link),
+      author: item.author || feedTitle || undefined,
+      publishedAt: item.publishedAt,
+      location: '', // Filled in by geocodeArticleLocation when the item names a place
+      tags: item.categories,
+      mass
+    };
+
+    // Use the helper function to geocode the article location
+    // Only fetch the full page when the feed carries little content
+    const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
+    const geocodedArticle = await geocodeArticleLocation(article, this._locationService, this._geocodingService, {
+      fetchFullContent: item.content.length < 500,
+      minConfidence: 0.3,
+      isTestEnvironment,
+      defaultZipCode: '00000'
+    });
+
+    article.location = geocodedArticle.location;
+    return article;
+  }
+
+  /**
+   * Get the text of a parsed XML node, which may be a string, number or an element with attributes
+   * @param node Parsed node
+   * @returns Trimmed text content
+   */
+  private getText(node: XmlTextNode | undefined): string {
+    if (node === undefined || node === null) {
+      return '';
+    }
+    if (typeof node === 'object') {
+      return this.getText(node['#text']);
+    }
+    return String(node).trim();
+  }
+
+  /**
+   * Convert a feed date (RFC 822 or ISO 8601) into an ISO string
+   * @param value Date string from the feed
+   * @returns ISO date string (now if missing or invalid)
+   */
+  private toISODate(value: string): string {
+    const date = value ? new Date(value) : new Date();
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  }
+
+  /**
+   * Strip HTML tags and common entities from feed content
+   * @param html HTML content
+   * @returns Plain text content
+   */
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, ' ')
+      .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+export default FeedService;
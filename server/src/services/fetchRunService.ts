@@ -0,0 +1,87 @@
+import { FilterQuery } from 'mongoose';
+import FetchRunModel, { FetchRunDocument } from '../models/FetchRunSchema';
+import mongoManager from '../database/MongoManager';
+import { FetchRun, FetchRunPage } from '../types/models/fetchRun.type';
+
+/**
+ * Service for persisting and querying article fetch run history
+ */
+export class FetchRunService {
+  /**
+   * Persist a completed fetch run
+   * @param run The run to record
+   * @returns The recorded run, or null if it could not be stored
+   */
+  async recordRun(run: FetchRun): Promise<FetchRun | null> {
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, skipping fetch run history');
+      return null;
+    }
+
+    try {
+      await FetchRunModel.create(run);
+      return run;
+    } catch (error) {
+      console.error('Error recording fetch run:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a page of fetch runs, newest first
+   * @param options Pagination options and an optional source filter
+   * @returns Page of fetch runs
+   */
+  async getRuns(options: {
+    page?: number;
+    limit?: number;
+    source?: string;
+  } = {}): Promise<FetchRunPage> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const emptyPage: FetchRunPage = { runs: [], page, limit, total: 0, pages: 0 };
+
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, returning empty fetch run history');
+      return emptyPage;
+    }
+
+    try {
+      // Only return runs that included the requested source
+      const query: FilterQuery<FetchRunDocument> = {};
+      if (options.source) query['sources.source'] = options.source;
+
+      const [docs, total] = await Promise.all([
+        FetchRunModel.find(query)
+          .sort({ startedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean<FetchRun[]>(),
+        FetchRunModel.countDocuments(query)
+      ]);
+
+      // Strip MongoDB internals from the response
+      const runs = docs.map(doc => ({
+        startedAt: doc.startedAt,
+        finishedAt: doc.finishedAt,
+        durationMs: doc.durationMs,
+        status: doc.status,
+        sources: doc.sources || [],
+        errorMessages: doc.errorMessages || []
+      }));
+
+      return {
+        runs,
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      };
+    } catch (error) {
+      console.error('Error retrieving fetch runs:', error);
+      return emptyPage;
+    }
+  }
+}
+
+export default new FetchRunService();
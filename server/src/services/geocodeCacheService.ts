@@ -0,0 +1,274 @@
+import * as dotenv from 'dotenv';
+import { Document } from 'mongoose';
+import GeocodeCacheModel, { GeocodeCacheDocument } from '../models/GeocodeCacheSchema';
+import mongoManager from '../database/MongoManager';
+import { GeocodeCacheEntry, GeocodeCachePage, GeocodeCacheStats } from '../types/models/geocodeCache.type';
+import { GeocodedLocation } from '../types/services/geocoding.type';
+
+dotenv.config();
+
+// Entries kept in memory when MongoDB is not connected
+const MAX_MEMORY_ENTRIES = 1000;
+
+/**
+ * Escape a string for use as a literal in a regular expression
+ * @param value String to escape
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cache of OpenCage geocoding results
+ * Articles whose location is a place name are geocoded on every request that
+ * returns them, and the same ZIP codes are looked up by every visitor, so
+ * results are kept in the `geocode_cache` collection. Entries are keyed by the
+ * normalized query and the country the results were biased to. Places that
+ * OpenCage could not find are cached for a shorter time, in case the lookup
+ * only failed for a moment
+ */
+export class GeocodeCacheService {
+  private _ttlMs: number;
+  private _notFoundTtlMs: number;
+  private _memoryCache: Map<string, GeocodeCacheEntry> = new Map();
+
+  /**
+   * @param ttlDays Days a result is used (defaults to GEOCODE_CACHE_TTL_DAYS or 30)
+   * @param notFoundTtlHours Hours a place OpenCage could not find is remembered (defaults to GEOCODE_CACHE_NOT_FOUND_TTL_HOURS or 24)
+   */
+  constructor(ttlDays?: number, notFoundTtlHours?: number) {
+    this._ttlMs = (ttlDays || this.readNumber('GEOCODE_CACHE_TTL_DAYS', 30)) * 24 * 60 * 60 * 1000;
+    this._notFoundTtlMs = (notFoundTtlHours || this.readNumber('GEOCODE_CACHE_NOT_FOUND_TTL_HOURS', 24)) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Normalize a query so spelling variants share an entry
+   * @param query Place name or ZIP code
+   * @returns Trimmed, lowercased query with single spaces
+   */
+  normalizeQuery(query: string): string {
+    return (query || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Get the cached result of a query and count the hit
+   * @param query Place name or ZIP code
+   * @param countryCode Country the results are biased to, if any
+   * @returns Cached entry, or null if the query is not cached or has expired
+   */
+  async get(query: string, countryCode: string = ''): Promise<GeocodeCacheEntry | null> {
+    const key = { query: this.normalizeQuery(query), countryCode: countryCode.toLowerCase() };
+    const now = new Date();
+
+    if (mongoManager.isConnected()) {
+      try {
+        const doc = await GeocodeCacheModel.findOneAndUpdate(
+          { ...key, expiresAt: { $gt: now } },
+          { $inc: { hits: 1 }, $set: { lastHitAt: now } },
+          { new: true }
+        ).lean();
+        return doc ? this.toEntry(doc) : null;
+      } catch (error) {
+        console.error(`Error reading geocode cache for '${key.query}':`, error);
+      }
+    }
+
+    const memoryKey = this.getMemoryKey(key.query, key.countryCode);
+    const entry = this._memoryCache.get(memoryKey);
+    if (!entry || entry.expiresAt.getTime() <= now.getTime()) {
+      return null;
+    }
+
+    // Re-inserted so the most recently used entries are dropped last
+    const updated = { ...entry, hits: entry.hits + 1, lastHitAt: now };
+    this._memoryCache.delete(memoryKey);
+    this._memoryCache.set(memoryKey, updated);
+    return updated;
+  }
+
+  /**
+   * Cache the result of an OpenCage lookup and count the miss
+   * @param query Place name or ZIP code
+   * @param countryCode Country the results were biased to, if any
+   * @param result First OpenCage result, or null if OpenCage found nothing
+   */
+  async store(query: string, countryCode: string = '', result: GeocodedLocation | null): Promise<void> {
+    const key = { query: this.normalizeQuery(query), countryCode: countryCode.toLowerCase() };
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + (result ? this._ttlMs : this._notFoundTtlMs));
+
+    if (mongoManager.isConnected()) {
+      try {
+        await GeocodeCacheModel.updateOne(
+          key,
+          {
+            $set: { found: result !== null, fetchedAt: now, expiresAt, ...(result ? { result } : {}) },
+            ...(result ? {} : { $unset: { result: 1 } }),
+            $inc: { misses: 1 },
+            $setOnInsert: { hits: 0 }
+          },
+          { upsert: true }
+        );
+        return;
+      } catch (error) {
+        console.error(`Error saving geocode cache for '${key.query}':`, error);
+      }
+    }
+
+    const memoryKey = this.getMemoryKey(key.query, key.countryCode);
+    const existing = this._memoryCache.get(memoryKey);
+    this._memoryCache.delete(memoryKey);
+    this._memoryCache.set(memoryKey, {
+      ...key,
+      result,
+      hits: existing ? existing.hits : 0,
+      misses: (existing ? existing.misses : 0) + 1,
+      fetchedAt: now,
+      expiresAt,
+      lastHitAt: existing?.lastHitAt
+    });
+    if (this._memoryCache.size > MAX_MEMORY_ENTRIES) {
+      this._memoryCache.delete(this._memoryCache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * List cached queries, most used first
+   * @param options Query prefix to filter by, and page to return
+   * @returns Page of cache entries
+   */
+  async list(options: { query?: string; page?: number; limit?: number } = {}): Promise<GeocodeCachePage> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(200, Math.max(1, options.limit || 50));
+    const prefix = options.query ? this.normalizeQuery(options.query) : '';
+
+    if (!mongoManager.isConnected()) {
+      const matching = Array.from(this._memoryCache.values())
+        .filter(entry => entry.query.startsWith(prefix))
+        .sort((a, b) => b.hits - a.hits);
+      return {
+        entries: matching.slice((page - 1) * limit, page * limit),
+        page,
+        limit,
+        total: matching.length,
+        pages: Math.ceil(matching.length / limit)
+      };
+    }
+
+    const filter = prefix ? { query: { $regex: `^${escapeRegExp(prefix)}` } } : {};
+    const [docs, total] = await Promise.all([
+      GeocodeCacheModel.find(filter)
+        .sort({ hits: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      GeocodeCacheModel.countDocuments(filter)
+    ]);
+
+    return {
+      entries: docs.map(doc => this.toEntry(doc)),
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Get the hit and miss totals over every cached query
+   * @returns Cache statistics
+   */
+  async getStats(): Promise<GeocodeCacheStats> {
+    let totals = { entries: 0, hits: 0, misses: 0 };
+
+    if (mongoManager.isConnected()) {
+      const [result] = await GeocodeCacheModel.aggregate([
+        { $group: { _id: null, entries: { $sum: 1 }, hits: { $sum: '$hits' }, misses: { $sum: '$misses' } } }
+      ]);
+      if (result) {
+        totals = { entries: result.entries, hits: result.hits, misses: result.misses };
+      }
+    } else {
+      for (const entry of this._memoryCache.values()) {
+        totals.entries++;
+        totals.hits += entry.hits;
+        totals.misses += entry.misses;
+      }
+    }
+
+    const lookups = totals.hits + totals.misses;
+    return { ...totals, hitRate: lookups > 0 ? totals.hits / lookups : 0 };
+  }
+
+  /**
+   * Delete cached queries so they are looked up again
+   * @param options Query and country bias to delete (everything when no query is given), or only expired entries
+   * @returns Number of entries deleted
+   */
+  async purge(options: { query?: string; countryCode?: string; expiredOnly?: boolean } = {}): Promise<number> {
+    const filter: Record<string, unknown> = {};
+    if (options.query) filter.query = this.normalizeQuery(options.query);
+    if (options.countryCode !== undefined) filter.countryCode = options.countryCode.toLowerCase();
+    if (options.expiredOnly) filter.expiresAt = { $lte: new Date() };
+
+    if (mongoManager.isConnected()) {
+      const result = await GeocodeCacheModel.deleteMany(filter);
+      return result.deletedCount || 0;
+    }
+
+    let deleted = 0;
+    const now = Date.now();
+    for (const [memoryKey, entry] of this._memoryCache) {
+      if ((options.query && entry.query !== filter.query)
+        || (options.countryCode !== undefined && entry.countryCode !== filter.countryCode)
+        || (options.expiredOnly && entry.expiresAt.getTime() > now)) {
+        continue;
+      }
+      this._memoryCache.delete(memoryKey);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Get the key of an entry in the memory cache
+   * @param query Normalized query
+   * @param countryCode Lowercase country bias
+   * @returns Memory cache key
+   */
+  private getMemoryKey(query: string, countryCode: string): string {
+    return `${countryCode}|${query}`;
+  }
+
+  /**
+   * Convert a stored document to a cache entry
+   * @param doc Lean document
+   * @returns Cache entry
+   */
+  private toEntry(doc: Omit<GeocodeCacheDocument, keyof Document>): GeocodeCacheEntry {
+    return {
+      query: doc.query,
+      countryCode: doc.countryCode || '',
+      result: doc.found && doc.result ? doc.result : null,
+      hits: doc.hits || 0,
+      misses: doc.misses || 0,
+      fetchedAt: new Date(doc.fetchedAt),
+      expiresAt: new Date(doc.expiresAt),
+      lastHitAt: doc.lastHitAt ? new Date(doc.lastHitAt) : undefined
+    };
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+  }
+}
+
+export default new GeocodeCacheService();
@@ -12,9 +12,14 @@ import {
   GeocodedLocation, 
   DistanceResult, 
   GeocodingOptions,
+  OpenCageResponse,
+  OpenCageResult,
   TierThresholds
 } from '../types/services/geocoding.type';
 import { TierType } from '../types/models/article.type';
+import resilience from './resilienceService';
+import quotaService, { QuotaExceededError } from './quotaService';
+import geocodeCacheService, { GeocodeCacheService } from './geocodeCacheService';
 
 export class GeocodingService {
   private apiKey: string;
@@ -23,22 +28,26 @@ export class GeocodingService {
   private defaultUserZipCode: string = '00000'; // Default ZIP code
   private _userCoordinates: Coordinates | null = null;
   private _userZipCode: string | null = null;
+  private _geocodeCache: GeocodeCacheService;
 
   /**
    * Initialize the GeocodingService
    * @param options Geocoding options
    * @param tierThresholds Distance thresholds for tiers in kilometers
    * @param defaultUserLocation Default user location if not specified
+   * @param geocodeCache Optional cache of OpenCage results (defaults to the shared GeocodeCacheService)
    */
   constructor(
     options: GeocodingOptions = {}, 
     tierThresholds: TierThresholds = { close: 50, medium: 500 }, // 0-50 km (close), 50-500 km (medium), >500 km (far)
-    defaultUserLocation: Coordinates = { latitude: 35.4676, longitude: -97.5164 } // Oklahoma City (central US)
+    defaultUserLocation: Coordinates = { latitude: 35.4676, longitude: -97.5164 }, // Oklahoma City (central US)
+    geocodeCache?: GeocodeCacheService
   ) {
     // Initialize API key
     this.apiKey = options.apiKey || process.env.OPENCAGE_API_KEY || '';
     this.tierThresholds = tierThresholds;
     this.defaultUserLocation = defaultUserLocation;
+    this._geocodeCache = geocodeCache || geocodeCacheService;
   }
 
   /**
@@ -53,31 +62,7 @@ export class GeocodingService {
       }
 
       // Use OpenCage API to geocode the location
-      const response = await opencage.geocode({
-        q: locationName,
-        key: this.apiKey,
-        no_annotations: 1,
-        limit: 1
-      });
-
-      if (response && response.results && response.results.length > 0) {
-        const result = response.results[0];
-        const components = result.components;
-        
-        return {
-          coordinates: {
-            latitude: result.geometry.lat || 0,
-            longitude: result.geometry.lng || 0
-          },
-          zipCode: components.postcode || '',
-          city: components.city || components.town || components.village || '',
-          state: components.state || '',
-          country: components.country || '',
-          formattedAddress: result.formatted || ''
-        };
-      }
-      
-      return null;
+      return await this.lookup(locationName);
     } catch (error) {
       console.error('Error geocoding location with OpenCage:', error);
       return null;
@@ -198,54 +183,13 @@ export class GeocodingService {
   ): Promise<DistanceResult | null> {
     try {
       // Geocode both ZIP codes to get coordinates using OpenCage
-      const fromResponse = await opencage.geocode({
-        q: fromZipCode,
-        key: this.apiKey,
-        limit: 1,
-        countrycode: 'us'
-      });
+      const fromLocation = await this.lookup(fromZipCode, 'us');
+      const toLocation = await this.lookup(toZipCode, 'us');
       
-      const toResponse = await opencage.geocode({
-        q: toZipCode,
-        key: this.apiKey,
-        limit: 1,
-        countrycode: 'us'
-      });
-      
-      if (!fromResponse?.results?.length || !toResponse?.results?.length) {
+      if (!fromLocation || !toLocation) {
         return null;
       }
       
-      const fromResult = fromResponse.results[0];
-      const toResult = toResponse.results[0];
-      
-      const fromComponents = fromResult.components;
-      const toComponents = toResult.components;
-      
-      const fromLocation: GeocodedLocation = {
-        coordinates: {
-          latitude: fromResult.geometry.lat,
-          longitude: fromResult.geometry.lng
-        },
-        zipCode: fromComponents.postcode || '',
-        city: fromComponents.city || fromComponents.town || fromComponents.village || '',
-        state: fromComponents.state || '',
-        country: fromComponents.country || '',
-        formattedAddress: fromResult.formatted || ''
-      };
-      
-      const toLocation: GeocodedLocation = {
-        coordinates: {
-          latitude: toResult.geometry.lat,
-          longitude: toResult.geometry.lng
-        },
-        zipCode: toComponents.postcode || '',
-        city: toComponents.city || toComponents.town || toComponents.village || '',
-        state: toComponents.state || '',
-        country: toComponents.country || '',
-        formattedAddress: toResult.formatted || ''
-      };
-      
       const distanceInMeters = this.calculateDistance(
         fromLocation.coordinates,
         toLocation.coordinates
@@ -281,31 +225,19 @@ export class GeocodingService {
       this._userZipCode = zipCode;
       
       // Use OpenCage API to geocode the ZIP code
-      const response = await opencage.geocode({
-        q: zipCode,
-        key: this.apiKey,
-        limit: 1,
-        countrycode: 'us' // Prioritize US results
-      });
+      const location = await this.lookup(zipCode, 'us'); // Prioritize US results
       
-      if (response && response.results && response.results.length > 0) {
-        const result = response.results[0];
+      if (location && location.coordinates.latitude && location.coordinates.longitude) {
+        const coordinates = { ...location.coordinates };
         
-        if (result.geometry && result.geometry.lat && result.geometry.lng) {
-          const coordinates = {
-            latitude: result.geometry.lat,
-            longitude: result.geometry.lng
-          };
-          
-          // Update user coordinates
-          this._userCoordinates = coordinates;
-          this.defaultUserLocation = coordinates;
-          this.defaultUserZipCode = zipCode;
-          
-          console.log(`User location set to ${result.formatted} by ZIP code ${zipCode}`);
-          console.log(`User coordinates: ${JSON.stringify(coordinates)}`);
-          return true;
-        }
+        // Update user coordinates
+        this._userCoordinates = coordinates;
+        this.defaultUserLocation = coordinates;
+        this.defaultUserZipCode = zipCode;
+        
+        console.log(`User location set to ${location.formattedAddress} by ZIP code ${zipCode}`);
+        console.log(`User coordinates: ${JSON.stringify(coordinates)}`);
+        return true;
       }
       
       return false;
@@ -314,4 +246,98 @@ export class GeocodingService {
       return false;
     }
   }
+
+  /**
+   * Look up the coordinates of a ZIP code without changing the user's location
+   * @param zipCode ZIP code to look up
+   * @returns Coordinates, or null if the ZIP code could not be geocoded
+   */
+  async geocodeZipCode(zipCode: string): Promise<Coordinates | null> {
+    try {
+      const location = await this.lookup(zipCode, 'us');
+      if (location && location.coordinates.latitude && location.coordinates.longitude) {
+        return { ...location.coordinates };
+      }
+      
+      return null;
+    } catch (error) {
+      console.error(`Error geocoding ZIP code ${zipCode}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Geocode a query, answering from the geocode cache when possible
+   * Lookups the quota did not allow are not cached, so they are retried later
+   * @param query Place name or ZIP code
+   * @param countryCode Country to bias results to, if any
+   * @returns First OpenCage result, or null if OpenCage found nothing or could not be asked
+   */
+  private async lookup(query: string, countryCode: string = ''): Promise<GeocodedLocation | null> {
+    const cached = await this._geocodeCache.get(query, countryCode);
+    if (cached) {
+      return cached.result;
+    }
+
+    const response = await this.requestGeocode({
+      q: query,
+      key: this.apiKey,
+      no_annotations: 1,
+      limit: 1,
+      ...(countryCode ? { countrycode: countryCode } : {})
+    });
+    if (!response) {
+      return null;
+    }
+
+    const result = response.results && response.results.length > 0 ? response.results[0] : null;
+    const location = result ? this.toGeocodedLocation(result) : null;
+    await this._geocodeCache.store(query, countryCode, location);
+    return location;
+  }
+
+  /**
+   * Convert an OpenCage result to a geocoded location
+   * @param result OpenCage result
+   * @returns Coordinates and address details
+   */
+  private toGeocodedLocation(result: OpenCageResult): GeocodedLocation {
+    const components = result.components || {};
+    return {
+      coordinates: {
+        latitude: result.geometry?.lat || 0,
+        longitude: result.geometry?.lng || 0
+      },
+      zipCode: components.postcode || '',
+      city: components.city || components.town || components.village || '',
+      state: components.state || '',
+      country: components.country || '',
+      formattedAddress: result.formatted || ''
+    };
+  }
+
+  /**
+   * Send a request to OpenCage within the daily quota, with retries
+   * Each attempt consumes quota, since OpenCage counts every request it receives
+   * @param params OpenCage query parameters
+   * @returns OpenCage response, or null if the quota does not allow the request
+   */
+  private async requestGeocode(params: Parameters<typeof opencage.geocode>[0]): Promise<OpenCageResponse | null> {
+    try {
+      return await resilience.execute('opencage', async () => {
+        const quotaDecision = await quotaService.tryConsume('opencage');
+        if (quotaDecision !== 'allowed') {
+          // Not retried, and not counted against the circuit
+          throw new QuotaExceededError('opencage', quotaDecision);
+        }
+        return opencage.geocode(params);
+      });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        console.warn(`${error.message}, skipping geocode for '${params.q}'`);
+        return null;
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,168 @@
+import * as dotenv from 'dotenv';
+import os from 'os';
+import crypto from 'crypto';
+import FetchLeaseModel from '../models/FetchLeaseSchema';
+import mongoManager from '../database/MongoManager';
+import { FetchLeaseStatus } from '../types/models/fetchLease.type';
+
+dotenv.config();
+
+/**
+ * Service for per-source fetch leases shared by every server instance
+ * An instance must hold a source's lease to fetch it. Leases expire unless the
+ * owner keeps sending heartbeats, so a crashed instance cannot block a source
+ */
+export class LeaseService {
+  private _ownerId: string;
+  private _ttlMs: number;
+  private _heartbeats: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * @param ownerId Identifier of this instance (defaults to INSTANCE_ID, or the hostname and process id)
+   * @param ttlMs Lease lifetime without a heartbeat (defaults to FETCH_LEASE_TTL_MS, or 2 minutes)
+   */
+  constructor(ownerId?: string, ttlMs?: number) {
+    this._ownerId = ownerId || process.env.INSTANCE_ID ||
+      `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+    this._ttlMs = ttlMs || Number(process.env.FETCH_LEASE_TTL_MS) || 120000;
+  }
+
+  /**
+   * Get the identifier of this instance
+   * @returns Owner id used for leases
+   */
+  getOwnerId(): string {
+    return this._ownerId;
+  }
+
+  /**
+   * Try to acquire the lease for a source and keep it alive with heartbeats
+   * Without a MongoDB connection there is nothing to coordinate with, so the lease is always granted
+   * @param source Source (provider id)
+   * @returns True if this instance now holds the lease
+   */
+  async acquire(source: string): Promise<boolean> {
+    if (!mongoManager.isConnected()) {
+      return true;
+    }
+
+    const now = new Date();
+
+    try {
+      // Take the lease if it is free, expired or already ours
+      await FetchLeaseModel.findOneAndUpdate(
+        { source, $or: [{ expiresAt: { $lte: now } }, { ownerId: this._ownerId }] },
+        { $set: { ownerId: this._ownerId, acquiredAt: now, heartbeatAt: now, expiresAt: new Date(now.getTime() + this._ttlMs) } },
+        { upsert: true, new: true }
+      ).lean();
+    } catch (error) {
+      // The upsert hits the unique index when another instance holds an active lease
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+
+      console.error(`Error acquiring fetch lease for ${source}:`, error);
+      return false;
+    }
+
+    this.startHeartbeat(source);
+    return true;
+  }
+
+  /**
+   * Release the lease for a source if this instance holds it
+   * @param source Source (provider id)
+   */
+  async release(source: string): Promise<void> {
+    this.stopHeartbeat(source);
+
+    if (!mongoManager.isConnected()) {
+      return;
+    }
+
+    try {
+      await FetchLeaseModel.deleteOne({ source, ownerId: this._ownerId });
+    } catch (error) {
+      console.error(`Error releasing fetch lease for ${source}:`, error);
+    }
+  }
+
+  /**
+   * Get every known lease, including expired ones
+   * @returns Array of lease statuses
+   */
+  async getLeases(): Promise<FetchLeaseStatus[]> {
+    if (!mongoManager.isConnected()) {
+      return [];
+    }
+
+    try {
+      const now = Date.now();
+      const leases = await FetchLeaseModel.find({}).sort({ source: 1 }).lean();
+
+      return leases.map(lease => ({
+        source: lease.source,
+        ownerId: lease.ownerId,
+        isOwner: lease.ownerId === this._ownerId,
+        isActive: new Date(lease.expiresAt).getTime() > now,
+        acquiredAt: new Date(lease.acquiredAt).toISOString(),
+        heartbeatAt: new Date(lease.heartbeatAt).toISOString(),
+        expiresAt: new Date(lease.expiresAt).toISOString()
+      }));
+    } catch (error) {
+      console.error('Error getting fetch leases:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Extend a held lease every third of its lifetime
+   * @param source Source (provider id)
+   */
+  private startHeartbeat(source: string): void {
+    this.stopHeartbeat(source);
+
+    const timer = setInterval(() => {
+      this.heartbeat(source);
+    }, Math.max(1000, Math.floor(this._ttlMs / 3)));
+
+    // Heartbeats should not keep the process alive on shutdown
+    timer.unref();
+    this._heartbeats.set(source, timer);
+  }
+
+  /**
+   * Stop extending a lease
+   * @param source Source (provider id)
+   */
+  private stopHeartbeat(source: string): void {
+    const timer = this._heartbeats.get(source);
+    if (timer) {
+      clearInterval(timer);
+      this._heartbeats.delete(source);
+    }
+  }
+
+  /**
+   * Extend the lease for a source, stopping the heartbeat if another instance has taken it over
+   * @param source Source (provider id)
+   */
+  private async heartbeat(source: string): Promise<void> {
+    try {
+      const now = new Date();
+      const result = await FetchLeaseModel.updateOne(
+        { source, ownerId: this._ownerId },
+        { $set: { heartbeatAt: now, expiresAt: new Date(now.getTime() + this._ttlMs) } }
+      );
+
+      if (result.matchedCount === 0) {
+        console.warn(`Lost the fetch lease for ${source} to another instance`);
+        this.stopHeartbeat(source);
+      }
+    } catch (error) {
+      console.error(`Error extending fetch lease for ${source}:`, error);
+    }
+  }
+}
+
+export default new LeaseService();
@@ -1,14 +1,22 @@
 import nlp from 'compromise';
 import fetch from 'node-fetch';
-import { Article } from '../types/models/article.type';
+import { Article, ArticleEntity, EntityType } from '../types/models/article.type';
 import { 
   Location, 
   LocationExtractionResult,
-  LocationExtractionOptions 
+  LocationExtractionOptions,
+  NlpMatch,
+  NlpTerm
 } from '../types/services/location.type';
 import { GeocodingService } from './geocodingService';
 import { Coordinates } from '../types/services/geocoding.type';
+import { ContentCacheEntry } from '../types/models/contentCache.type';
+import { PageImage } from '../types/services/contentExtraction.type';
 import { USLocationService } from './usLocationService';
+import { summarize } from '../utils/summarizer';
+import { extractMainContent } from '../utils/contentExtractor';
+import contentCacheService, { ContentCacheService } from './contentCacheService';
+import publisherPolicyService, { PublisherPolicyService } from './publisherPolicyService';
 
 /**
  * Service for extracting location information from article content
@@ -59,15 +67,34 @@ export class LocationService {
   // Geocoding service for location coordinates and distance calculation
   private geocodingService: GeocodingService;
   
+  // Number of sentences in the summary of a fetched article page
+  private _summarySentences: number;
+  
+  // Text of fetched article pages, so re-processed articles don't download the page again
+  private _contentCache: ContentCacheService;
+  
+  // Skip list, robots.txt rules and rate limits for fetching article pages
+  private _publisherPolicy: PublisherPolicyService;
+  
   /**
    * Initialize the LocationService
    * @param userLocation Optional user location coordinates
    * @param userZipCode Optional user ZIP code (takes precedence over coordinates)
+   * @param contentCache Optional cache of fetched pages (defaults to the shared ContentCacheService)
+   * @param publisherPolicy Optional publisher policy (defaults to the shared PublisherPolicyService)
    */
-  constructor(userLocation?: Coordinates, userZipCode?: string) {
+  constructor(
+    userLocation?: Coordinates,
+    userZipCode?: string,
+    contentCache?: ContentCacheService,
+    publisherPolicy?: PublisherPolicyService
+  ) {
     // Initialize geocoding service with default settings
     this.geocodingService = new GeocodingService();
     this._usLocationService = new USLocationService();
+    this._contentCache = contentCache || contentCacheService;
+    this._publisherPolicy = publisherPolicy || publisherPolicyService;
+    this._summarySentences = Number(process.env.SUMMARY_SENTENCES) > 0 ? Number(process.env.SUMMARY_SENTENCES) : 3;
     
     // Set user location if provided
     if (userLocation) {
@@ -104,13 +131,19 @@ export class LocationService {
     
     // Use article content if available, otherwise just use the title
     let textToAnalyze = article.content || article.title;
+    let summary: string | undefined;
+    let image: PageImage | undefined;
     
     // Fetch full content if needed and not already available
     if (fetchFullContent && article.sourceUrl) {
       try {
-        const fetchedContent = await this.fetchArticleContent(article.sourceUrl);
+        const page = await this.fetchArticleContent(article.sourceUrl);
+        const fetchedContent = page.text;
+        image = page.image;
         if (fetchedContent) {
           textToAnalyze = fetchedContent;
+          // Source content is often missing (Reddit link posts) or truncated (NewsAPI), so summarize the page
+          summary = summarize(fetchedContent, { maxSentences: this._summarySentences, title: article.title }) || undefined;
         }
       } catch (error) {
         console.warn(`Failed to fetch content for article ${article.id}: ${error}`);
@@ -119,6 +152,9 @@ export class LocationService {
     
     // Extract locations from text
     const locations = this.extractLocationsFromText(textToAnalyze, article.title);
+    
+    // Extract the people and organizations from the same text
+    const entities = this.extractEntitiesFromText(textToAnalyze, article.title);
 
     // Filter by confidence and limit number
     const filteredLocations = locations
@@ -237,7 +273,10 @@ export class LocationService {
       textLength: textToAnalyze.length,
       processingTimeMs: Date.now() - startTime,
       distanceResult,
-      tier
+      tier,
+      entities,
+      summary,
+      image
     };
   }
   
@@ -419,82 +458,146 @@ export class LocationService {
     });
   }
   
+  /**
+   * Extract people and organizations from text using compromise.js
+   * A surname on its own (e.g. "Wu" after "Michelle Wu") counts as a mention of the full name
+   * 
+   * @param text Text to analyze
+   * @param title Optional title, counted as well when the text does not include it
+   * @param maxEntities Maximum number of entities to return
+   * @returns Entities with mention counts, most mentioned first
+   */
+  private extractEntitiesFromText(text: string, title?: string, maxEntities: number = 10): ArticleEntity[] {
+    if (!text || text.trim().length === 0) {
+      return [];
+    }
+    
+    const entities = new Map<string, ArticleEntity>();
+    const texts = title && !text.includes(title) ? [title, text] : [text];
+    
+    for (const part of texts) {
+      const doc = nlp(part);
+      const matches: [NlpMatch[], EntityType][] = [
+        [doc.people().json(), 'person'],
+        [doc.organizations().json(), 'organization']
+      ];
+      
+      for (const [found, type] of matches) {
+        found.forEach(match => {
+          const name = this.toEntityName(match.terms);
+          if (!name) {
+            return;
+          }
+          
+          const key = `${type}:${name.toLowerCase()}`;
+          const entity = entities.get(key) || { name, type, count: 0 };
+          entity.count++;
+          entities.set(key, entity);
+        });
+      }
+    }
+    
+    // Fold surname-only mentions into the full name they refer to
+    const people = Array.from(entities.values()).filter(entity => entity.type === 'person');
+    for (const surname of people.filter(person => !person.name.includes(' '))) {
+      const fullName = people.find(person =>
+        person.name.includes(' ') && person.name.toLowerCase().endsWith(` ${surname.name.toLowerCase()}`)
+      );
+      if (fullName) {
+        fullName.count += surname.count;
+        entities.delete(`person:${surname.name.toLowerCase()}`);
+      }
+    }
+    
+    return Array.from(entities.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, maxEntities);
+  }
+  
+  /**
+   * Build an entity name from the terms of a compromise match
+   * Titles such as "Gov." or "Mayor" and possessives are dropped
+   * 
+   * @param terms Terms of the match (compromise JSON output)
+   * @returns Entity name, or undefined if the match is not a proper name
+   */
+  private toEntityName(terms: NlpTerm[]): string | undefined {
+    const name = terms
+      .filter(term => !(term.tags || []).includes('Honorific'))
+      .map(term => term.text)
+      .join(' ')
+      .replace(/['’]s$/, '')
+      .replace(/[^\p{L}\p{N}]+$/u, '')
+      .trim();
+    
+    // Lowercase matches are common nouns compromise guessed at (e.g. "office")
+    return name.length > 1 && /^[\p{Lu}\p{N}]/u.test(name) ? name : undefined;
+  }
+  
   /**
    * Fetch article content from a URL
+   * Pages fetched within the content cache TTL are not downloaded again, and
+   * older ones are revalidated with a conditional request. Pages are only
+   * requested when the publisher policy allows it
    * 
    * @param url URL to fetch content from
-   * @returns Article content as text
+   * @returns Article content as text, with the page's lead image
    */
-  private async fetchArticleContent(url: string): Promise<string> {
-    // Skip known paywalled or problematic sites
-    const paywallDomains = [
-      'nytimes.com', 'washingtonpost.com', 'wsj.com', 'ft.com',
-      'bloomberg.com', 'economist.com', 'reuters.com', 'newyorker.com',
-      'latimes.com', 'thetimes.co.uk', 'telegraph.co.uk'
-    ];
+  private async fetchArticleContent(url: string): Promise<Pick<ContentCacheEntry, 'text' | 'image'>> {
+    const cached = await this._contentCache.get(url);
+    if (cached && this._contentCache.isFresh(cached)) {
+      return cached;
+    }
     
-    // Check if URL is from a known paywalled site
-    if (paywallDomains.some(domain => url.includes(domain))) {
-      console.log(`Skipping content fetch for paywalled site: ${url}`);
-      return ''; // Return empty string for paywalled sites
+    // Skipped publishers, robots.txt and the host's crawl delay
+    const decision = await this._publisherPolicy.requestFetch(url);
+    if (decision !== 'allowed') {
+      console.log(`Not fetching content (${decision}): ${url}`);
+      return cached || { text: '' };
     }
     
     try {
       const response = await fetch(url, {
         headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'User-Agent': this._publisherPolicy.getUserAgent(),
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5'
+          'Accept-Language': 'en-US,en;q=0.5',
+          ...(cached ? this._contentCache.getConditionalHeaders(cached) : {})
         },
         timeout: 5000 // 5 second timeout
       });
       
+      // The page has not changed since it was cached
+      if (response.status === 304 && cached) {
+        await this._contentCache.revalidate(cached, {
+          etag: response.headers.get('etag') || undefined,
+          lastModified: response.headers.get('last-modified') || undefined
+        });
+        return cached;
+      }
+      
       if (!response.ok) {
         throw new Error(`Failed to fetch content: ${response.status} ${response.statusText}`);
       }
       
       const html = await response.text();
       
-      // Very basic HTML content extraction
-      // In a production environment, use a proper HTML parser
-      return this.extractTextFromHtml(html);
+      // Only the article body, so menus and related stories don't add unrelated places
+      const { text, image } = extractMainContent(html, url);
+      await this._contentCache.store(url, {
+        text,
+        image,
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined
+      });
+      return { text, image };
     } catch (error) {
       console.warn(`Error fetching article content for URL ${url}: ${error}`);
-      return ''; // Return empty string on error
+      // A stale copy is better than no content
+      return cached || { text: '' };
     }
   }
   
-  /**
-   * Extract text content from HTML
-   * This is a very basic implementation
-   * 
-   * @param html HTML content
-   * @returns Plain text content
-   */
-  private extractTextFromHtml(html: string): string {
-    // Remove scripts and style tags
-    let text = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, ' ');
-    text = text.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, ' ');
-    
-    // Replace common block elements with newlines
-    text = text.replace(/<\/?(?:div|p|br|h[1-6]|ul|ol|li|blockquote|section|article)[^>]*>/gi, '\n');
-    
-    // Remove all remaining HTML tags
-    text = text.replace(/<[^>]*>/g, ' ');
-    
-    // Decode HTML entities
-    text = text.replace(/&nbsp;/g, ' ')
-               .replace(/&amp;/g, '&')
-               .replace(/&lt;/g, '<')
-               .replace(/&gt;/g, '>')
-               .replace(/&quot;/g, '"');
-    
-    // Clean up whitespace
-    text = text.replace(/\s+/g, ' ').trim();
-    
-    return text;
-  }
-  
   /**
    * Properly capitalize a location name
    * 
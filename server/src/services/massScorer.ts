@@ -0,0 +1,226 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MassScore,
+  MassScoringConfig,
+  MassSignal,
+  MassSignalInput
+} from '../types/services/massScoring.type';
+
+dotenv.config();
+
+// Used when the config file cannot be read
+const FALLBACK_CONFIG: MassScoringConfig = {
+  minMass: 10000,
+  maxMass: 500000,
+  curve: 2,
+  weights: { engagement: 0.5, length: 0.15, credibility: 0.15, image: 0.1, recency: 0 },
+  engagement: { commentWeight: 2, saturation: {}, defaultSaturation: 10000 },
+  length: { targetLength: 3000 },
+  credibility: { default: 0.4, publishers: {} },
+  recency: { halfLifeHours: 24 },
+  decay: { halfLifeHours: {}, defaultHalfLifeHours: 24 }
+};
+
+/**
+ * Votes and comments on a log scale, since a few posts get orders of magnitude more than the rest
+ * Only applies to sources that report engagement
+ */
+const engagementSignal: MassSignal = (input, config) => {
+  if (!input.engagement) {
+    return null;
+  }
+
+  const weighted = Math.max(0, input.engagement.score) + Math.max(0, input.engagement.comments) * config.engagement.commentWeight;
+  const saturation = config.engagement.saturation[input.source] || config.engagement.defaultSaturation;
+  return Math.log10(1 + weighted) / Math.log10(1 + saturation);
+};
+
+/**
+ * Amount of text compared to a full-length article
+ */
+const lengthSignal: MassSignal = (input, config) => {
+  const length = input.title.length + (input.content?.length || 0);
+  return length / config.length.targetLength;
+};
+
+/**
+ * Credibility of the publisher, matched by name or by the domain of the article URL
+ */
+const credibilitySignal: MassSignal = (input, config) => {
+  const publisher = (input.publisher || '').toLowerCase();
+  let host = '';
+  try {
+    host = input.url ? new URL(input.url).hostname.toLowerCase() : '';
+  } catch {
+    // Invalid URLs are matched by publisher name only
+  }
+
+  const matches = Object.entries(config.credibility.publishers)
+    .filter(([key]) => (publisher && publisher.includes(key)) || (host && host.includes(key)))
+    .map(([, value]) => value);
+
+  return matches.length > 0 ? Math.max(...matches) : config.credibility.default;
+};
+
+/**
+ * Whether the article has an image, when the source says
+ */
+const imageSignal: MassSignal = (input) => {
+  if (input.hasImage === undefined) {
+    return null;
+  }
+  return input.hasImage ? 1 : 0;
+};
+
+/**
+ * Exponential decay with the article's age
+ * Off by default (weight 0): getEffectiveMass decays mass by age when articles are
+ * served, and a recency score stored at fetch time would count age twice
+ */
+const recencySignal: MassSignal = (input, config) => {
+  const publishedAt = input.publishedAt ? new Date(input.publishedAt).getTime() : NaN;
+  if (isNaN(publishedAt)) {
+    return null;
+  }
+
+  const ageHours = Math.max(0, Date.now() - publishedAt) / (60 * 60 * 1000);
+  return Math.pow(0.5, ageHours / config.recency.halfLifeHours);
+};
+
+/**
+ * Scoring engine for article mass, shared by every news source
+ * Each signal rates the article between 0 and 1 and the weighted average is
+ * mapped onto one mass range, so articles from different sources are
+ * comparable on the same orbital scale. Signals a source cannot provide
+ * (e.g. engagement for NewsAPI) are left out and the remaining weights are
+ * rescaled, rather than counting as 0
+ */
+export class MassScorer {
+  private _config: MassScoringConfig;
+  private _signals: Map<string, MassSignal> = new Map();
+
+  /**
+   * @param config Scoring settings (defaults to the MASS_SCORING_CONFIG file, or data/massScoring.json)
+   */
+  constructor(config?: MassScoringConfig) {
+    this._config = config || this.loadConfig(process.env.MASS_SCORING_CONFIG || path.join(__dirname, '../data/massScoring.json'));
+
+    this.registerSignal('engagement', engagementSignal);
+    this.registerSignal('length', lengthSignal);
+    this.registerSignal('credibility', credibilitySignal);
+    this.registerSignal('image', imageSignal);
+    this.registerSignal('recency', recencySignal);
+  }
+
+  /**
+   * Add or replace a signal
+   * The signal is only used if the config gives it a weight
+   * @param name Signal name, as used in the config weights
+   * @param signal Signal function
+   */
+  registerSignal(name: string, signal: MassSignal): void {
+    this._signals.set(name, signal);
+  }
+
+  /**
+   * Score an article
+   * @param input What the source knows about the article
+   * @returns Mass with the signal breakdown
+   */
+  score(input: MassSignalInput): MassScore {
+    const signals: Record<string, number> = {};
+    let weightedSum = 0;
+    let totalWeight = 0;
+
+    for (const [name, signal] of this._signals) {
+      const weight = this._config.weights[name] || 0;
+      if (weight <= 0) {
+        continue;
+      }
+
+      const value = signal(input, this._config);
+      if (value === null || isNaN(value)) {
+        continue;
+      }
+
+      const clamped = Math.max(0, Math.min(1, value));
+      signals[name] = clamped;
+      weightedSum += clamped * weight;
+      totalWeight += weight;
+    }
+
+    const score = totalWeight > 0 ? weightedSum / totalWeight : 0;
+    const { minMass, maxMass, curve } = this._config;
+    const mass = Math.round(minMass + Math.pow(score, curve) * (maxMass - minMass));
+
+    return { mass, score, signals };
+  }
+
+  /**
+   * Calculate the mass of an article
+   * @param input What the source knows about the article
+   * @returns Mass between the configured minimum and maximum
+   */
+  calculateMass(input: MassSignalInput): number {
+    return this.score(input).mass;
+  }
+
+  /**
+   * Calculate the mass of an article decayed by its age
+   * Stored mass is fixed at fetch time, so old articles would otherwise stay as big as fresh ones.
+   * The mass above minMass halves every half-life of the article's source, so old articles
+   * shrink towards minMass rather than vanishing
+   * @param article Article with its stored mass, source and publication date
+   * @param now Time to measure the age from
+   * @returns Effective mass, or the stored mass if the publication date is invalid
+   */
+  getEffectiveMass(article: { mass: number; source: string; publishedAt: string }, now: Date = new Date()): number {
+    const publishedAt = new Date(article.publishedAt).getTime();
+    if (isNaN(publishedAt) || !(article.mass > this._config.minMass)) {
+      return article.mass;
+    }
+
+    const halfLifeHours = this._config.decay.halfLifeHours[article.source] || this._config.decay.defaultHalfLifeHours;
+    const ageHours = Math.max(0, now.getTime() - publishedAt) / (60 * 60 * 1000);
+    const decay = Math.pow(0.5, ageHours / halfLifeHours);
+
+    return Math.round(this._config.minMass + (article.mass - this._config.minMass) * decay);
+  }
+
+  /**
+   * Get the scoring settings in use
+   * @returns Scoring config
+   */
+  getConfig(): MassScoringConfig {
+    return this._config;
+  }
+
+  /**
+   * Load the scoring settings from a JSON file
+   * Missing sections fall back to the built-in defaults
+   * @param configPath Path of the config file
+   * @returns Scoring config
+   */
+  private loadConfig(configPath: string): MassScoringConfig {
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<MassScoringConfig>;
+
+      return {
+        ...FALLBACK_CONFIG,
+        ...fileConfig,
+        engagement: { ...FALLBACK_CONFIG.engagement, ...fileConfig.engagement },
+        length: { ...FALLBACK_CONFIG.length, ...fileConfig.length },
+        credibility: { ...FALLBACK_CONFIG.credibility, ...fileConfig.credibility },
+        recency: { ...FALLBACK_CONFIG.recency, ...fileConfig.recency },
+        decay: { ...FALLBACK_CONFIG.decay, ...fileConfig.decay }
+      };
+    } catch (error) {
+      console.error(`Error loading mass scoring config from ${configPath}, using defaults:`, error);
+      return FALLBACK_CONFIG;
+    }
+  }
+}
+
+export default new MassScorer();
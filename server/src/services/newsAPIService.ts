@@ -1,67 +1,65 @@
 import * as dotenv from 'dotenv';
-import fetch from 'node-fetch';
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import { Article } from '../types/models/article.type';
-import { NewsAPIArticle, NewsAPIResponse } from '../types/services/newsapi.type';
+import { NewsAPIArticle, NewsAPIQuery, NewsAPIQueryConfig, NewsAPIResponse } from '../types/services/newsapi.type';
 import { LocationService } from './locationService';
 import { ArticleStore } from './articleStore';
 import { GeocodingService } from './geocodingService';
 import MongoManager from '../database/MongoManager';
 import { geocodeArticleLocation } from '../utils/locationUtils';
+import { canonicalizeUrl } from '../utils/urlCanonicalizer';
+import resilience from './resilienceService';
+import quotaService, { QuotaExceededError } from './quotaService';
+import massScorer from './massScorer';
+
+// Base URL of the NewsAPI v2 endpoints
+const DEFAULT_BASE_URL = 'https://newsapi.org/v2';
+
+// Most articles NewsAPI returns for one request
+const MAX_PAGE_SIZE = 100;
+
+// Used when the queries config file cannot be read
+const FALLBACK_QUERIES: NewsAPIQuery[] = [{ name: 'us-headlines', endpoint: 'top-headlines', country: 'us' }];
 
 /**
  * Service for fetching articles from NewsAPI
+ * Each fetch runs the named queries in data/newsapiQueries.json, e.g. US top
+ * headlines plus a keyword or publisher search per metro area. Every request,
+ * retries included, counts against the daily NewsAPI quota
  */
 export class NewsAPIService {
   private apiKey: string;
   private locationService: LocationService;
   private articleStore: ArticleStore;
   private geocodingService: GeocodingService;
+  private _queries: NewsAPIQuery[];
+  private _baseUrl: string;
   
-  constructor() {
+  /**
+   * @param queries Queries to run (defaults to the NEWSAPI_QUERIES_CONFIG file, or data/newsapiQueries.json)
+   * @param baseUrl Base URL of the endpoints (defaults to NEWSAPI_BASE_URL, or https://newsapi.org/v2)
+   */
+  constructor(queries?: NewsAPIQuery[], baseUrl?: string) {
     dotenv.config();
     this.apiKey = process.env.NEWSAPI_API_KEY || '';
     this.locationService = new LocationService();
     this.articleStore = new ArticleStore();
     this.geocodingService = new GeocodingService();
+    this._queries = queries || this.loadQueries(
+      process.env.NEWSAPI_QUERIES_CONFIG || path.join(__dirname, '../data/newsapiQueries.json')
+    );
+    this._baseUrl = (baseUrl || process.env.NEWSAPI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
     
     if (!this.apiKey) {
       console.warn('NewsAPI API key not found in environment variables');
     }
-    
-    // Initialize and check for today's articles, but only if not in a test environment
-    const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
-    if (!isTestEnvironment) {
-      this.checkForTodaysArticles();
-    }
-  }
-  
-  /**
-   * Check for articles and fetch them regardless of whether we have today's articles
-   * This allows the service to fetch new articles every hour
-   */
-  private async checkForTodaysArticles(): Promise<void> {
-    try {
-      // Get count of today's articles for logging purposes
-      const todayCount = await this.articleStore.getTodaysArticleCount('newsapi');
-      
-      if (todayCount > 0) {
-        console.debug(`Found ${todayCount} NewsAPI articles for today, will still check for new ones`);
-      }
-      
-      // Always fetch articles to get the latest ones with forceFetch=true
-      // This ensures we bypass the stored articles check and get fresh data
-      // The articleStore will handle duplicates
-      this.fetchArticles(50, true).catch(err => {
-        console.error('Error fetching NewsAPI articles:', err);
-      });
-    } catch (error: unknown) {
-      console.error('Error checking for articles:', error);
-    }
   }
   
   /**
-   * Fetch articles from NewsAPI
-   * @param limit Number of articles to fetch (default: 50)
+   * Fetch articles from NewsAPI by running each configured query
+   * @param limit Number of articles to fetch per query without its own page size (default: 50)
    * @param forceFetch Whether to force fetching from API even if stored articles exist (default: false)
    * @returns Promise with array of articles
    */
@@ -92,54 +90,144 @@ export class NewsAPIService {
 
       console.info(`Fetching articles from NewsAPI...`);
       
-      // Fetch top headlines from the US
-      const response = await fetch(
-        `https://newsapi.org/v2/top-headlines?country=us&pageSize=${limit}`,
-        {
+      // The same article can match several queries, so it keeps the tags of each
+      const articlesById = new Map<string, Article>();
+      
+      for (const query of this._queries) {
+        const url = this.buildQueryUrl(query, limit);
+        if (!url) {
+          continue;
+        }
+        
+        let queryArticles: Article[];
+        try {
+          queryArticles = await this.fetchQuery(query, url);
+        } catch (error) {
+          // Skip the remaining queries once the daily budget or this hour's share of it is used up
+          if (error instanceof QuotaExceededError) {
+            console.warn(`${error.message}, skipping query ${query.name}`);
+            break;
+          }
+          throw error;
+        }
+        
+        for (const article of queryArticles) {
+          const existing = articlesById.get(article.id);
+          if (existing) {
+            existing.tags = Array.from(new Set([...(existing.tags || []), ...(article.tags || [])]));
+          } else {
+            articlesById.set(article.id, article);
+          }
+        }
+      }
+      
+      const articles = Array.from(articlesById.values());
+      
+      // Only log if not in a test environment
+      const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
+      if (!isTestEnvironment) {
+        console.info(`Fetched ${articles.length} articles from NewsAPI`);
+      }
+      
+      return articles;
+    } catch (error) {
+      console.error('Error fetching articles from NewsAPI:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Get the queries run on each fetch
+   * @returns Named queries
+   */
+  getQueries(): NewsAPIQuery[] {
+    return this._queries.map(query => ({ ...query }));
+  }
+  
+  /**
+   * Build the request URL of a query
+   * @param query Named query
+   * @param limit Number of articles for queries without a page size
+   * @returns Request URL, or null if the query is missing the parameters its endpoint requires
+   */
+  buildQueryUrl(query: NewsAPIQuery, limit: number): string | null {
+    const params = new URLSearchParams();
+    
+    if (query.endpoint === 'top-headlines') {
+      if (!query.country && !query.category && !query.q) {
+        console.warn(`NewsAPI query ${query.name} needs a country, category or q, skipping`);
+        return null;
+      }
+      if (query.country) params.set('country', query.country);
+      if (query.category) params.set('category', query.category);
+      if (query.q) params.set('q', query.q);
+    } else if (query.endpoint === 'everything') {
+      if (!query.q && !(query.domains && query.domains.length > 0)) {
+        console.warn(`NewsAPI query ${query.name} needs q or domains, skipping`);
+        return null;
+      }
+      if (query.q) params.set('q', query.q);
+      if (query.domains && query.domains.length > 0) params.set('domains', query.domains.join(','));
+      if (query.language) params.set('language', query.language);
+      if (query.sortBy) params.set('sortBy', query.sortBy);
+    } else {
+      console.warn(`NewsAPI query ${query.name} has an unknown endpoint ${query.endpoint}, skipping`);
+      return null;
+    }
+    
+    params.set('pageSize', String(Math.min(MAX_PAGE_SIZE, query.pageSize || limit)));
+    return `${this._baseUrl}/${query.endpoint}?${params.toString()}`;
+  }
+  
+  /**
+   * Run one query and transform its articles
+   * A failing query is logged and skipped so it does not block the others.
+   * Each attempt, retries included, consumes quota, since NewsAPI counts every request
+   * @param query Named query
+   * @param url Request URL of the query
+   * @returns Articles tagged with the query name
+   * @throws QuotaExceededError if the quota does not allow the request
+   */
+  private async fetchQuery(query: NewsAPIQuery, url: string): Promise<Article[]> {
+    try {
+      const response = await resilience.execute('newsapi', async () => {
+        const quotaDecision = await quotaService.tryConsume('newsapi');
+        if (quotaDecision !== 'allowed') {
+          // Not retried, and not counted against the circuit
+          throw new QuotaExceededError('newsapi', quotaDecision);
+        }
+        return resilience.fetchOnce('newsapi', url, {
           method: 'GET',
           headers: {
             'X-Api-Key': this.apiKey
           }
-        }
-      );
+        });
+      });
 
       if (!response.ok) {
-        console.error(`NewsAPI error: ${response.status} ${response.statusText}`);
+        console.error(`NewsAPI error for query ${query.name}: ${response.status} ${response.statusText}`);
         return [];
       }
 
       const data = await response.json() as NewsAPIResponse;
       
       if (data.status !== 'ok') {
-        console.error(`NewsAPI returned error: ${data.code} - ${data.message}`);
+        console.error(`NewsAPI returned error for query ${query.name}: ${data.code} - ${data.message}`);
         return [];
       }
       
       // Debug log the raw articles from NewsAPI
-      console.log(`NewsAPI raw response has ${data.articles.length} articles`);
+      console.log(`NewsAPI query ${query.name} returned ${data.articles.length} articles`);
       
       // Transform NewsAPI articles to our Article format
-      const articles = await Promise.all(
-        data.articles.map(article => this.transformNewsAPIArticle(article))
+      return await Promise.all(
+        data.articles.map(article => this.transformNewsAPIArticle(article, query.name))
       );
-      
-      // Debug log the transformed articles
-      console.log(`After transformation, we have ${articles.length} articles`);
-      
-      // Only log if not in a test environment
-      const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
-      if (!isTestEnvironment) {
-        console.info(`Fetched ${articles.length} articles from NewsAPI`);
-      }
-      
-      // Store the fetched articles if MongoDB is connected
-      if (MongoManager.isConnected()) {
-        await this.articleStore.storeArticles(articles);
-      }
-      
-      return articles;
     } catch (error) {
-      console.error('Error fetching articles from NewsAPI:', error);
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      console.error(`Error running NewsAPI query ${query.name}:`, error);
       return [];
     }
   }
@@ -147,14 +235,16 @@ export class NewsAPIService {
   /**
    * Transform a NewsAPI article into our Article format
    * @param article NewsAPI article
+   * @param queryName Name of the query that returned the article
    * @returns Article object
    */
-  private async transformNewsAPIArticle(article: NewsAPIArticle): Promise<Article> {
+  private async transformNewsAPIArticle(article: NewsAPIArticle, queryName: string): Promise<Article> {
     try {
       // Debug log for each article being transformed
       console.log(`Transforming article: ${article.title.substring(0, 30)}...`);
-      // Create a unique ID for the article
-      const articleId = `newsapi-${Buffer.from(article.url).toString('base64').substring(0, 40)}`;
+      // Create a unique ID for the article from its canonical URL, so URL variants get the same ID
+      const canonicalUrl = canonicalizeUrl(article.url);
+      const articleId = `newsapi-${crypto.createHash('sha1').update(canonicalUrl || article.url).digest('hex').substring(0, 24)}`;
       
       // Create a temporary article object to pass to geocodeArticleLocation
       const tempArticle = {
@@ -164,7 +254,9 @@ export class NewsAPIService {
         sourceUrl: article.url,
         source: 'newsapi',
         author: article.author || article.source.name,
-        publishedAt: article.publishedAt
+        publishedAt: article.publishedAt,
+        // The page's Open Graph image is used when NewsAPI has none
+        ...(/^https?:\/\//.test(article.urlToImage || '') ? { imageUrl: article.urlToImage as string } : {})
       } as Article;
       
       // Use the helper function to geocode the article location
@@ -176,25 +268,15 @@ export class NewsAPIService {
         defaultZipCode: '00000'
       });
       
-      // Calculate article mass based on content length and other factors
-      const contentLength = (article.content?.length || 0) + 
-                           (article.description?.length || 0) + 
-                           article.title.length;
-      
-      // Base mass calculation - can be adjusted based on source importance
-      let mass = contentLength * 100;
-      
-      // Add mass for articles with images
-      if (article.urlToImage) {
-        mass += 10000;
-      }
-      
-      // Add mass for articles from major sources
-      if (article.source.name.includes('CNN') || 
-          article.source.name.includes('BBC') || 
-          article.source.name.includes('New York Times')) {
-        mass += 20000;
-      }
+      const mass = massScorer.calculateMass({
+        source: 'newsapi',
+        publisher: article.source.name,
+        url: article.url,
+        title: article.title,
+        content: `${article.description || ''} ${article.content || ''}`.trim(),
+        hasImage: Boolean(article.urlToImage),
+        publishedAt: article.publishedAt
+      });
       
       const transformedArticle = {
         id: articleId,
@@ -202,11 +284,18 @@ export class NewsAPIService {
         content: article.content || article.description || '',
         source: 'newsapi',
         sourceUrl: article.url,
+        canonicalUrl,
+        imageUrl: geocodedArticle.imageUrl,
+        imageWidth: geocodedArticle.imageWidth,
+        imageHeight: geocodedArticle.imageHeight,
         author: article.author || article.source.name,
         publishedAt: article.publishedAt,
         location: geocodedArticle.location,
-        tags: [], // NewsAPI doesn't provide tags
-        mass: mass
+        // NewsAPI doesn't provide tags, so only the query is recorded; topics are added by the ingestion pipeline
+        tags: [`newsapi/${queryName}`],
+        entities: geocodedArticle.entities,
+        summary: geocodedArticle.summary,
+        mass
       };
       
       // Debug log the location data
@@ -218,6 +307,21 @@ export class NewsAPIService {
       throw error;
     }
   }
+  
+  /**
+   * Load the queries to run from a JSON file
+   * @param configPath Path of the config file
+   * @returns Named queries, or US top headlines only if the file cannot be read
+   */
+  private loadQueries(configPath: string): NewsAPIQuery[] {
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<NewsAPIQueryConfig>;
+      return fileConfig.queries && fileConfig.queries.length > 0 ? fileConfig.queries : FALLBACK_QUERIES;
+    } catch (error) {
+      console.error(`Error loading NewsAPI queries from ${configPath}, fetching US top headlines only:`, error);
+      return FALLBACK_QUERIES;
+    }
+  }
 }
 
 // Export a singleton instance
@@ -1,7 +1,10 @@
 // No longer need to import determineTier as tier is calculated dynamically in the controller
 import { Article } from '../types/models/article.type';
+import { SubredditConfig } from '../types/services/reddit.type';
 import { RedditService } from './redditService';
 import { NewsAPIService } from './newsAPIService';
+import { TwitterProvider } from './providers/twitterProvider';
+import { WashingtonPostProvider } from './providers/washingtonPostProvider';
 
 /**
  * NewsService handles fetching and processing articles from various data sources
@@ -9,10 +12,14 @@ import { NewsAPIService } from './newsAPIService';
 export class NewsService {
   private _redditService: RedditService;
   private _newsAPIService: NewsAPIService;
+  private _twitterProvider: TwitterProvider;
+  private _washingtonPostProvider: WashingtonPostProvider;
   
   constructor() {
     this._redditService = new RedditService();
     this._newsAPIService = new NewsAPIService();
+    this._twitterProvider = new TwitterProvider();
+    this._washingtonPostProvider = new WashingtonPostProvider();
   }
   
   /**
@@ -27,6 +34,19 @@ export class NewsService {
     return this._redditService.fetchArticles(subreddit, limit, 'day', true, forceFetch);
   }
   
+  /**
+   * Fetch articles from several subreddits, each with its own limit and time frame
+   * @param subreddits Optional subreddits to fetch (defaults to the configured subreddits)
+   * @param limit Optional number of articles for subreddits without a limit (default: 50)
+   * @param forceFetch Optional parameter to force fetching from API even if stored articles exist (default: false)
+   * @returns Promise with array of articles
+   */
+  async fetchFromSubreddits(subreddits?: SubredditConfig[], limit: number = 50, forceFetch: boolean = false): Promise<Article[]> {
+    const names = (subreddits || this._redditService.getSubreddits()).map(subreddit => subreddit.name).join(', ');
+    console.log(`Fetching from Reddit subreddits: ${names}, limit: ${limit}, forceFetch: ${forceFetch}`);
+    return this._redditService.fetchSubreddits(subreddits, limit, forceFetch);
+  }
+  
   /**
    * Fetch articles from NewsAPI
    * @param limit Optional number of articles to fetch (default: 50)
@@ -89,49 +109,7 @@ export class NewsService {
    * @returns Promise with array of articles (MOCK DATA)
    */
   async fetchFromTwitter(query?: string): Promise<Article[]> {
-    // This is a placeholder implementation using MOCK DATA
-    // In a real implementation, this would use the Twitter API
-    console.debug(`[MOCK DATA] Fetching from Twitter with query: ${query || 'none'}`);
-    
-    // Mock data with articles at different orbital distances
-    return [
-      {
-        id: 'twitter-close',
-        title: 'Breaking: Major Tech Acquisition Announced',
-        content: 'A major tech company has just announced the acquisition of a promising startup...',
-        source: 'twitter',
-        sourceUrl: 'https://twitter.com/techinsider/123456',
-        author: '@techinsider',
-        publishedAt: new Date().toISOString(),
-        location: 'San Francisco, CA',
-        tags: ['technology', 'business', 'acquisition'],
-        mass: 100000
-      },
-      {
-        id: 'twitter-medium',
-        title: 'New AI Model Breaks All Previous Benchmarks',
-        content: 'A research lab has released a new AI model that outperforms all previous benchmarks...',
-        source: 'twitter',
-        sourceUrl: 'https://twitter.com/ai_news/567890',
-        author: '@ai_news',
-        publishedAt: new Date(Date.now() - 43200000).toISOString(), // 12 hours ago
-        location: 'Palo Alto, CA',
-        tags: ['ai', 'technology', 'research'],
-        mass: 130000
-      },
-      {
-        id: 'twitter-far',
-        title: 'Climate Report Shows Accelerating Changes',
-        content: 'A new climate report indicates that global climate changes are accelerating faster than predicted...',
-        source: 'twitter',
-        sourceUrl: 'https://twitter.com/climate_news/901234',
-        author: '@climate_news',
-        publishedAt: new Date(Date.now() - 259200000).toISOString(), // 3 days ago
-        location: 'Geneva, Switzerland',
-        tags: ['climate', 'environment', 'science'],
-        mass: 160000
-      }
-    ];
+    return this._twitterProvider.fetch({ query });
   }
 
   /**
@@ -140,48 +118,6 @@ export class NewsService {
    * @returns Promise with array of articles (MOCK DATA)
    */
   async fetchFromWashingtonPost(query?: string): Promise<Article[]> {
-    // This is a placeholder implementation using MOCK DATA
-    // In a real implementation, this would use the Washington Post API
-    console.debug(`[MOCK DATA] Fetching from Washington Post with query: ${query || 'none'}`);
-    
-    // Mock data with articles at different orbital distances
-    return [
-      {
-        id: 'wapo-close',
-        title: 'Political Analysis: New Policy Implications',
-        content: 'The recently passed legislation will have far-reaching effects on industry regulations...',
-        source: 'washington_post',
-        sourceUrl: 'https://washingtonpost.com/politics/123456',
-        author: 'Political Correspondent',
-        publishedAt: new Date().toISOString(),
-        location: 'Washington DC',
-        tags: ['politics', 'policy', 'legislation'],
-        mass: 150000
-      },
-      {
-        id: 'wapo-medium',
-        title: 'Economic Report: Inflation Trends Shifting',
-        content: 'The latest economic indicators suggest a shift in inflation trends that could impact markets...',
-        source: 'washington_post',
-        sourceUrl: 'https://washingtonpost.com/business/234567',
-        author: 'Economics Editor',
-        publishedAt: new Date(Date.now() - 64800000).toISOString(), // 18 hours ago
-        location: 'New York, NY',
-        tags: ['economics', 'inflation', 'markets'],
-        mass: 140000
-      },
-      {
-        id: 'wapo-far',
-        title: 'International Relations: Diplomatic Breakthrough',
-        content: 'A diplomatic breakthrough has been achieved in long-standing international negotiations...',
-        source: 'washington_post',
-        sourceUrl: 'https://washingtonpost.com/world/345678',
-        author: 'Foreign Affairs Correspondent',
-        publishedAt: new Date(Date.now() - 345600000).toISOString(), // 4 days ago
-        location: 'Brussels, Belgium',
-        tags: ['international', 'diplomacy', 'politics'],
-        mass: 170000
-      }
-    ];
+    return this._washingtonPostProvider.fetch({ query });
   }
 }
@@ -0,0 +1,156 @@
+import { CronExpressionParser } from 'cron-parser';
+import { NewsSourceConfig, NewsSourceProvider, NewsSourceSummary } from '../types/services/newsSource.type';
+
+/**
+ * Registry of news source providers
+ * The article fetcher iterates the registered providers, so adding a new source
+ * only requires registering a provider here
+ */
+export class NewsSourceRegistry {
+  private _providers: Map<string, NewsSourceProvider> = new Map();
+
+  /**
+   * Register a provider, replacing any provider with the same id
+   * @param provider Provider to register
+   */
+  register(provider: NewsSourceProvider): void {
+    if (this._providers.has(provider.id)) {
+      console.warn(`News source provider '${provider.id}' is already registered, replacing it`);
+    }
+
+    this._providers.set(provider.id, provider);
+  }
+
+  /**
+   * Remove a provider from the registry
+   * @param id Provider id
+   * @returns True if a provider was removed
+   */
+  unregister(id: string): boolean {
+    return this._providers.delete(id);
+  }
+
+  /**
+   * Get a provider by id
+   * @param id Provider id
+   * @returns The provider or undefined if not registered
+   */
+  get(id: string): NewsSourceProvider | undefined {
+    return this._providers.get(id);
+  }
+
+  /**
+   * Check whether a provider is registered
+   * @param id Provider id
+   * @returns True if registered
+   */
+  has(id: string): boolean {
+    return this._providers.has(id);
+  }
+
+  /**
+   * Get all registered providers in registration order
+   * @returns Array of providers
+   */
+  getAll(): NewsSourceProvider[] {
+    return Array.from(this._providers.values());
+  }
+
+  /**
+   * Get all enabled providers in registration order
+   * @returns Array of enabled providers
+   */
+  getEnabled(): NewsSourceProvider[] {
+    return this.getAll().filter(provider => provider.enabled);
+  }
+
+  /**
+   * Enable or disable a registered provider
+   * @param id Provider id
+   * @param enabled Whether the provider should be enabled
+   * @returns True if the provider exists
+   */
+  setEnabled(id: string, enabled: boolean): boolean {
+    const provider = this._providers.get(id);
+    if (!provider) {
+      return false;
+    }
+
+    provider.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * Apply configuration overrides to a registered provider
+   * Invalid limits and cron expressions are ignored with a warning
+   * @param id Provider id
+   * @param config Configuration overrides
+   * @returns True if the provider exists
+   */
+  configure(id: string, config: NewsSourceConfig): boolean {
+    const provider = this._providers.get(id);
+    if (!provider) {
+      return false;
+    }
+
+    if (config.enabled !== undefined) {
+      provider.enabled = config.enabled;
+    }
+
+    if (config.limit !== undefined) {
+      if (Number.isInteger(config.limit) && config.limit > 0) {
+        provider.defaultLimit = config.limit;
+      } else {
+        console.warn(`Ignoring invalid limit for news source '${id}': ${config.limit}`);
+      }
+    }
+
+    if (config.schedule !== undefined) {
+      try {
+        CronExpressionParser.parse(config.schedule);
+        provider.schedule = config.schedule;
+      } catch (error) {
+        console.warn(`Ignoring invalid schedule for news source '${id}': ${config.schedule}`);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Configure every registered provider from environment variables
+   * Variables are named after the upper-cased provider id, for example
+   * REDDIT_FETCH_SCHEDULE, NEWSAPI_FETCH_ENABLED or RSS_FETCH_LIMIT
+   * @param env Environment variables (default: process.env)
+   */
+  configureFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    for (const provider of this.getAll()) {
+      const prefix = provider.id.toUpperCase();
+      const enabled = env[`${prefix}_FETCH_ENABLED`];
+      const limit = env[`${prefix}_FETCH_LIMIT`];
+      const schedule = env[`${prefix}_FETCH_SCHEDULE`];
+
+      this.configure(provider.id, {
+        enabled: enabled !== undefined && enabled !== '' ? enabled.toLowerCase() === 'true' : undefined,
+        limit: limit ? Number(limit) : undefined,
+        schedule: schedule || undefined
+      });
+    }
+  }
+
+  /**
+   * Summarize the registered providers for status reporting
+   * @returns Array of provider summaries
+   */
+  getSummaries(): NewsSourceSummary[] {
+    return this.getAll().map(provider => ({
+      id: provider.id,
+      enabled: provider.enabled,
+      defaultLimit: provider.defaultLimit,
+      schedule: provider.schedule,
+      storeArticles: provider.storeArticles
+    }));
+  }
+}
+
+export default NewsSourceRegistry;
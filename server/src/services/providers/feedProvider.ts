@@ -0,0 +1,35 @@
+import { Article } from '../../types/models/article.type';
+import { NewsSourceFetchOptions, NewsSourceProvider } from '../../types/services/newsSource.type';
+import { FeedService } from '../feedService';
+
+/**
+ * News source provider for RSS 2.0 and Atom feeds (real data source)
+ * Enabled only when at least one feed URL is configured
+ */
+export class FeedProvider implements NewsSourceProvider {
+  readonly id = 'rss';
+  readonly storeArticles = true;
+  enabled: boolean;
+  defaultLimit = 25;
+  private _feedService: FeedService;
+
+  /**
+   * @param feedService Feed service holding the configured feed URLs
+   */
+  constructor(feedService: FeedService = new FeedService()) {
+    this._feedService = feedService;
+    this.enabled = feedService.getFeedUrls().length > 0;
+  }
+
+  /**
+   * Fetch articles from all configured feeds
+   * @param options Fetch options (limit applies per feed)
+   * @returns Promise with array of articles
+   */
+  async fetch(options: NewsSourceFetchOptions = {}): Promise<Article[]> {
+    const { limit = this.defaultLimit } = options;
+    return this._feedService.fetchArticles(limit);
+  }
+}
+
+export default FeedProvider;
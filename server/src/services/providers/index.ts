@@ -0,0 +1,26 @@
+import { NewsSourceRegistry } from '../newsSourceRegistry';
+import { NewsService } from '../newsService';
+import { RedditProvider } from './redditProvider';
+import { NewsAPIProvider } from './newsAPIProvider';
+import { FeedProvider } from './feedProvider';
+import { TwitterProvider } from './twitterProvider';
+import { WashingtonPostProvider } from './washingtonPostProvider';
+
+export { RedditProvider, NewsAPIProvider, FeedProvider, TwitterProvider, WashingtonPostProvider };
+
+/**
+ * Register the built-in news source providers and apply their environment configuration
+ * Real sources are registered first so they are fetched before the mock sources
+ * @param registry Registry to register the providers with
+ * @param newsService News service used by the real data source providers
+ * @returns The registry, for chaining
+ */
+export function registerDefaultProviders(registry: NewsSourceRegistry, newsService: NewsService): NewsSourceRegistry {
+  registry.register(new RedditProvider(newsService));
+  registry.register(new NewsAPIProvider(newsService));
+  registry.register(new FeedProvider());
+  registry.register(new TwitterProvider());
+  registry.register(new WashingtonPostProvider());
+  registry.configureFromEnv();
+  return registry;
+}
@@ -0,0 +1,33 @@
+import { Article } from '../../types/models/article.type';
+import { NewsSourceFetchOptions, NewsSourceProvider } from '../../types/services/newsSource.type';
+import { NewsService } from '../newsService';
+
+/**
+ * News source provider for NewsAPI (real data source)
+ */
+export class NewsAPIProvider implements NewsSourceProvider {
+  readonly id = 'newsapi';
+  readonly storeArticles = true;
+  enabled = true;
+  defaultLimit = 50;
+  private _newsService: NewsService;
+
+  /**
+   * @param newsService News service used to reach NewsAPI
+   */
+  constructor(newsService: NewsService) {
+    this._newsService = newsService;
+  }
+
+  /**
+   * Fetch articles from NewsAPI
+   * @param options Fetch options (forceFetch defaults to true to always get fresh articles)
+   * @returns Promise with array of articles
+   */
+  async fetch(options: NewsSourceFetchOptions = {}): Promise<Article[]> {
+    const { limit = this.defaultLimit, forceFetch = true } = options;
+    return this._newsService.fetchFromNewsAPI(limit, forceFetch);
+  }
+}
+
+export default NewsAPIProvider;
@@ -0,0 +1,39 @@
+import { Article } from '../../types/models/article.type';
+import { NewsSourceFetchOptions, NewsSourceProvider } from '../../types/services/newsSource.type';
+import { SubredditConfig } from '../../types/services/reddit.type';
+import { NewsService } from '../newsService';
+
+/**
+ * News source provider for Reddit (real data source)
+ * Fetches the configured subreddits (data/subreddits.json); the fetch limit
+ * applies to subreddits that do not set their own
+ */
+export class RedditProvider implements NewsSourceProvider {
+  readonly id = 'reddit';
+  readonly storeArticles = true;
+  enabled = true;
+  defaultLimit = 50;
+  private _newsService: NewsService;
+  private _subreddits?: SubredditConfig[];
+
+  /**
+   * @param newsService News service used to reach the Reddit API
+   * @param subreddits Subreddits to fetch (defaults to the configured subreddits)
+   */
+  constructor(newsService: NewsService, subreddits?: SubredditConfig[]) {
+    this._newsService = newsService;
+    this._subreddits = subreddits;
+  }
+
+  /**
+   * Fetch articles from Reddit
+   * @param options Fetch options (forceFetch defaults to true to always get fresh articles)
+   * @returns Promise with array of articles
+   */
+  async fetch(options: NewsSourceFetchOptions = {}): Promise<Article[]> {
+    const { limit = this.defaultLimit, forceFetch = true } = options;
+    return this._newsService.fetchFromSubreddits(this._subreddits, limit, forceFetch);
+  }
+}
+
+export default RedditProvider;
@@ -0,0 +1,67 @@
+import { Article } from '../../types/models/article.type';
+import { NewsSourceFetchOptions, NewsSourceProvider } from '../../types/services/newsSource.type';
+
+/**
+ * News source provider for Twitter (MOCK DATA)
+ * In a real implementation, this would use the Twitter API
+ */
+export class TwitterProvider implements NewsSourceProvider {
+  readonly id = 'twitter';
+  readonly storeArticles = false;
+  enabled = true;
+  defaultLimit = 3;
+
+  /**
+   * Fetch articles from Twitter
+   * @param options Fetch options
+   * @returns Promise with array of articles (MOCK DATA)
+   */
+  async fetch(options: NewsSourceFetchOptions = {}): Promise<Article[]> {
+    const { limit = this.defaultLimit, query } = options;
+    console.debug(`[MOCK DATA] Fetching from Twitter with query: ${query || 'none'}`);
+
+    // Mock data with articles at different orbital distances
+    const articles: Article[] = [
+      {
+        id: 'twitter-close',
+        title: 'Breaking: Major Tech Acquisition Announced',
+        content: 'A major tech company has just announced the acquisition of a promising startup...',
+        source: 'twitter',
+        sourceUrl: 'https://twitter.com/techinsider/123456',
+        author: '@techinsider',
+        publishedAt: new Date().toISOString(),
+        location: 'San Francisco, CA',
+        tags: ['technology', 'business', 'acquisition'],
+        mass: 100000
+      },
+      {
+        id: 'twitter-medium',
+        title: 'New AI Model Breaks All Previous Benchmarks',
+        content: 'A research lab has released a new AI model that outperforms all previous benchmarks...',
+        source: 'twitter',
+        sourceUrl: 'https://twitter.com/ai_news/567890',
+        author: '@ai_news',
+        publishedAt: new Date(Date.now() - 43200000).toISOString(), // 12 hours ago
+        location: 'Palo Alto, CA',
+        tags: ['ai', 'technology', 'research'],
+        mass: 130000
+      },
+      {
+        id: 'twitter-far',
+        title: 'Climate Report Shows Accelerating Changes',
+        content: 'A new climate report indicates that global climate changes are accelerating faster than predicted...',
+        source: 'twitter',
+        sourceUrl: 'https://twitter.com/climate_news/901234',
+        author: '@climate_news',
+        publishedAt: new Date(Date.now() - 259200000).toISOString(), // 3 days ago
+        location: 'Geneva, Switzerland',
+        tags: ['climate', 'environment', 'science'],
+        mass: 160000
+      }
+    ];
+
+    return articles.slice(0, limit);
+  }
+}
+
+export default TwitterProvider;
@@ -0,0 +1,67 @@
+import { Article } from '../../types/models/article.type';
+import { NewsSourceFetchOptions, NewsSourceProvider } from '../../types/services/newsSource.type';
+
+/**
+ * News source provider for the Washington Post (MOCK DATA)
+ * In a real implementation, this would use the Washington Post API
+ */
+export class WashingtonPostProvider implements NewsSourceProvider {
+  readonly id = 'washington_post';
+  readonly storeArticles = false;
+  enabled = true;
+  defaultLimit = 3;
+
+  /**
+   * Fetch articles from the Washington Post
+   * @param options Fetch options
+   * @returns Promise with array of articles (MOCK DATA)
+   */
+  async fetch(options: NewsSourceFetchOptions = {}): Promise<Article[]> {
+    const { limit = this.defaultLimit, query } = options;
+    console.debug(`[MOCK DATA] Fetching from Washington Post with query: ${query || 'none'}`);
+
+    // Mock data with articles at different orbital distances
+    const articles: Article[] = [
+      {
+        id: 'wapo-close',
+        title: 'Political Analysis: New Policy Implications',
+        content: 'The recently passed legislation will have far-reaching effects on industry regulations...',
+        source: 'washington_post',
+        sourceUrl: 'https://washingtonpost.com/politics/123456',
+        author: 'Political Correspondent',
+        publishedAt: new Date().toISOString(),
+        location: 'Washington DC',
+        tags: ['politics', 'policy', 'legislation'],
+        mass: 150000
+      },
+      {
+        id: 'wapo-medium',
+        title: 'Economic Report: Inflation Trends Shifting',
+        content: 'The latest economic indicators suggest a shift in inflation trends that could impact markets...',
+        source: 'washington_post',
+        sourceUrl: 'https://washingtonpost.com/business/234567',
+        author: 'Economics Editor',
+        publishedAt: new Date(Date.now() - 64800000).toISOString(), // 18 hours ago
+        location: 'New York, NY',
+        tags: ['economics', 'inflation', 'markets'],
+        mass: 140000
+      },
+      {
+        id: 'wapo-far',
+        title: 'International Relations: Diplomatic Breakthrough',
+        content: 'A diplomatic breakthrough has been achieved in long-standing international negotiations...',
+        source: 'washington_post',
+        sourceUrl: 'https://washingtonpost.com/world/345678',
+        author: 'Foreign Affairs Correspondent',
+        publishedAt: new Date(Date.now() - 345600000).toISOString(), // 4 days ago
+        location: 'Brussels, Belgium',
+        tags: ['international', 'diplomacy', 'politics'],
+        mass: 170000
+      }
+    ];
+
+    return articles.slice(0, limit);
+  }
+}
+
+export default WashingtonPostProvider;
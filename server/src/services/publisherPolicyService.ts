@@ -0,0 +1,218 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { PolicyDecision, PublisherPolicyConfig, RobotsRules } from '../types/services/publisherPolicy.type';
+import { isPathAllowed, parseRobotsTxt } from '../utils/robotsTxt';
+
+dotenv.config();
+
+// Used when the config file cannot be read
+const FALLBACK_CONFIG: PublisherPolicyConfig = {
+  userAgent: 'OrbitalNewsBot/1.0',
+  skipDomains: [],
+  robotsCacheHours: 24,
+  defaultCrawlDelaySeconds: 1,
+  maxCrawlDelaySeconds: 30,
+  maxWaitSeconds: 5
+};
+
+// robots.txt that could not be fetched is retried sooner than one that was
+const UNREACHABLE_ROBOTS_CACHE_MS = 60 * 60 * 1000;
+
+// Rules used when a host's robots.txt cannot be reached: nothing may be fetched
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }] };
+
+/**
+ * Rules for fetching article pages from publishers' sites
+ * Before a page is fetched, the publisher must not be on the skip list
+ * (data/publisherPolicy.json), the host's robots.txt must allow the page, and
+ * the host's crawl delay must have passed since our last request to it, so
+ * fetching article bodies does not get the server blocked
+ */
+export class PublisherPolicyService {
+  private _config: PublisherPolicyConfig;
+  private _robots: Map<string, { robots: RobotsRules; expiresAt: number }> = new Map();
+  private _robotsRequests: Map<string, Promise<RobotsRules>> = new Map();
+  private _nextSlots: Map<string, number> = new Map();
+
+  /**
+   * @param config Policy settings (defaults to the PUBLISHER_POLICY_CONFIG file, or data/publisherPolicy.json)
+   */
+  constructor(config?: PublisherPolicyConfig) {
+    this._config = config || this.loadConfig(process.env.PUBLISHER_POLICY_CONFIG || path.join(__dirname, '../data/publisherPolicy.json'));
+  }
+
+  /**
+   * Get the user agent to send with page requests
+   * @returns User agent header
+   */
+  getUserAgent(): string {
+    return this._config.userAgent;
+  }
+
+  /**
+   * Check whether a URL belongs to a publisher on the skip list
+   * @param url Page URL
+   * @returns True if the host is a skipped domain or one of its subdomains
+   */
+  isSkipped(url: string): boolean {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    return this._config.skipDomains.some(domain => host === domain.toLowerCase() || host.endsWith(`.${domain.toLowerCase()}`));
+  }
+
+  /**
+   * Ask to fetch a page, waiting for the host's crawl delay if needed
+   * The request counts against the host's rate limit once it is allowed
+   * @param url Page URL
+   * @returns Whether the page may be fetched now, or why not
+   */
+  async requestFetch(url: string): Promise<PolicyDecision> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'invalid-url';
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return 'invalid-url';
+    }
+
+    if (this.isSkipped(url)) {
+      return 'skipped';
+    }
+
+    const robots = await this.getRobotsRules(parsed.origin);
+    if (!isPathAllowed(robots, `${parsed.pathname}${parsed.search}`)) {
+      return 'disallowed';
+    }
+
+    const crawlDelaySeconds = Math.min(
+      robots.crawlDelaySeconds ?? this._config.defaultCrawlDelaySeconds,
+      this._config.maxCrawlDelaySeconds
+    );
+    const wait = this.reserveSlot(parsed.hostname.toLowerCase(), crawlDelaySeconds * 1000);
+    if (wait === null) {
+      return 'rate-limited';
+    }
+
+    if (wait > 0) {
+      await this.sleep(wait);
+    }
+    return 'allowed';
+  }
+
+  /**
+   * Get the robots.txt rules of a site for our user agent
+   * Rules are cached per origin, and concurrent lookups share one request
+   * @param origin Site origin (e.g. "https://example.com")
+   * @returns Rules that apply to our user agent
+   */
+  async getRobotsRules(origin: string): Promise<RobotsRules> {
+    const cached = this._robots.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots;
+    }
+
+    let request = this._robotsRequests.get(origin);
+    if (!request) {
+      request = this.fetchRobots(origin).finally(() => this._robotsRequests.delete(origin));
+      this._robotsRequests.set(origin, request);
+    }
+    return request;
+  }
+
+  /**
+   * Get the policy settings in use
+   * @returns Policy config
+   */
+  getConfig(): PublisherPolicyConfig {
+    return this._config;
+  }
+
+  /**
+   * Download and parse a site's robots.txt
+   * A missing robots.txt (4xx) allows everything. An unreachable one (5xx or
+   * network error) disallows everything until it is retried, as RFC 9309 requires
+   * @param origin Site origin
+   * @returns Rules that apply to our user agent
+   */
+  private async fetchRobots(origin: string): Promise<RobotsRules> {
+    let robots: RobotsRules;
+    let cacheMs = this._config.robotsCacheHours * 60 * 60 * 1000;
+
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this._config.userAgent },
+        timeout: 5000
+      });
+
+      if (response.ok) {
+        robots = parseRobotsTxt(await response.text(), this._config.userAgent);
+      } else if (response.status >= 400 && response.status < 500) {
+        robots = { rules: [] };
+      } else {
+        robots = DISALLOW_ALL;
+        cacheMs = Math.min(cacheMs, UNREACHABLE_ROBOTS_CACHE_MS);
+      }
+    } catch (error) {
+      console.warn(`Error fetching robots.txt for ${origin}: ${error}`);
+      robots = DISALLOW_ALL;
+      cacheMs = Math.min(cacheMs, UNREACHABLE_ROBOTS_CACHE_MS);
+    }
+
+    this._robots.set(origin, { robots, expiresAt: Date.now() + cacheMs });
+    return robots;
+  }
+
+  /**
+   * Reserve the next request slot for a host
+   * @param host Host name
+   * @param delayMs Time to leave between requests to the host
+   * @returns Milliseconds to wait for the slot, or null if that is longer than the maximum wait
+   */
+  private reserveSlot(host: string, delayMs: number): number | null {
+    const now = Date.now();
+    const slot = Math.max(now, this._nextSlots.get(host) || 0);
+    const wait = slot - now;
+
+    if (wait > this._config.maxWaitSeconds * 1000) {
+      return null;
+    }
+
+    this._nextSlots.set(host, slot + delayMs);
+    return wait;
+  }
+
+  /**
+   * Load the policy settings from a JSON file
+   * Missing settings fall back to the built-in defaults
+   * @param configPath Path of the config file
+   * @returns Policy config
+   */
+  private loadConfig(configPath: string): PublisherPolicyConfig {
+    try {
+      return { ...FALLBACK_CONFIG, ...JSON.parse(fs.readFileSync(configPath, 'utf8')) };
+    } catch (error) {
+      console.error(`Error loading publisher policy from ${configPath}, using defaults:`, error);
+      return FALLBACK_CONFIG;
+    }
+  }
+
+  /**
+   * Wait for the given number of milliseconds
+   * @param ms Milliseconds to wait
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default new PublisherPolicyService();
@@ -0,0 +1,200 @@
+import * as dotenv from 'dotenv';
+import ApiQuotaModel from '../models/ApiQuotaSchema';
+import mongoManager from '../database/MongoManager';
+import { ApiQuotaStatus, QuotaDecision } from '../types/models/apiQuota.type';
+
+dotenv.config();
+
+/**
+ * Error raised when a call is not made because its provider's quota does not allow it
+ */
+export class QuotaExceededError extends Error {
+  provider: string;
+  decision: QuotaDecision;
+
+  constructor(provider: string, decision: QuotaDecision) {
+    super(`${provider} quota ${decision === 'refused' ? 'exhausted for today' : 'paced, deferring until next hour'}`);
+    this.provider = provider;
+    this.decision = decision;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Service for budgeting daily requests to metered APIs (NewsAPI, OpenCage)
+ * Counts are persisted per provider per UTC day so every instance shares the
+ * same budget. With pacing enabled the budget is released hour by hour, so a
+ * burst of fetches early in the day cannot use up the whole allowance
+ */
+export class QuotaService {
+  private _budgets: Map<string, number | null>;
+  private _pacingEnabled: boolean;
+  private _usage: Map<string, { date: string; count: number }> = new Map();
+
+  /**
+   * @param budgets Daily budget per provider, null for no budget (defaults to NEWSAPI_DAILY_QUOTA and OPENCAGE_DAILY_QUOTA)
+   * @param pacingEnabled Whether to release the budget hour by hour (defaults to QUOTA_PACING_ENABLED)
+   */
+  constructor(budgets?: Record<string, number | null>, pacingEnabled?: boolean) {
+    this._budgets = new Map(Object.entries(budgets || {
+      newsapi: this.readBudget('NEWSAPI_DAILY_QUOTA', 100),
+      opencage: this.readBudget('OPENCAGE_DAILY_QUOTA', 2500)
+    }));
+    this._pacingEnabled = pacingEnabled ?? process.env.QUOTA_PACING_ENABLED !== 'false';
+  }
+
+  /**
+   * Ask for quota before making a call, counting the call if it is allowed
+   * @param provider Provider name
+   * @param amount Number of requests the call will make (default: 1)
+   * @returns Whether the call is allowed, deferred to a later hour or refused for the rest of the day
+   */
+  async tryConsume(provider: string, amount: number = 1): Promise<QuotaDecision> {
+    const date = this.today();
+    const used = this.getUsed(provider, date);
+    const limit = this._budgets.get(provider) ?? null;
+    const allowance = limit !== null ? this.getAllowance(limit) : null;
+
+    if (limit !== null && used + amount > limit) {
+      return 'refused';
+    }
+    if (allowance !== null && used + amount > allowance) {
+      return 'deferred';
+    }
+
+    if (!mongoManager.isConnected()) {
+      this.setUsed(provider, date, used + amount);
+      return 'allowed';
+    }
+
+    try {
+      // Only increment while the allowance holds, so concurrent instances cannot overspend
+      const filter = allowance !== null
+        ? { provider, date, count: { $lte: allowance - amount } }
+        : { provider, date };
+      const doc = await ApiQuotaModel.findOneAndUpdate(
+        filter,
+        { $inc: { count: amount } },
+        { upsert: true, new: true }
+      ).lean();
+
+      this.setUsed(provider, date, typeof doc?.count === 'number' ? doc.count : used + amount);
+      return 'allowed';
+    } catch (error) {
+      // The conditional upsert hits the unique index when another instance used up the allowance
+      if ((error as { code?: number }).code === 11000) {
+        let count = used;
+        try {
+          const doc = await ApiQuotaModel.findOne({ provider, date }).lean();
+          count = doc ? doc.count : used;
+        } catch (readError) {
+          // Decide on the usage this instance last saw
+          console.error('Error reading API quota usage:', readError);
+        }
+        this.setUsed(provider, date, count);
+        return limit !== null && count + amount > limit ? 'refused' : 'deferred';
+      }
+
+      console.error('Error updating API quota usage:', error);
+      this.setUsed(provider, date, used + amount);
+      return 'allowed';
+    }
+  }
+
+  /**
+   * Load today's usage from the database, e.g. after a restart
+   */
+  async refresh(): Promise<void> {
+    if (!mongoManager.isConnected()) {
+      return;
+    }
+
+    try {
+      const date = this.today();
+      const docs = await ApiQuotaModel.find({ date }).lean();
+      docs.forEach(doc => this.setUsed(doc.provider, date, doc.count));
+    } catch (error) {
+      console.error('Error loading API quota usage:', error);
+    }
+  }
+
+  /**
+   * Get the remaining budget of every budgeted provider
+   * @returns Array of quota statuses
+   */
+  getStatus(): ApiQuotaStatus[] {
+    const date = this.today();
+
+    return Array.from(this._budgets.entries()).map(([provider, limit]) => {
+      const used = this.getUsed(provider, date);
+
+      return {
+        provider,
+        date,
+        used,
+        limit,
+        remaining: limit !== null ? Math.max(0, limit - used) : null,
+        allowance: limit !== null ? this.getAllowance(limit) : null
+      };
+    });
+  }
+
+  /**
+   * Calculate how many requests may have been made so far today
+   * @param limit Daily budget
+   * @returns The full budget, or the share released by the current hour when pacing is enabled
+   */
+  private getAllowance(limit: number): number {
+    if (!this._pacingEnabled) {
+      return limit;
+    }
+
+    const hour = new Date().getUTCHours();
+    return Math.min(limit, Math.ceil(limit * (hour + 1) / 24));
+  }
+
+  /**
+   * Get the known usage of a provider for a day
+   * @param provider Provider name
+   * @param date UTC day
+   * @returns Request count (0 when the stored count is for another day)
+   */
+  private getUsed(provider: string, date: string): number {
+    const usage = this._usage.get(provider);
+    return usage && usage.date === date ? usage.count : 0;
+  }
+
+  /**
+   * Remember the usage of a provider for a day
+   * @param provider Provider name
+   * @param date UTC day
+   * @param count Request count
+   */
+  private setUsed(provider: string, date: string, count: number): void {
+    this._usage.set(provider, { date, count });
+  }
+
+  /**
+   * Get the current UTC day
+   * @returns Date in YYYY-MM-DD format
+   */
+  private today(): string {
+    return new Date().toISOString().substring(0, 10);
+  }
+
+  /**
+   * Read a daily budget from an environment variable
+   * @param key Variable name
+   * @param fallback Budget used when the variable is missing or invalid
+   * @returns Budget, or null when set to 0 (no budget)
+   */
+  private readBudget(key: string, fallback: number): number | null {
+    const value = Number(process.env[key]);
+    if (!process.env[key] || isNaN(value) || value < 0) {
+      return fallback;
+    }
+    return value === 0 ? null : Math.floor(value);
+  }
+}
+
+export default new QuotaService();
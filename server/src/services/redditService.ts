@@ -1,18 +1,41 @@
 import * as dotenv from 'dotenv';
-import fetch from 'node-fetch';
+import * as fs from 'fs';
+import * as path from 'path';
 import { Article, TierType } from '../types/models/article.type';
-import { RedditTokenResponse, RedditPost, RedditPostData } from '../types/services/reddit.type';
+import {
+  RedditIngestionConfig,
+  RedditPost,
+  RedditPostData,
+  RedditTimeframe,
+  RedditTokenResponse,
+  SubredditConfig
+} from '../types/services/reddit.type';
 import { LocationService } from './locationService';
 import { ArticleStore } from './articleStore';
 import { GeocodingService } from './geocodingService';
 import { geocodeArticleLocation } from '../utils/locationUtils';
+import { canonicalizeUrl } from '../utils/urlCanonicalizer';
 import MongoManager from '../database/MongoManager';
+import resilience from './resilienceService';
+import massScorer from './massScorer';
 
 // Load environment variables
 dotenv.config();
 
+// Most posts Reddit returns in one listing page
+const MAX_PAGE_SIZE = 100;
+
+// Used when the subreddits config file cannot be read
+const FALLBACK_INGESTION_CONFIG: RedditIngestionConfig = {
+  maxPages: 3,
+  subreddits: [{ name: 'news' }]
+};
+
 /**
  * Service for fetching articles from Reddit
+ * The subreddits fetched on each run, with their limits and time frames, come
+ * from data/subreddits.json. Listings longer than a page are followed with
+ * Reddit's `after` cursor, up to a maximum number of pages per subreddit
  */
 export class RedditService {
   private clientId: string;
@@ -23,50 +46,27 @@ export class RedditService {
   private locationService: LocationService;
   private articleStore: ArticleStore;
   private geocodingService: GeocodingService;
+  private _ingestionConfig: RedditIngestionConfig;
 
-  constructor() {
+  /**
+   * @param ingestionConfig Subreddits to fetch (defaults to the REDDIT_SUBREDDITS_CONFIG file, or data/subreddits.json)
+   */
+  constructor(ingestionConfig?: RedditIngestionConfig) {
     this.clientId = process.env.REDDIT_CLIENT_ID || '';
     this.clientSecret = process.env.REDDIT_CLIENT_SECRET || '';
     this.userAgent = 'OrbitalNews/1.0';
     this.locationService = new LocationService();
     this.articleStore = new ArticleStore();
     this.geocodingService = new GeocodingService();
+    this._ingestionConfig = ingestionConfig || this.loadIngestionConfig(
+      process.env.REDDIT_SUBREDDITS_CONFIG || path.join(__dirname, '../data/subreddits.json')
+    );
     
     if (!this.clientId || !this.clientSecret) {
       console.warn('Reddit API credentials not found in environment variables');
     }
-    
-    // Initialize and check for today's articles, but only if not in a test environment
-    const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
-    if (!isTestEnvironment) {
-      this.checkForTodaysArticles();
-    }
   }
   
-  /**
-   * Check for articles and fetch them regardless of whether we have today's articles
-   * This allows the service to fetch new articles every hour
-   */
-  private async checkForTodaysArticles(): Promise<void> {
-    try {
-      // Get count of today's articles for logging purposes
-      const todayCount = await this.articleStore.getTodaysArticleCount('reddit');
-      
-      if (todayCount > 0) {
-        console.debug(`Found ${todayCount} Reddit articles for today, will still check for new ones`);
-      }
-      
-      // Always fetch articles to get the latest ones with forceFetch=true
-      // This ensures we bypass the stored articles check and get fresh data
-      // The articleStore will handle duplicates
-      this.fetchArticles('news', 30, 'day', true, true).catch(err => {
-        console.error('Error fetching Reddit articles:', err);
-      });
-    } catch (error: unknown) {
-      console.error('Error checking for articles:', error);
-    }
-  }
-
   /**
    * Get an OAuth access token for the Reddit API
    * @returns Access token
@@ -88,7 +88,7 @@ export class RedditService {
       const authString = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
       
       // Make request to Reddit API
-      const response = await fetch('https://www.reddit.com/api/v1/access_token', {
+      const response = await resilience.fetch('reddit', 'https://www.reddit.com/api/v1/access_token', {
         method: 'POST',
         headers: {
           'Authorization': `Basic ${authString}`,
@@ -115,6 +115,14 @@ export class RedditService {
     }
   }
 
+  /**
+   * Get the configured subreddits
+   * @returns Subreddits fetched by the Reddit source
+   */
+  getSubreddits(): SubredditConfig[] {
+    return this._ingestionConfig.subreddits.map(subreddit => ({ ...subreddit }));
+  }
+
   /**
    * Fetch articles from Reddit
    * @param subreddit Subreddit to fetch from (default: 'news')
@@ -127,56 +135,80 @@ export class RedditService {
   async fetchArticles(subreddit: string | string[] = 'news', limit: number = 10, timeframe: string = 'day', useStore: boolean = true, forceFetch: boolean = false): Promise<Article[]> {
     // Try to get stored articles first if requested and MongoDB is connected
     // Skip this check if forceFetch is true
-    if (useStore && !forceFetch && MongoManager.isConnected()) {
-      try {
-        const storedArticles = await this.articleStore.getArticles({
-          source: 'reddit',
-          limit: limit,
-          daysBack: timeframe === 'day' ? 1 : (timeframe === 'week' ? 7 : 30)
-        });
-        
-        if (storedArticles.length > 0) {
-          return storedArticles;
-        }
-      } catch (error) {
-        // Continue with API fetch if store retrieval fails
+    if (useStore && !forceFetch) {
+      const storedArticles = await this.getStoredArticles(limit, timeframe);
+      if (storedArticles.length > 0) {
+        return storedArticles;
+      }
+    }
+
+    const subredditsToFetch = Array.isArray(subreddit) ? subreddit : [subreddit];
+    return this.fetchFromApi(subredditsToFetch.map(name => ({ name, limit, timeframe: timeframe as RedditTimeframe })));
+  }
+
+  /**
+   * Fetch articles from several subreddits, each with its own limit and time frame
+   * @param subreddits Subreddits to fetch (defaults to the configured subreddits)
+   * @param defaultLimit Number of articles for subreddits without a limit (default: 50)
+   * @param forceFetch Whether to force fetching from API even if stored articles exist (default: true)
+   * @returns Promise with array of articles
+   */
+  async fetchSubreddits(subreddits?: SubredditConfig[], defaultLimit: number = 50, forceFetch: boolean = true): Promise<Article[]> {
+    if (!forceFetch) {
+      const storedArticles = await this.getStoredArticles(defaultLimit, 'day');
+      if (storedArticles.length > 0) {
+        return storedArticles;
       }
     }
 
+    return this.fetchFromApi((subreddits || this._ingestionConfig.subreddits).map(subreddit => ({
+      name: subreddit.name,
+      limit: subreddit.limit || defaultLimit,
+      timeframe: subreddit.timeframe || 'day'
+    })));
+  }
+
+  /**
+   * Get stored Reddit articles instead of calling the API
+   * @param limit Number of articles to get
+   * @param timeframe Time frame the articles must be from
+   * @returns Stored articles, or an empty array if there are none or MongoDB is not connected
+   */
+  private async getStoredArticles(limit: number, timeframe: string): Promise<Article[]> {
+    if (!MongoManager.isConnected()) {
+      return [];
+    }
+
+    try {
+      return await this.articleStore.getArticles({
+        source: 'reddit',
+        limit: limit,
+        daysBack: timeframe === 'day' ? 1 : (timeframe === 'week' ? 7 : 30)
+      });
+    } catch (error) {
+      // Continue with API fetch if store retrieval fails
+      return [];
+    }
+  }
+
+  /**
+   * Fetch, transform and store the top posts of several subreddits
+   * @param subreddits Subreddits with their limits and time frames
+   * @returns Promise with array of articles
+   */
+  private async fetchFromApi(subreddits: Required<SubredditConfig>[]): Promise<Article[]> {
     try {
       console.info(`Fetching articles from Reddit API...`);
       // Get access token
       const token = await this.getAccessToken();
-      
-      let allArticles: Article[] = [];
-      const subredditsToFetch = Array.isArray(subreddit) ? subreddit : [subreddit];
 
       // Create fetch promises for each subreddit
-      const fetchPromises = subredditsToFetch.map(async (sub) => {
+      const fetchPromises = subreddits.map(async (subreddit) => {
         try {
-          const response = await fetch(
-            `https://oauth.reddit.com/r/${sub}/top.json?limit=${limit}&t=${timeframe}`,
-            {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-                'User-Agent': this.userAgent
-              }
-            }
-          );
-
-          if (!response.ok) {
-            console.warn(`Reddit API error for r/${sub}: ${response.status} ${response.statusText}`);
-            return []; // Return empty array for this failed subreddit fetch
-          }
-
-          const data = await response.json() as RedditPostData;
-          const articlePromises = data.data.children.map(post => 
-            this.transformRedditPost(post.data)
-          );
-          return await Promise.all(articlePromises);
+          const posts = await this.fetchListing(token, subreddit);
+          return await Promise.all(posts.map(post => this.transformRedditPost(post, subreddit.name)));
         } catch (err) {
-          console.warn(`Failed to fetch or process articles from r/${sub}:`, err);
+          console.warn(`Failed to fetch or process articles from r/${subreddit.name}:`, err);
           return []; // Return empty array on error for this subreddit
         }
       });
@@ -185,17 +217,12 @@ export class RedditService {
       const results = await Promise.all(fetchPromises);
       
       // Flatten the results into a single array of articles
-      allArticles = results.flat();
+      const allArticles = results.flat();
       
       // Only log if not in a test environment
       const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID;
       if (!isTestEnvironment) {
-        console.info(`Fetched ${allArticles.length} articles from Reddit API`);
-      }
-      
-      // Store the fetched articles if MongoDB is connected
-      if (MongoManager.isConnected()) {
-        await this.articleStore.storeArticles(allArticles);
+        console.info(`Fetched ${allArticles.length} articles from ${subreddits.length} subreddits`);
       }
       
       return allArticles;
@@ -208,16 +235,72 @@ export class RedditService {
     }
   }
 
+  /**
+   * Fetch the top posts of a subreddit, following the `after` cursor across pages
+   * Stops at the subreddit's limit, the end of the listing or the maximum number of pages
+   * @param token OAuth access token
+   * @param subreddit Subreddit with its limit and time frame
+   * @returns Posts in listing order
+   */
+  private async fetchListing(token: string, subreddit: Required<SubredditConfig>): Promise<RedditPost[]> {
+    const posts: RedditPost[] = [];
+    let after: string | null = null;
+
+    for (let page = 0; page < this._ingestionConfig.maxPages && posts.length < subreddit.limit; page++) {
+      const params = new URLSearchParams({
+        limit: String(Math.min(MAX_PAGE_SIZE, subreddit.limit - posts.length)),
+        t: subreddit.timeframe
+      });
+      if (after) {
+        params.set('after', after);
+      }
+
+      const response = await resilience.fetch(
+        'reddit',
+        `https://oauth.reddit.com/r/${subreddit.name}/top.json?${params.toString()}`,
+        {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'User-Agent': this.userAgent
+          }
+        }
+      );
+
+      if (!response.ok) {
+        console.warn(`Reddit API error for r/${subreddit.name}: ${response.status} ${response.statusText}`);
+        break; // Keep the pages fetched so far
+      }
+
+      const data = await response.json() as RedditPostData;
+      posts.push(...data.data.children.map(child => child.data));
+
+      after = data.data.after;
+      if (!after) {
+        break;
+      }
+    }
+
+    return posts.slice(0, subreddit.limit);
+  }
+
   /**
    * Transform a Reddit post into our Article format
    * @param post Reddit post data
+   * @param subreddit Subreddit the post was fetched from
    * @returns Article object
    */
-  private async transformRedditPost(post: RedditPost): Promise<Article> {
-    // Calculate a "mass" based on score and number of comments
-    const mass = (post.score + (post.num_comments * 2)) * 1000;
-    const cappedMass = Math.max(10000, Math.min(500000, mass)); // Limit mass between 10k and 500k
-    
+  private async transformRedditPost(post: RedditPost, subreddit: string): Promise<Article> {
+    const mass = massScorer.calculateMass({
+      source: 'reddit',
+      url: post.url,
+      title: post.title,
+      content: post.selftext,
+      engagement: { score: post.score, comments: post.num_comments },
+      hasImage: Boolean(this.getPostImage(post)),
+      publishedAt: new Date(post.created_utc * 1000).toISOString()
+    });
+
     // Default location from post flair
     const location = post.link_flair_text || '';
 
@@ -233,8 +316,14 @@ export class RedditService {
       ...(post.selftext ? { content: post.selftext } : {}),
       source: 'reddit',
       sourceUrl: post.url,
+      // Link posts point at the publisher, so the same story from NewsAPI matches this URL
+      canonicalUrl: canonicalizeUrl(post.url),
+      // Without a preview, the linked page's Open Graph image is used
+      ...this.getPostImage(post),
       author: post.author,
       publishedAt: new Date(post.created_utc * 1000).toISOString(),
+      // Prefixed so subreddits don't collide with topic tags (r/politics vs politics)
+      tags: [`r/${(post.subreddit || subreddit).toLowerCase()}`],
       // Initialize with a default location that includes mandatory fields
       // This will be replaced with actual geocoded data later if available
       location: {
@@ -243,7 +332,7 @@ export class RedditService {
         longitude: 0, // Default coordinates (will be replaced if geocoding succeeds)
         zipCode: defaultZipCode
       },
-      mass: cappedMass
+      mass
     };
 
     // Use the helper function to geocode the article location
@@ -261,6 +350,30 @@ export class RedditService {
     
     return article;
   }
+  /**
+   * Get the lead image of a Reddit post
+   * The full-size preview is preferred over the small thumbnail
+   * @param post Reddit post data
+   * @returns Image URL and size, or undefined if the post has no image
+   */
+  private getPostImage(post: RedditPost): Pick<Article, 'imageUrl' | 'imageWidth' | 'imageHeight'> | undefined {
+    const source = post.preview?.images?.[0]?.source;
+    if (source?.url) {
+      // Reddit escapes the ampersands of preview URLs
+      return { imageUrl: source.url.replace(/&amp;/g, '&'), imageWidth: source.width, imageHeight: source.height };
+    }
+
+    if (post.thumbnail && /^https?:\/\//.test(post.thumbnail)) {
+      return {
+        imageUrl: post.thumbnail,
+        imageWidth: post.thumbnail_width || undefined,
+        imageHeight: post.thumbnail_height || undefined
+      };
+    }
+
+    return undefined;
+  }
+
 
   /**
    * Handle case when Reddit API credentials are not available
@@ -271,6 +384,26 @@ export class RedditService {
     return [];
   }
   
+  /**
+   * Load the subreddits to fetch from a JSON file
+   * @param configPath Path of the config file
+   * @returns Ingestion config, or r/news only if the file cannot be read
+   */
+  private loadIngestionConfig(configPath: string): RedditIngestionConfig {
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<RedditIngestionConfig>;
+      return {
+        maxPages: fileConfig.maxPages || FALLBACK_INGESTION_CONFIG.maxPages,
+        subreddits: fileConfig.subreddits && fileConfig.subreddits.length > 0
+          ? fileConfig.subreddits
+          : FALLBACK_INGESTION_CONFIG.subreddits
+      };
+    } catch (error) {
+      console.error(`Error loading subreddits from ${configPath}, fetching r/news only:`, error);
+      return FALLBACK_INGESTION_CONFIG;
+    }
+  }
+  
   /**
    * Determine tier based on article mass
    * This is used for dynamic tier calculation, not for storage
@@ -0,0 +1,383 @@
+import * as dotenv from 'dotenv';
+import fetch, { RequestInit, Response } from 'node-fetch';
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitState,
+  RetryOptions
+} from '../types/services/resilience.type';
+
+dotenv.config();
+
+/**
+ * Error raised for an HTTP response that should be retried (429 or 5xx)
+ */
+export class HttpStatusError extends Error {
+  statusCode: number;
+  retryAfterMs: number | null;
+
+  constructor(message: string, statusCode: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Error raised when a call is rejected because its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  circuit: string;
+
+  constructor(circuit: string) {
+    super(`Circuit '${circuit}' is open, skipping call`);
+    this.circuit = circuit;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Circuit breaker for a single upstream API
+ * Opens after a run of consecutive failures and lets a single trial call
+ * through once the reset timeout has passed
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private _options: CircuitBreakerOptions;
+  private _state: CircuitState = 'closed';
+  private _failures: number = 0;
+  private _openedAt: number | null = null;
+  private _trialInFlight: boolean = false;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this._options = options;
+  }
+
+  /**
+   * Get the current state, moving an open circuit to half-open once the reset timeout has passed
+   * @returns Circuit state
+   */
+  getState(): CircuitState {
+    if (this._state === 'open' && this._openedAt !== null && Date.now() - this._openedAt >= this._options.resetTimeoutMs) {
+      this._state = 'half_open';
+    }
+    return this._state;
+  }
+
+  /**
+   * Check whether a call may go through, reserving the trial call when half-open
+   * @returns True if the call is allowed
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+
+    if (state === 'closed') {
+      return true;
+    }
+
+    if (state === 'half_open' && !this._trialInFlight) {
+      this._trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a successful call, closing the circuit
+   */
+  recordSuccess(): void {
+    this._state = 'closed';
+    this._failures = 0;
+    this._openedAt = null;
+    this._trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call, opening the circuit once the threshold is reached
+   * A failed trial call re-opens the circuit immediately
+   */
+  recordFailure(): void {
+    this._failures++;
+
+    if (this._state === 'half_open' || this._failures >= this._options.failureThreshold) {
+      if (this._state !== 'open') {
+        console.warn(`Circuit '${this.name}' opened after ${this._failures} consecutive failures`);
+      }
+      this._state = 'open';
+      this._openedAt = Date.now();
+    }
+
+    this._trialInFlight = false;
+  }
+
+  /**
+   * Release a trial call that ended without a success or failure (e.g. a non-retryable error)
+   */
+  release(): void {
+    this._trialInFlight = false;
+  }
+
+  /**
+   * Update the breaker thresholds
+   * @param options Thresholds to override
+   */
+  configure(options: Partial<CircuitBreakerOptions>): void {
+    this._options = { ...this._options, ...options };
+  }
+
+  /**
+   * Restore state reported by another thread's breaker for the same API
+   * @param status Circuit breaker status to restore
+   */
+  restore(status: CircuitBreakerStatus): void {
+    // A half-open circuit is restored as open and moves to half-open again on the next check
+    this._state = status.state === 'half_open' ? 'open' : status.state;
+    this._failures = status.failures;
+    this._openedAt = status.openedAt ? Date.parse(status.openedAt) : null;
+    this._trialInFlight = false;
+  }
+
+  /**
+   * Summarize the breaker for status reporting
+   * @returns Circuit breaker status
+   */
+  getStatus(): CircuitBreakerStatus {
+    const state = this.getState();
+
+    return {
+      name: this.name,
+      state,
+      failures: this._failures,
+      openedAt: this._openedAt !== null ? new Date(this._openedAt).toISOString() : null,
+      nextAttemptAt: state === 'open' && this._openedAt !== null
+        ? new Date(this._openedAt + this._options.resetTimeoutMs).toISOString()
+        : null
+    };
+  }
+}
+
+/**
+ * Shared resilience layer for outbound API calls (Reddit, NewsAPI, OpenCage)
+ * Retries transient failures with exponential backoff and jitter, honors
+ * Retry-After on 429 responses, and keeps one circuit breaker per upstream API
+ */
+export class ResilienceService {
+  private _retryOptions: RetryOptions;
+  private _breakerOptions: CircuitBreakerOptions;
+  private _breakers: Map<string, CircuitBreaker> = new Map();
+
+  /**
+   * @param retryOptions Default retry options (defaults to the RESILIENCE_* environment variables)
+   * @param breakerOptions Default circuit breaker options (defaults to the CIRCUIT_* environment variables)
+   */
+  constructor(retryOptions: Partial<RetryOptions> = {}, breakerOptions: Partial<CircuitBreakerOptions> = {}) {
+    this._retryOptions = {
+      retries: this.readNumber('RESILIENCE_MAX_RETRIES', 3),
+      baseDelayMs: this.readNumber('RESILIENCE_BASE_DELAY_MS', 500),
+      maxDelayMs: this.readNumber('RESILIENCE_MAX_DELAY_MS', 30000),
+      ...retryOptions
+    };
+    this._breakerOptions = {
+      failureThreshold: this.readNumber('CIRCUIT_FAILURE_THRESHOLD', 5),
+      resetTimeoutMs: this.readNumber('CIRCUIT_RESET_TIMEOUT_MS', 60000),
+      ...breakerOptions
+    };
+  }
+
+  /**
+   * Get the circuit breaker for an upstream API, creating it on first use
+   * @param name Circuit name (e.g. 'reddit', 'newsapi', 'opencage')
+   * @returns Circuit breaker
+   */
+  getBreaker(name: string): CircuitBreaker {
+    let breaker = this._breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, { ...this._breakerOptions });
+      this._breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Run an operation through the named circuit with retries
+   * Only transient failures (429, 5xx and network errors) are retried and
+   * counted against the circuit; other errors are thrown immediately
+   * @param name Circuit name
+   * @param operation Operation to run
+   * @param options Retry options overriding the defaults
+   * @returns Result of the operation
+   */
+  async execute<T>(name: string, operation: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+    const retryOptions = { ...this._retryOptions, ...options };
+    const breaker = this.getBreaker(name);
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        throw new CircuitOpenError(name);
+      }
+
+      try {
+        const result = await operation();
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!this.isRetryable(error)) {
+          breaker.release();
+          throw error;
+        }
+
+        breaker.recordFailure();
+
+        const delay = this.getRetryDelay(error, attempt, retryOptions);
+        if (attempt >= retryOptions.retries || delay === null) {
+          throw error;
+        }
+
+        console.warn(`Call to '${name}' failed (attempt ${attempt + 1}/${retryOptions.retries + 1}), retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Fetch a URL through the named circuit with retries
+   * 429 and 5xx responses are retried; other responses are returned to the caller
+   * @param name Circuit name
+   * @param url Request URL
+   * @param init Request options
+   * @param options Retry options overriding the defaults
+   * @returns The response
+   */
+  async fetch(name: string, url: string, init: RequestInit = {}, options: Partial<RetryOptions> = {}): Promise<Response> {
+    return this.execute(name, () => this.fetchOnce(name, url, init), options);
+  }
+
+  /**
+   * Fetch a URL once, for operations passed to execute that do more than fetch on each attempt
+   * 429 and 5xx responses are thrown as HttpStatusError so execute retries them
+   * @param name Circuit name, used in the error message
+   * @param url Request URL
+   * @param init Request options
+   * @returns The response
+   */
+  async fetchOnce(name: string, url: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(url, init);
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new HttpStatusError(
+        `${name} API error: ${response.status} ${response.statusText}`,
+        response.status,
+        this.parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Update the thresholds of a circuit breaker
+   * @param name Circuit name
+   * @param options Thresholds to override
+   */
+  configureBreaker(name: string, options: Partial<CircuitBreakerOptions>): void {
+    this.getBreaker(name).configure(options);
+  }
+
+  /**
+   * Restore circuit breaker state, e.g. from a worker thread
+   * @param statuses Circuit breaker statuses to restore
+   */
+  restore(statuses: CircuitBreakerStatus[]): void {
+    statuses.forEach(status => this.getBreaker(status.name).restore(status));
+  }
+
+  /**
+   * Get the state of every circuit breaker
+   * @returns Array of circuit breaker statuses
+   */
+  getStatus(): CircuitBreakerStatus[] {
+    return Array.from(this._breakers.values()).map(breaker => breaker.getStatus());
+  }
+
+  /**
+   * Check whether an error is a transient failure worth retrying
+   * @param error Error thrown by the operation
+   * @returns True for 429, 5xx and network errors
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!error || typeof error !== 'object') {
+      return false;
+    }
+
+    const err = error as { statusCode?: number; name?: string; code?: string; response?: { status?: { code?: number } } };
+    // opencage-api-client reports the HTTP status as error.response.status.code
+    const statusCode = err.statusCode ?? err.response?.status?.code;
+
+    if (statusCode !== undefined) {
+      return statusCode === 429 || statusCode >= 500;
+    }
+
+    return err.name === 'FetchError' || ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN'].includes(err.code || '');
+  }
+
+  /**
+   * Calculate how long to wait before the next attempt
+   * Uses the server's Retry-After when given, otherwise exponential backoff with full jitter
+   * @param error Error thrown by the operation
+   * @param attempt Zero-based attempt number
+   * @param options Retry options
+   * @returns Delay in milliseconds, or null if Retry-After exceeds the maximum delay
+   */
+  private getRetryDelay(error: unknown, attempt: number, options: RetryOptions): number | null {
+    if (error instanceof HttpStatusError && error.retryAfterMs !== null) {
+      return error.retryAfterMs <= options.maxDelayMs ? error.retryAfterMs : null;
+    }
+
+    const cap = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+    return Math.round(Math.random() * cap);
+  }
+
+  /**
+   * Parse a Retry-After header, given either in seconds or as an HTTP date
+   * @param value Header value
+   * @returns Delay in milliseconds, or null if missing or invalid
+   */
+  private parseRetryAfter(value: string | null): number | null {
+    if (!value) {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value >= 0 ? value : fallback;
+  }
+
+  /**
+   * Wait for the given number of milliseconds
+   * @param ms Milliseconds to wait
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default new ResilienceService();
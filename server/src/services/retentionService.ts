@@ -0,0 +1,277 @@
+import * as dotenv from 'dotenv';
+import cron from 'node-cron';
+import { CronExpressionParser } from 'cron-parser';
+import { FilterQuery } from 'mongoose';
+import ArticleModel, { ArticleDocument, ArticleRecord } from '../models/ArticleSchema';
+import ArchivedArticleModel, { ArchivedArticleDocument, ArchivedArticleRecord } from '../models/ArchivedArticleSchema';
+import mongoManager from '../database/MongoManager';
+import leaseService, { LeaseService } from './leaseService';
+import { toArticle } from '../utils/articleMapper';
+import {
+  ArchivePage,
+  RetentionConfig,
+  RetentionRunResult,
+  RetentionStatus
+} from '../types/services/retention.type';
+
+dotenv.config();
+
+// Lease shared with the fetch leases, so only one instance runs the retention job at a time
+const RETENTION_LEASE = 'retention';
+
+/**
+ * Service that keeps the articles collection small
+ * Articles published more than the retention period ago are moved to the
+ * articles_archive collection (or deleted) on their own schedule, and the
+ * archive can still be browsed by date range
+ */
+export class RetentionService {
+  private _config: RetentionConfig;
+  private _cronJob: cron.ScheduledTask | null = null;
+  private _isRunning: boolean = false;
+  private _lastRun: RetentionRunResult | null = null;
+  private _leaseService: LeaseService;
+
+  /**
+   * @param config Retention settings overriding the RETENTION_* environment variables
+   * @param leases Optional lease service (defaults to the shared instance)
+   */
+  constructor(config: Partial<RetentionConfig> = {}, leases?: LeaseService) {
+    this._config = {
+      enabled: process.env.RETENTION_ENABLED !== 'false',
+      retentionDays: this.readNumber('RETENTION_DAYS', 30),
+      mode: process.env.RETENTION_MODE === 'delete' ? 'delete' : 'archive',
+      schedule: process.env.RETENTION_SCHEDULE || '30 3 * * *', // Daily at 03:30
+      batchSize: this.readNumber('RETENTION_BATCH_SIZE', 500),
+      ...config
+    };
+    this._leaseService = leases || leaseService;
+  }
+
+  /**
+   * Schedule the retention job
+   * Does nothing when retention is disabled or the schedule is invalid
+   */
+  start(): void {
+    this.stop();
+
+    if (!this._config.enabled) {
+      console.info('Article retention disabled');
+      return;
+    }
+
+    if (!cron.validate(this._config.schedule)) {
+      console.error(`Invalid retention schedule: ${this._config.schedule}`);
+      return;
+    }
+
+    console.info(`Starting article retention (${this._config.mode} after ${this._config.retentionDays} days) with schedule: ${this._config.schedule}`);
+    this._cronJob = cron.schedule(this._config.schedule, async () => {
+      await this.runRetention();
+    });
+  }
+
+  /**
+   * Stop the retention job
+   */
+  stop(): void {
+    if (this._cronJob) {
+      this._cronJob.stop();
+      this._cronJob = null;
+      console.info('Article retention stopped');
+    }
+  }
+
+  /**
+   * Archive or delete every article published before the retention cutoff
+   * @returns Outcome of the run, or null if a run is already in progress, another
+   * instance holds the retention lease or MongoDB is not connected
+   */
+  async runRetention(): Promise<RetentionRunResult | null> {
+    if (this._isRunning) {
+      console.info('Article retention already in progress, skipping');
+      return null;
+    }
+
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, skipping article retention');
+      return null;
+    }
+
+    if (!(await this._leaseService.acquire(RETENTION_LEASE))) {
+      console.info('Another instance is running article retention, skipping');
+      return null;
+    }
+
+    this._isRunning = true;
+    const startedAt = new Date();
+    const cutoff = new Date(startedAt.getTime() - this._config.retentionDays * 24 * 60 * 60 * 1000);
+    const result: RetentionRunResult = {
+      startedAt,
+      finishedAt: startedAt,
+      cutoff,
+      mode: this._config.mode,
+      archived: 0,
+      deleted: 0
+    };
+
+    try {
+      // publishedAt is stored as an ISO string, which sorts chronologically
+      const query = { publishedAt: { $lt: cutoff.toISOString() } };
+
+      if (this._config.mode === 'delete') {
+        const deleteResult = await ArticleModel.deleteMany(query);
+        result.deleted = deleteResult.deletedCount || 0;
+      } else {
+        await this.archiveInBatches(query, result);
+      }
+
+      console.info(`Article retention finished: ${result.archived} archived, ${result.deleted} deleted (published before ${cutoff.toISOString()})`);
+    } catch (error) {
+      console.error('Error during article retention:', error);
+      result.errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      result.finishedAt = new Date();
+      this._lastRun = result;
+      this._isRunning = false;
+      await this._leaseService.release(RETENTION_LEASE);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a page of archived articles, newest first
+   * @param options Publication date range (from inclusive, to exclusive), source filter and pagination
+   * @returns Page of archived articles
+   */
+  async getArchivedArticles(options: {
+    from?: Date;
+    to?: Date;
+    source?: string;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<ArchivePage> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(200, Math.max(1, options.limit || 50));
+    const emptyPage: ArchivePage = { articles: [], page, limit, total: 0, pages: 0 };
+
+    if (!mongoManager.isConnected()) {
+      console.warn('MongoDB not connected, returning empty archive');
+      return emptyPage;
+    }
+
+    const query: FilterQuery<ArchivedArticleDocument> = {};
+    if (options.source) query.source = options.source;
+    if (options.from || options.to) {
+      const publishedAt: { $gte?: string; $lt?: string } = {};
+      if (options.from) publishedAt.$gte = options.from.toISOString();
+      if (options.to) publishedAt.$lt = options.to.toISOString();
+      query.publishedAt = publishedAt;
+    }
+
+    try {
+      const [docs, total] = await Promise.all([
+        ArchivedArticleModel.find(query)
+          .sort({ publishedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean<ArchivedArticleRecord[]>(),
+        ArchivedArticleModel.countDocuments(query)
+      ]);
+
+      return {
+        articles: docs.map(doc => ({ ...toArticle(doc), archivedAt: doc.archivedAt })),
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      };
+    } catch (error) {
+      console.error('Error retrieving archived articles:', error);
+      return emptyPage;
+    }
+  }
+
+  /**
+   * Get the retention settings and the outcome of the last run
+   * @returns Retention status
+   */
+  getStatus(): RetentionStatus {
+    let nextScheduledRun: string | null = null;
+
+    if (this._cronJob) {
+      try {
+        nextScheduledRun = CronExpressionParser.parse(this._config.schedule).next().toISOString();
+      } catch (error) {
+        console.error('Error calculating next retention run:', error);
+      }
+    }
+
+    return {
+      enabled: this._config.enabled,
+      mode: this._config.mode,
+      retentionDays: this._config.retentionDays,
+      schedule: this._config.schedule,
+      isScheduled: this._cronJob !== null,
+      isRunning: this._isRunning,
+      nextScheduledRun,
+      lastRun: this._lastRun
+    };
+  }
+
+  /**
+   * Copy old articles to the archive and remove them from the articles collection, a batch at a time
+   * Copies are upserted by articleId, so a batch interrupted between the copy and the
+   * delete is simply copied again on the next run
+   * @param query Filter for the articles to archive
+   * @param result Result the archived count is added to
+   */
+  private async archiveInBatches(query: FilterQuery<ArticleDocument>, result: RetentionRunResult): Promise<void> {
+    for (;;) {
+      const docs = await ArticleModel.find(query)
+        .sort({ publishedAt: 1 })
+        .limit(this._config.batchSize)
+        .lean<ArticleRecord[]>();
+
+      if (docs.length === 0) {
+        return;
+      }
+
+      const archivedAt = new Date();
+      await ArchivedArticleModel.bulkWrite<Omit<ArchivedArticleRecord, '_id' | '__v'>>(docs.map(doc => {
+        const { _id, __v, ...fields } = doc;
+        return {
+          replaceOne: {
+            filter: { articleId: fields.articleId },
+            replacement: { ...fields, archivedAt },
+            upsert: true
+          }
+        };
+      }), { ordered: false });
+
+      // An article only counts as archived once it has left the articles collection
+      const deleteResult = await ArticleModel.deleteMany({ _id: { $in: docs.map(doc => doc._id) } });
+      const moved = deleteResult.deletedCount || 0;
+      result.archived += moved;
+
+      // Stop rather than copying the same articles forever if they cannot be removed
+      if (moved === 0 || docs.length < this._config.batchSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+  }
+}
+
+export default new RetentionService();
@@ -0,0 +1,207 @@
+import * as dotenv from 'dotenv';
+import crypto from 'crypto';
+import ArticleModel, { ArticleRecord } from '../models/ArticleSchema';
+import mongoManager from '../database/MongoManager';
+import { Article } from '../types/models/article.type';
+import { jaccard, shingles, tokenize } from '../utils/textSimilarity';
+
+dotenv.config();
+
+/**
+ * Text features of an article used for comparison
+ */
+interface StoryCandidate {
+  articleId: string;
+  storyId?: string;
+  titleTokens: Set<string>;
+  contentShingles: Set<string>;
+}
+
+// Upper bound on stored articles compared against each batch
+const MAX_CANDIDATES = 1000;
+
+/**
+ * Service that groups near-duplicate articles from any source into stories
+ * Each article is compared with recently stored articles and the rest of its batch;
+ * when the title or content is similar enough it joins the matching story,
+ * otherwise it starts a new one
+ */
+export class StoryClusterService {
+  private _threshold: number;
+  private _windowHours: number;
+
+  /**
+   * @param threshold Minimum similarity (0-1) for two articles to share a story (defaults to STORY_SIMILARITY_THRESHOLD, or 0.5)
+   * @param windowHours How far back stored articles are considered (defaults to STORY_WINDOW_HOURS, or 48)
+   */
+  constructor(threshold?: number, windowHours?: number) {
+    this._threshold = threshold ?? this.readNumber('STORY_SIMILARITY_THRESHOLD', 0.5);
+    this._windowHours = windowHours ?? this.readNumber('STORY_WINDOW_HOURS', 48);
+  }
+
+  /**
+   * Set the storyId of each article
+   * An article that is already stored keeps its story
+   * @param articles Articles to assign (modified in place)
+   * @returns The same articles with storyId set
+   */
+  async assignStories(articles: Article[]): Promise<Article[]> {
+    const candidates = await this.loadCandidates();
+
+    for (const article of articles) {
+      const features = this.toCandidate(article.id, article.title, article.content);
+
+      const stored = candidates.find(candidate => candidate.articleId === article.id && candidate.storyId);
+      if (stored) {
+        article.storyId = stored.storyId;
+        continue;
+      }
+
+      const match = this.findBestMatch(features, candidates);
+      if (match) {
+        if (!match.storyId) {
+          // Articles stored before clustering existed start their story when first matched
+          match.storyId = this.createStoryId(match.articleId);
+          await this.persistStoryId(match.articleId, match.storyId);
+        }
+        article.storyId = match.storyId;
+      } else {
+        article.storyId = this.createStoryId(article.id);
+      }
+
+      features.storyId = article.storyId;
+      candidates.push(features);
+    }
+
+    const storyCount = new Set(articles.map(article => article.storyId)).size;
+    console.info(`Assigned ${articles.length} articles to ${storyCount} stories`);
+    return articles;
+  }
+
+  /**
+   * Calculate how similar two articles are
+   * Uses the higher of the title token overlap and the content shingle overlap,
+   * since link posts often have a title but no content
+   * @param a First article
+   * @param b Second article
+   * @returns Similarity between 0 and 1
+   */
+  similarity(a: Pick<Article, 'title' | 'content'>, b: Pick<Article, 'title' | 'content'>): number {
+    return this.compare(this.toCandidate('', a.title, a.content), this.toCandidate('', b.title, b.content));
+  }
+
+  /**
+   * Load recently stored articles to compare against
+   * @returns Candidates, newest first (empty when MongoDB is not connected)
+   */
+  private async loadCandidates(): Promise<StoryCandidate[]> {
+    if (!mongoManager.isConnected()) {
+      return [];
+    }
+
+    try {
+      const since = new Date(Date.now() - this._windowHours * 60 * 60 * 1000);
+      const docs = await ArticleModel.find(
+        { fetchedAt: { $gte: since } },
+        { articleId: 1, title: 1, content: 1, storyId: 1 }
+      )
+        .sort({ fetchedAt: -1 })
+        .limit(MAX_CANDIDATES)
+        .lean<Pick<ArticleRecord, 'articleId' | 'title' | 'content' | 'storyId'>[]>();
+
+      return docs.map(doc => {
+        const candidate = this.toCandidate(doc.articleId, doc.title, doc.content);
+        candidate.storyId = doc.storyId;
+        return candidate;
+      });
+    } catch (error) {
+      console.error('Error loading stored articles for story clustering:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the most similar candidate at or above the threshold
+   * @param features Article to match
+   * @param candidates Candidates to compare with
+   * @returns Best matching candidate, or undefined if none is similar enough
+   */
+  private findBestMatch(features: StoryCandidate, candidates: StoryCandidate[]): StoryCandidate | undefined {
+    let best: StoryCandidate | undefined;
+    let bestScore = 0;
+
+    for (const candidate of candidates) {
+      if (candidate.articleId === features.articleId) {
+        continue;
+      }
+
+      const score = this.compare(features, candidate);
+      if (score >= this._threshold && score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Compare the text features of two articles
+   * @param a First article
+   * @param b Second article
+   * @returns Similarity between 0 and 1
+   */
+  private compare(a: StoryCandidate, b: StoryCandidate): number {
+    return Math.max(jaccard(a.titleTokens, b.titleTokens), jaccard(a.contentShingles, b.contentShingles));
+  }
+
+  /**
+   * Extract the text features of an article
+   * @param articleId Article id
+   * @param title Article title
+   * @param content Article content
+   * @returns Candidate without a story
+   */
+  private toCandidate(articleId: string, title: string, content?: string): StoryCandidate {
+    return {
+      articleId,
+      titleTokens: new Set(tokenize(title)),
+      contentShingles: shingles(content || '')
+    };
+  }
+
+  /**
+   * Create a stable story id from the id of the article that starts the story
+   * @param articleId Article id
+   * @returns Story id
+   */
+  private createStoryId(articleId: string): string {
+    return `story-${crypto.createHash('sha1').update(articleId).digest('hex').substring(0, 16)}`;
+  }
+
+  /**
+   * Store the story id of an already stored article
+   * @param articleId Article id
+   * @param storyId Story id
+   */
+  private async persistStoryId(articleId: string, storyId: string): Promise<void> {
+    try {
+      await ArticleModel.updateOne({ articleId }, { $set: { storyId } });
+    } catch (error) {
+      console.error(`Error storing story id for article ${articleId}:`, error);
+    }
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value >= 0 ? value : fallback;
+  }
+}
+
+export default new StoryClusterService();
@@ -0,0 +1,168 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import nlp from 'compromise';
+import { Article, ArticleTopic } from '../types/models/article.type';
+import { NlpMatch, NlpTerm } from '../types/services/location.type';
+
+dotenv.config();
+
+// Only the start of long articles is classified
+const MAX_CONTENT_LENGTH = 5000;
+
+// A keyword in the title counts as much as this many keywords in the content
+const TITLE_WEIGHT = 2;
+
+// Weighted keyword hits at which a topic scores 0.5
+const HALF_SCORE_HITS = 2;
+
+/**
+ * Keyword-based topic classifier
+ * Assigns topics from a controlled vocabulary (data/topicLexicon.json) by
+ * counting lexicon keywords in the title and content. Words are compared by
+ * their compromise root form, so "elections" and "voted" match "election"
+ * and "vote"
+ */
+export class TopicClassifier {
+  private _lexicon: Map<string, string[]> = new Map();
+  private _minScore: number;
+  private _maxTopics: number;
+
+  /**
+   * @param lexicon Keywords by topic (defaults to data/topicLexicon.json)
+   * @param minScore Minimum score for a topic to be assigned (defaults to TOPIC_MIN_SCORE or 0.4)
+   * @param maxTopics Maximum number of topics per article (defaults to TOPIC_MAX_TOPICS or 3)
+   */
+  constructor(lexicon?: Record<string, string[]>, minScore?: number, maxTopics?: number) {
+    const entries = lexicon || this.loadLexicon(path.join(__dirname, '../data/topicLexicon.json'));
+    for (const [topic, keywords] of Object.entries(entries)) {
+      this._lexicon.set(topic.toLowerCase(), keywords.map(keyword => keyword.toLowerCase()));
+    }
+    this._minScore = minScore ?? this.readNumber('TOPIC_MIN_SCORE', 0.4);
+    this._maxTopics = maxTopics ?? this.readNumber('TOPIC_MAX_TOPICS', 3);
+  }
+
+  /**
+   * Get the controlled vocabulary
+   * @returns Topic names
+   */
+  getTopics(): string[] {
+    return Array.from(this._lexicon.keys());
+  }
+
+  /**
+   * Classify a text into topics
+   * @param title Article title
+   * @param content Article content
+   * @returns Topics at or above the minimum score, highest first
+   */
+  classify(title: string, content: string = ''): ArticleTopic[] {
+    const titleWords = this.toWords(title);
+    const contentWords = this.toWords(content.substring(0, MAX_CONTENT_LENGTH));
+    const topics: ArticleTopic[] = [];
+
+    for (const [name, keywords] of this._lexicon) {
+      const hits = keywords.reduce((total, keyword) =>
+        total + this.countKeyword(titleWords, keyword) * TITLE_WEIGHT + this.countKeyword(contentWords, keyword), 0);
+      const score = Math.round((hits / (hits + HALF_SCORE_HITS)) * 100) / 100;
+
+      if (hits > 0 && score >= this._minScore) {
+        topics.push({ name, score });
+      }
+    }
+
+    return topics
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this._maxTopics);
+  }
+
+  /**
+   * Classify articles and add their topics to the articles
+   * Topic names are merged into the existing tags, so the source's own tags are kept
+   * @param articles Articles to classify (updated in place)
+   * @returns The same articles
+   */
+  tagArticles(articles: Article[]): Article[] {
+    for (const article of articles) {
+      const topics = this.classify(article.title, article.content || '');
+      article.topics = topics;
+      article.tags = Array.from(new Set([...(article.tags || []), ...topics.map(topic => topic.name)]));
+    }
+
+    return articles;
+  }
+
+  /**
+   * Split text into words, each with its normal form and root form
+   * @param text Text to split
+   * @returns Normal and root form of each word, in order
+   */
+  private toWords(text: string): { normal: string[]; root: string[] } {
+    if (!text) {
+      return { normal: [], root: [] };
+    }
+
+    const doc = nlp(text);
+    doc.compute('root');
+    const terms: NlpTerm[] = doc.terms().json().map((match: NlpMatch) => match.terms[0]);
+
+    return {
+      normal: terms.map(term => term.normal || ''),
+      root: terms.map(term => term.root || term.normal || '')
+    };
+  }
+
+  /**
+   * Count the occurrences of a keyword or phrase
+   * @param words Words of the text
+   * @param keyword Keyword in root form, or a phrase of several words
+   * @returns Number of occurrences in either the normal or the root form
+   */
+  private countKeyword(words: { normal: string[]; root: string[] }, keyword: string): number {
+    const phrase = keyword.split(' ');
+    return Math.max(this.countPhrase(words.normal, phrase), this.countPhrase(words.root, phrase));
+  }
+
+  /**
+   * Count the occurrences of a phrase in a sequence of words
+   * @param words Words of the text
+   * @param phrase Words of the phrase
+   * @returns Number of occurrences
+   */
+  private countPhrase(words: string[], phrase: string[]): number {
+    let count = 0;
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      if (phrase.every((word, offset) => words[i + offset] === word)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Load the topic lexicon from a JSON file
+   * @param lexiconPath Path of the lexicon file
+   * @returns Keywords by topic, or an empty lexicon if the file cannot be read
+   */
+  private loadLexicon(lexiconPath: string): Record<string, string[]> {
+    try {
+      return JSON.parse(fs.readFileSync(lexiconPath, 'utf8'));
+    } catch (error) {
+      console.error(`Error loading topic lexicon from ${lexiconPath}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Read a numeric environment variable
+   * @param key Variable name
+   * @param fallback Value used when missing or invalid
+   * @returns Parsed number
+   */
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(process.env[key]);
+    return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+  }
+}
+
+export default new TopicClassifier();
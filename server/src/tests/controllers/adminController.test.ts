@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { getGeocodeCache, purgeGeocodeCache } from '../../controllers/adminController';
+
+// Mock the geocodeCacheService module
+jest.mock('../../services/geocodeCacheService', () => ({
+  __esModule: true,
+  default: {
+    list: jest.fn(),
+    getStats: jest.fn(),
+    purge: jest.fn()
+  }
+}));
+
+const geocodeCacheServiceMock = jest.requireMock('../../services/geocodeCacheService').default;
+
+describe('AdminController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const samplePage = {
+    entries: [{
+      query: '20001',
+      countryCode: 'us',
+      result: { coordinates: { latitude: 38.9072, longitude: -77.0369 }, zipCode: '20001', city: 'Washington' },
+      hits: 12,
+      misses: 1,
+      fetchedAt: new Date('2025-10-01T12:00:00Z'),
+      expiresAt: new Date('2025-10-31T12:00:00Z')
+    }],
+    page: 1,
+    limit: 50,
+    total: 1,
+    pages: 1
+  };
+  const sampleStats = { entries: 1, hits: 12, misses: 1, hitRate: 12 / 13 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockRequest = {
+      query: {},
+      params: {}
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getGeocodeCache', () => {
+    it('should return cached entries with the cache statistics', async () => {
+      mockRequest.query = { q: '200', page: '1', limit: '50' };
+      geocodeCacheServiceMock.list.mockResolvedValue(samplePage);
+      geocodeCacheServiceMock.getStats.mockResolvedValue(sampleStats);
+
+      await getGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(geocodeCacheServiceMock.list).toHaveBeenCalledWith({ query: '200', page: 1, limit: 50 });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: {
+          entries: samplePage.entries,
+          stats: sampleStats,
+          pagination: { page: 1, limit: 50, total: 1, pages: 1 }
+        }
+      });
+    });
+
+    it('should handle errors when listing the cache', async () => {
+      geocodeCacheServiceMock.list.mockRejectedValue(new Error('Database error'));
+      geocodeCacheServiceMock.getStats.mockResolvedValue(sampleStats);
+
+      await getGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Failed to list geocode cache',
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('purgeGeocodeCache', () => {
+    it('should purge the given query and return the number deleted', async () => {
+      mockRequest.query = { q: '20001', countryCode: 'us' };
+      geocodeCacheServiceMock.purge.mockResolvedValue(1);
+
+      await purgeGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(geocodeCacheServiceMock.purge).toHaveBeenCalledWith({ query: '20001', countryCode: 'us', expiredOnly: false });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', data: { deleted: 1 } });
+    });
+
+    it('should purge only expired entries when asked', async () => {
+      mockRequest.query = { expired: 'true' };
+      geocodeCacheServiceMock.purge.mockResolvedValue(5);
+
+      await purgeGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(geocodeCacheServiceMock.purge).toHaveBeenCalledWith({ query: undefined, countryCode: undefined, expiredOnly: true });
+    });
+
+    it('should purge every entry only with all=true', async () => {
+      mockRequest.query = { all: 'true' };
+      geocodeCacheServiceMock.purge.mockResolvedValue(40);
+
+      await purgeGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(geocodeCacheServiceMock.purge).toHaveBeenCalledWith({ query: undefined, countryCode: undefined, expiredOnly: false });
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', data: { deleted: 40 } });
+    });
+
+    it('should reject a purge without a query, expired=true or all=true', async () => {
+      mockRequest.query = {};
+
+      await purgeGeocodeCache(mockRequest as Request, mockResponse as Response);
+
+      expect(geocodeCacheServiceMock.purge).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Request, Response } from 'express';
+import { getArchivedArticles, getRetentionStatus } from '../../controllers/archiveController';
+
+// Mock the retentionService module
+jest.mock('../../services/retentionService', () => ({
+  __esModule: true,
+  default: {
+    getArchivedArticles: jest.fn(),
+    getStatus: jest.fn()
+  }
+}));
+
+const retentionServiceMock = jest.requireMock('../../services/retentionService').default;
+
+describe('ArchiveController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const samplePage = {
+    articles: [{
+      id: 'reddit-1',
+      title: 'Old article',
+      source: 'reddit',
+      publishedAt: '2025-08-01T12:00:00.000Z',
+      location: 'Boston',
+      mass: 100000,
+      archivedAt: new Date('2025-10-01T03:30:00Z')
+    }],
+    page: 1,
+    limit: 50,
+    total: 1,
+    pages: 1
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockRequest = {
+      query: {},
+      params: {}
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getArchivedArticles', () => {
+    it('should return archived articles in the date range', async () => {
+      mockRequest.query = { from: '2025-08-01', to: '2025-08-31', source: 'reddit' };
+      retentionServiceMock.getArchivedArticles.mockResolvedValue(samplePage);
+
+      await getArchivedArticles(mockRequest as Request, mockResponse as Response);
+
+      // A date-only upper bound includes that whole day
+      expect(retentionServiceMock.getArchivedArticles).toHaveBeenCalledWith({
+        from: new Date('2025-08-01T00:00:00Z'),
+        to: new Date('2025-09-01T00:00:00Z'),
+        source: 'reddit',
+        page: 1,
+        limit: 50
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: {
+          articles: samplePage.articles,
+          pagination: { page: 1, limit: 50, total: 1, pages: 1 }
+        }
+      });
+    });
+
+    it('should pass full timestamps through unchanged', async () => {
+      mockRequest.query = { to: '2025-08-31T18:00:00Z', page: '2', limit: '10' };
+      retentionServiceMock.getArchivedArticles.mockResolvedValue(samplePage);
+
+      await getArchivedArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(retentionServiceMock.getArchivedArticles).toHaveBeenCalledWith({
+        from: undefined,
+        to: new Date('2025-08-31T18:00:00Z'),
+        source: undefined,
+        page: 2,
+        limit: 10
+      });
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      mockRequest.query = { from: 'last week' };
+
+      await getArchivedArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(retentionServiceMock.getArchivedArticles).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when from is not before to', async () => {
+      mockRequest.query = { from: '2025-09-01', to: '2025-08-01' };
+
+      await getArchivedArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'fail',
+        message: 'Invalid date range: from must be before to'
+      });
+    });
+
+    it('should handle errors when fetching archived articles', async () => {
+      retentionServiceMock.getArchivedArticles.mockRejectedValue(new Error('Database error'));
+
+      await getArchivedArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Failed to fetch archived articles',
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('getRetentionStatus', () => {
+    it('should return the retention status', async () => {
+      const status = { enabled: true, mode: 'archive', retentionDays: 30, schedule: '30 3 * * *', isScheduled: true, isRunning: false, nextScheduledRun: null, lastRun: null };
+      retentionServiceMock.getStatus.mockReturnValue(status);
+
+      await getRetentionStatus(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', data: status });
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { Article } from '../../types/models/article.type';
-import { getArticles, getArticleById, getArticleFetcherStatus, triggerArticleFetch } from '../../controllers/articleController';
+import { getArticles, getArticleById, getArticleRevisions, getArticleFetcherStatus, getFetchRuns, triggerArticleFetch } from '../../controllers/articleController';
 
 // Mock the articleStore module
 jest.mock('../../services/articleStore', () => {
@@ -64,23 +64,55 @@ const mockRecordZipUsage = userZipServiceMock.recordZipUsage;
 jest.mock('../../services/articleFetcherService', () => {
   const mockFetchAndStoreArticles = jest.fn();
   const mockGetStatus = jest.fn();
+  const mockGetRuns = jest.fn();
+  const mockGetProvider = jest.fn();
+  const mockIsSourceRunning = jest.fn();
+  const mockGetLeases = jest.fn().mockResolvedValue([]);
   
   return {
     __esModule: true,
     articleFetcher: {
       fetchAndStoreArticles: mockFetchAndStoreArticles,
-      getStatus: mockGetStatus
+      getStatus: mockGetStatus,
+      getRuns: mockGetRuns,
+      getRegistry: () => ({ get: mockGetProvider }),
+      isSourceRunning: mockIsSourceRunning,
+      getLeases: mockGetLeases
     },
     // Export the mocks for direct access in tests
     mockFetchAndStoreArticles,
-    mockGetStatus
+    mockGetStatus,
+    mockGetRuns,
+    mockGetProvider,
+    mockIsSourceRunning,
+    mockGetLeases
   };
 });
 
+// Mock the articleRevisionService module
+jest.mock('../../services/articleRevisionService', () => ({
+  __esModule: true,
+  default: {
+    getRevisions: jest.fn()
+  }
+}));
+
+const mockGetRevisions = jest.requireMock('../../services/articleRevisionService').default.getRevisions;
+
+// Mock the massScorer module so effective masses do not depend on the time the test runs
+jest.mock('../../services/massScorer', () => ({
+  __esModule: true,
+  default: {
+    getEffectiveMass: jest.fn()
+  }
+}));
+
+const mockGetEffectiveMass = jest.requireMock('../../services/massScorer').default.getEffectiveMass;
+
 // Import the mocks directly
 const { mockGetArticles } = jest.requireMock('../../services/articleStore');
 const { _mockGetUserLocation, _mockCalculateDistance, _mockDetermineTierFromDistance, _mockGetDefaultUserZipCode, mockSetUserLocationByZipCode } = jest.requireMock('../../services/geocodingService');
-const { mockFetchAndStoreArticles, mockGetStatus } = jest.requireMock('../../services/articleFetcherService');
+const { mockFetchAndStoreArticles, mockGetStatus, mockGetRuns, mockGetProvider, mockIsSourceRunning, mockGetLeases } = jest.requireMock('../../services/articleFetcherService');
 
 // Set a longer timeout for all tests in this file
 jest.setTimeout(15000); // 15 seconds
@@ -130,6 +162,7 @@ describe('ArticleController', () => {
   beforeEach(() => {
     // Reset mocks before each test
     jest.clearAllMocks();
+    mockGetEffectiveMass.mockImplementation((article: Article) => article.mass);
     
     // Create mock request and response objects
     mockRequest = {
@@ -160,6 +193,7 @@ describe('ArticleController', () => {
           articles: sampleArticles.map(article => ({
             ...article,
             tier: 'far',
+            effectiveMass: article.mass,
             distance: {
               meters: 100000,
               kilometers: 100,
@@ -174,7 +208,8 @@ describe('ArticleController', () => {
         source: undefined,
         location: undefined,
         limit: 50,
-        daysBack: 7
+        daysBack: 7,
+        groupByStory: false
       });
     });
     
@@ -199,6 +234,7 @@ describe('ArticleController', () => {
           articles: [ { 
             ...sampleArticles[0], 
             tier: 'far',
+            effectiveMass: sampleArticles[0].mass,
             distance: {
               meters: 100000,
               kilometers: 100,
@@ -213,7 +249,8 @@ describe('ArticleController', () => {
         source: 'reddit',
         location: undefined,
         limit: 50,
-        daysBack: 7
+        daysBack: 7,
+        groupByStory: false
       });
     });
     
@@ -240,6 +277,7 @@ describe('ArticleController', () => {
           articles: [ { 
             ...sampleArticles[0], 
             tier: 'far',
+            effectiveMass: sampleArticles[0].mass,
             distance: {
               meters: 100000,
               kilometers: 100,
@@ -254,7 +292,8 @@ describe('ArticleController', () => {
         source: undefined,
         location: 'New York',
         limit: 20,
-        daysBack: 3
+        daysBack: 3,
+        groupByStory: false
       });
     });
     
@@ -280,7 +319,8 @@ describe('ArticleController', () => {
         source: undefined,
         location: undefined,
         limit: 50,
-        daysBack: 7
+        daysBack: 7,
+        groupByStory: false
       });
     });
     
@@ -326,6 +366,7 @@ describe('ArticleController', () => {
       const expectedArticlesWithTier = sampleArticles.map(article => ({
         ...article,
         tier: 'far', // This matches our mocked determineTierFromDistance return value
+        effectiveMass: article.mass,
         distance: {
           meters: 100000,
           kilometers: 100,
@@ -347,11 +388,82 @@ describe('ArticleController', () => {
         source: 'reddit',
         location: undefined,
         limit: 50,
-        daysBack: 7
+        daysBack: 7,
+        groupByStory: false
       });
     });
+
+    it('should return one representative per story when grouping by story', async () => {
+      mockRequest.query = {
+        groupBy: 'story'
+      };
+
+      const representative = { ...sampleArticles[0], storyId: 'story-abc', storyMemberCount: 3 };
+      mockGetArticles.mockResolvedValue([representative]);
+
+      await getArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGetArticles).toHaveBeenCalledWith(expect.objectContaining({ groupByStory: true }));
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        results: 1,
+        data: {
+          articles: [expect.objectContaining({ storyId: 'story-abc', storyMemberCount: 3, tier: 'far' })]
+        }
+      }));
+    });
+
+    it('should pass comma-separated tags to the article store', async () => {
+      mockRequest.query = {
+        tags: 'politics, climate'
+      };
+      mockGetArticles.mockResolvedValue([]);
+
+      await getArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGetArticles).toHaveBeenCalledWith(expect.objectContaining({ tags: ['politics', 'climate'] }));
+    });
+
+    it('should return the decayed effectiveMass alongside the stored mass', async () => {
+      mockGetArticles.mockResolvedValue([sampleArticles[0]]);
+      mockGetEffectiveMass.mockReturnValue(60000);
+
+      await getArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGetEffectiveMass).toHaveBeenCalledWith(expect.objectContaining({ id: 'article-1' }), expect.any(Date));
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          articles: [expect.objectContaining({ mass: 120000, effectiveMass: 60000 })]
+        }
+      }));
+    });
+
+    it('should sort by effectiveMass when requested', async () => {
+      mockRequest.query = {
+        sort: 'effectiveMass'
+      };
+
+      // article-2 has the higher stored mass but is older
+      mockGetArticles.mockResolvedValue(sampleArticles);
+      mockGetEffectiveMass.mockImplementation((article: Article) => (article.id === 'article-1' ? 100000 : 40000));
+
+      await getArticles(mockRequest as Request, mockResponse as Response);
+
+      const { articles } = (mockResponse.json as jest.Mock).mock.calls[0][0].data;
+      expect(articles.map((article: any) => article.id)).toEqual(['article-1', 'article-2']);
+    });
+
+    it('should keep the stored order when no sort is requested', async () => {
+      mockGetArticles.mockResolvedValue([sampleArticles[1], sampleArticles[0]]);
+      mockGetEffectiveMass.mockImplementation((article: Article) => (article.id === 'article-1' ? 100000 : 40000));
+
+      await getArticles(mockRequest as Request, mockResponse as Response);
+
+      const { articles } = (mockResponse.json as jest.Mock).mock.calls[0][0].data;
+      expect(articles.map((article: any) => article.id)).toEqual(['article-2', 'article-1']);
+    });
   });
-  
+
   describe('getArticleById', () => {
     it('should return a specific article by ID', async () => {
       // Set up request parameters
@@ -372,6 +484,7 @@ describe('ArticleController', () => {
       const expectedArticleWithTier = {
         ...sampleArticles[0],
         tier: 'far', // This matches our mocked determineTierFromDistance return value
+        effectiveMass: sampleArticles[0].mass,
         distance: {
           meters: 100000,
           kilometers: 100,
@@ -434,6 +547,59 @@ describe('ArticleController', () => {
     });
   });
   
+  describe('getArticleRevisions', () => {
+    const sampleRevision = {
+      articleId: 'article-1',
+      previous: { title: 'Old title', content: 'Old content', location: 'New York', mass: 100000 },
+      changes: [{ field: 'title', before: 'Old title', after: 'Test Article 1' }],
+      revisedAt: new Date('2025-10-15T12:00:00Z')
+    };
+    
+    it('should return the revisions of an article', async () => {
+      mockRequest.params = { id: 'article-1' };
+      mockGetRevisions.mockResolvedValue([sampleRevision]);
+      
+      await getArticleRevisions(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockGetRevisions).toHaveBeenCalledWith('article-1', 50);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: {
+          articleId: 'article-1',
+          revisions: [sampleRevision]
+        }
+      });
+    });
+    
+    it('should return an empty history for an article that was never revised', async () => {
+      mockRequest.params = { id: 'article-1' };
+      mockGetRevisions.mockResolvedValue([]);
+      mockGetArticles.mockResolvedValue([sampleArticles[0]]);
+      
+      await getArticleRevisions(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockGetArticles).toHaveBeenCalledWith({ articleId: 'article-1', limit: 1, daysBack: 0 });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ results: 0 }));
+    });
+    
+    it('should return 404 if the article is not found', async () => {
+      mockRequest.params = { id: 'missing' };
+      mockGetRevisions.mockResolvedValue([]);
+      mockGetArticles.mockResolvedValue([]);
+      
+      await getArticleRevisions(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'fail',
+        message: 'No article found with ID: missing'
+      });
+    });
+  });
+  
   describe('getArticleFetcherStatus', () => {
     it('should return the article fetcher status', async () => {
       // Mock the getStatus method to return a status object
@@ -443,16 +609,26 @@ describe('ArticleController', () => {
         fetchCount: 5,
         lastFetchAt: new Date().toISOString()
       };
+      const mockLeases = [{
+        source: 'reddit',
+        ownerId: 'api-1',
+        isOwner: true,
+        isActive: true,
+        acquiredAt: '2025-10-15T12:00:00.000Z',
+        heartbeatAt: '2025-10-15T12:00:40.000Z',
+        expiresAt: '2025-10-15T12:02:40.000Z'
+      }];
       mockGetStatus.mockReturnValue(mockStatus);
+      mockGetLeases.mockResolvedValue(mockLeases);
       
       // Call the controller method
       await getArticleFetcherStatus(mockRequest as Request, mockResponse as Response);
       
-      // Verify that the correct response was sent
+      // Verify that the correct response was sent, including who holds each lease
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: 'success',
-        data: mockStatus
+        data: { ...mockStatus, leases: mockLeases }
       });
     });
     
@@ -475,6 +651,67 @@ describe('ArticleController', () => {
     });
   });
   
+  describe('getFetchRuns', () => {
+    const sampleRun = {
+      startedAt: new Date('2025-10-15T12:00:00Z'),
+      finishedAt: new Date('2025-10-15T12:00:30Z'),
+      durationMs: 30000,
+      status: 'success',
+      sources: [
+        { source: 'reddit', fetched: 50, geocoded: 40, stored: 40, skipped: 10, errorMessages: [], durationMs: 30000 }
+      ],
+      errorMessages: []
+    };
+    
+    it('should return a page of fetch runs with default pagination', async () => {
+      mockGetRuns.mockResolvedValue({ runs: [sampleRun], page: 1, limit: 20, total: 1, pages: 1 });
+      
+      await getFetchRuns(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockGetRuns).toHaveBeenCalledWith({ page: 1, limit: 20, source: undefined });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: {
+          runs: [sampleRun],
+          pagination: { page: 1, limit: 20, total: 1, pages: 1 }
+        }
+      });
+    });
+    
+    it('should pass page, limit and source query parameters', async () => {
+      mockRequest.query = { page: '2', limit: '5', source: 'newsapi' };
+      mockGetRuns.mockResolvedValue({ runs: [], page: 2, limit: 5, total: 3, pages: 1 });
+      
+      await getFetchRuns(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockGetRuns).toHaveBeenCalledWith({ page: 2, limit: 5, source: 'newsapi' });
+    });
+    
+    it('should fall back to defaults for invalid pagination values', async () => {
+      mockRequest.query = { page: 'abc', limit: 'xyz' };
+      mockGetRuns.mockResolvedValue({ runs: [], page: 1, limit: 20, total: 0, pages: 0 });
+      
+      await getFetchRuns(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockGetRuns).toHaveBeenCalledWith({ page: 1, limit: 20, source: undefined });
+    });
+    
+    it('should handle errors when getting fetch runs', async () => {
+      mockGetRuns.mockRejectedValue(new Error('Database error'));
+      
+      await getFetchRuns(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Failed to get article fetch runs',
+        error: 'Database error'
+      });
+    });
+  });
+  
   describe('triggerArticleFetch', () => {
     it('should trigger an article fetch', async () => {
       // Mock the getStatus method to return a status object
@@ -501,6 +738,60 @@ describe('ArticleController', () => {
       expect(mockFetchAndStoreArticles).toHaveBeenCalled();
     });
     
+    it('should trigger a fetch for a single source', async () => {
+      const mockStatus = { isRunning: false, isScheduled: true };
+      mockGetStatus.mockReturnValue(mockStatus);
+      mockGetProvider.mockReturnValue({ id: 'reddit', enabled: true });
+      mockIsSourceRunning.mockReturnValue(false);
+      mockRequest.query = { source: 'reddit' };
+      
+      await triggerArticleFetch(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockFetchAndStoreArticles).toHaveBeenCalledWith(['reddit']);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        message: 'Article fetch triggered for reddit',
+        data: mockStatus
+      });
+    });
+    
+    it('should return 404 for an unknown source', async () => {
+      mockGetProvider.mockReturnValue(undefined);
+      mockRequest.query = { source: 'myspace' };
+      
+      await triggerArticleFetch(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockFetchAndStoreArticles).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'fail',
+        message: 'Unknown news source: myspace'
+      });
+    });
+    
+    it('should return 400 for a disabled source', async () => {
+      mockGetProvider.mockReturnValue({ id: 'twitter', enabled: false });
+      mockRequest.query = { source: 'twitter' };
+      
+      await triggerArticleFetch(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockFetchAndStoreArticles).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+    
+    it('should return 409 when the source is already being fetched', async () => {
+      mockGetStatus.mockReturnValueOnce({ isRunning: true });
+      mockGetProvider.mockReturnValue({ id: 'reddit', enabled: true });
+      mockIsSourceRunning.mockReturnValueOnce(true);
+      mockRequest.query = { source: 'reddit' };
+      
+      await triggerArticleFetch(mockRequest as Request, mockResponse as Response);
+      
+      expect(mockFetchAndStoreArticles).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+    
     it('should handle errors when triggering an article fetch', async () => {
       // Mock the fetchAndStoreArticles method to throw an error
       mockFetchAndStoreArticles.mockImplementation(() => {
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { getEntityArticles, getTopEntities } from '../../controllers/entityController';
+
+// Mock the articleStore module
+jest.mock('../../services/articleStore', () => {
+  const mockGetArticles = jest.fn();
+
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+      getArticles: mockGetArticles
+    })),
+    mockGetArticles
+  };
+});
+
+// Mock the entityService module
+jest.mock('../../services/entityService', () => ({
+  __esModule: true,
+  default: {
+    getTopEntities: jest.fn()
+  }
+}));
+
+const { mockGetArticles } = jest.requireMock('../../services/articleStore');
+const entityServiceMock = jest.requireMock('../../services/entityService').default;
+
+describe('EntityController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockRequest = {
+      query: {},
+      params: {}
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn()
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getEntityArticles', () => {
+    const article = {
+      id: 'rss-1',
+      title: 'Michelle Wu announces housing plan',
+      source: 'rss',
+      publishedAt: '2025-10-15T12:00:00Z',
+      location: 'Boston',
+      mass: 100000,
+      entities: [{ name: 'Michelle Wu', type: 'person', count: 3 }]
+    };
+
+    it('should return the articles mentioning the entity', async () => {
+      mockRequest.params = { name: 'Michelle Wu' };
+      mockGetArticles.mockResolvedValue([article]);
+
+      await getEntityArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGetArticles).toHaveBeenCalledWith({ entity: 'Michelle Wu', limit: 50, daysBack: 30 });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: {
+          entity: 'Michelle Wu',
+          articles: [article]
+        }
+      });
+    });
+
+    it('should pass limit and daysBack query parameters', async () => {
+      mockRequest.params = { name: 'MBTA' };
+      mockRequest.query = { limit: '10', daysBack: 'abc' };
+      mockGetArticles.mockResolvedValue([]);
+
+      await getEntityArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGetArticles).toHaveBeenCalledWith({ entity: 'MBTA', limit: 10, daysBack: 30 });
+    });
+
+    it('should handle errors when fetching entity articles', async () => {
+      mockRequest.params = { name: 'MBTA' };
+      mockGetArticles.mockRejectedValue(new Error('Database error'));
+
+      await getEntityArticles(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Failed to fetch entity articles',
+        error: 'Database error'
+      });
+    });
+  });
+
+  describe('getTopEntities', () => {
+    const topEntities = {
+      zipCode: '02108',
+      radiusKm: 50,
+      articleCount: 12,
+      entities: [{ name: 'Michelle Wu', type: 'person', articles: 5, mentions: 9 }]
+    };
+
+    it('should return the top entities in the reader\'s area', async () => {
+      mockRequest.query = { zipCode: '02108', type: 'person' };
+      entityServiceMock.getTopEntities.mockResolvedValue(topEntities);
+
+      await getTopEntities(mockRequest as Request, mockResponse as Response);
+
+      expect(entityServiceMock.getTopEntities).toHaveBeenCalledWith({ zipCode: '02108', type: 'person', limit: 20, daysBack: 7 });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        results: 1,
+        data: topEntities
+      });
+    });
+
+    it('should return 400 for an invalid entity type', async () => {
+      mockRequest.query = { type: 'place' };
+
+      await getTopEntities(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(entityServiceMock.getTopEntities).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the ZIP code cannot be located', async () => {
+      mockRequest.query = { zipCode: '99999' };
+      entityServiceMock.getTopEntities.mockResolvedValue(null);
+
+      await getTopEntities(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'fail',
+        message: 'Could not locate ZIP code: 99999'
+      });
+    });
+
+    it('should handle errors when fetching top entities', async () => {
+      entityServiceMock.getTopEntities.mockRejectedValue(new Error('Database error'));
+
+      await getTopEntities(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'error',
+        message: 'Failed to fetch top entities',
+        error: 'Database error'
+      });
+    });
+  });
+});
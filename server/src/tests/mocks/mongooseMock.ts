@@ -82,6 +82,16 @@ class MockModel {
 
   deleteMany = jest.fn().mockResolvedValue({ deletedCount: 0 });
 
+  deleteOne = jest.fn().mockResolvedValue({ deletedCount: 0 });
+
+  updateOne = jest.fn().mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+
+  bulkWrite = jest.fn().mockImplementation((operations: any[] = []) => {
+    return Promise.resolve({ upsertedCount: operations.length, matchedCount: 0, modifiedCount: 0 });
+  });
+
+  aggregate = jest.fn().mockResolvedValue([]);
+
   create = jest.fn().mockImplementation((doc) => {
     const newDoc = {
       ...doc,
@@ -4,12 +4,24 @@ jest.mock('mongoose', () => mongooseMock);
 
 import { ArticleFetcherService } from '../../services/articleFetcherService';
 import ArticleStore from '../../services/articleStore';
+import { NewsSourceRegistry } from '../../services/newsSourceRegistry';
+import { ArticlePipeline } from '../../services/articlePipeline';
+import { ResilienceService } from '../../services/resilienceService';
+import { QuotaService } from '../../services/quotaService';
 import { Article } from '../../types/models/article.type';
+import { NewsSourceProvider } from '../../types/services/newsSource.type';
 import cron from 'node-cron';
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { FetchWorkerMessage } from '../../types/services/fetchWorker.type';
 
 // Mock the dependencies
 jest.mock('../../services/newsService');
 jest.mock('../../services/articleStore');
+jest.mock('worker_threads', () => ({
+  ...jest.requireActual('worker_threads'),
+  Worker: jest.fn()
+}));
 jest.mock('node-cron', () => ({
   schedule: jest.fn().mockReturnValue({
     stop: jest.fn()
@@ -18,9 +30,23 @@ jest.mock('node-cron', () => ({
 
 describe('ArticleFetcherService', () => {
   let articleFetcherService: ArticleFetcherService;
-  let mockNewsService: jest.Mocked<any>;
   let mockArticleStore: jest.Mocked<ArticleStore>;
   let mockCronJob: { stop: jest.Mock };
+  let registry: NewsSourceRegistry;
+  let mockFetchRunService: { recordRun: jest.Mock; getRuns: jest.Mock };
+  let mockLeaseService: { acquire: jest.Mock; release: jest.Mock; getLeases: jest.Mock; getOwnerId: jest.Mock };
+  let redditProvider: NewsSourceProvider & { fetch: jest.Mock };
+  let twitterProvider: NewsSourceProvider & { fetch: jest.Mock };
+  let washingtonPostProvider: NewsSourceProvider & { fetch: jest.Mock };
+
+  // Create a provider whose fetch method is a jest mock
+  const createProvider = (id: string, articles: Article[], storeArticles: boolean): NewsSourceProvider & { fetch: jest.Mock } => ({
+    id,
+    enabled: true,
+    defaultLimit: 50,
+    storeArticles,
+    fetch: jest.fn().mockResolvedValue(articles)
+  });
 
   // Sample articles for testing
   const redditArticles: Article[] = [
@@ -74,15 +100,18 @@ describe('ArticleFetcherService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Setup mock implementations
-    mockNewsService = {
-      fetchFromReddit: jest.fn().mockResolvedValue(redditArticles),
-      fetchFromTwitter: jest.fn().mockResolvedValue(twitterArticles),
-      fetchFromWashingtonPost: jest.fn().mockResolvedValue(washingtonPostArticles)
-    } as any;
+    // Setup mock providers
+    redditProvider = createProvider('reddit', redditArticles, true);
+    twitterProvider = createProvider('twitter', twitterArticles, false);
+    washingtonPostProvider = createProvider('washington_post', washingtonPostArticles, false);
+    
+    registry = new NewsSourceRegistry();
+    registry.register(redditProvider);
+    registry.register(twitterProvider);
+    registry.register(washingtonPostProvider);
 
     mockArticleStore = {
-      storeArticles: jest.fn().mockResolvedValue(redditArticles.length),
+      storeArticles: jest.fn().mockResolvedValue({ inserted: redditArticles.length, updated: 0, unchanged: 0, failed: 0, errors: [] }),
       getTodaysArticleCount: jest.fn().mockResolvedValue(0),
       getArticles: jest.fn().mockResolvedValue([])
     } as any;
@@ -92,156 +121,328 @@ describe('ArticleFetcherService', () => {
     };
 
     // Create service instance with mocked dependencies
-    articleFetcherService = new ArticleFetcherService();
-    (articleFetcherService as any).newsService = mockNewsService;
-    (articleFetcherService as any).articleStore = mockArticleStore;
+    articleFetcherService = new ArticleFetcherService(registry);
+    (articleFetcherService as any).pipeline = new ArticlePipeline(mockArticleStore);
+    
+    mockFetchRunService = {
+      recordRun: jest.fn().mockImplementation(async run => run),
+      getRuns: jest.fn()
+    };
+    (articleFetcherService as any).fetchRunService = mockFetchRunService;
+    (articleFetcherService as any).resilience = new ResilienceService();
+    (articleFetcherService as any).quotaService = new QuotaService({ newsapi: 100 }, false);
+    
+    mockLeaseService = {
+      acquire: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+      getLeases: jest.fn().mockResolvedValue([]),
+      getOwnerId: jest.fn().mockReturnValue('test-instance')
+    };
+    (articleFetcherService as any).leaseService = mockLeaseService;
   });
 
   describe('start', () => {
-    it('should start the article fetcher with the provided schedule', () => {
+    it('should schedule every enabled provider with the provided default schedule', () => {
       articleFetcherService.start('0 * * * *');
+      expect(cron.schedule).toHaveBeenCalledTimes(3);
       expect(cron.schedule).toHaveBeenCalledWith('0 * * * *', expect.any(Function));
+      expect((articleFetcherService as any).cronJobs.size).toBe(3);
     });
 
-    it('should stop the previous job if one is already running', () => {
-      (articleFetcherService as any).cronJob = mockCronJob;
+    it('should use a provider schedule when one is configured', () => {
+      redditProvider.schedule = '*/15 * * * *';
+      registry.setEnabled('twitter', false);
+
+      articleFetcherService.start('0 * * * *');
+
+      expect(cron.schedule).toHaveBeenCalledTimes(2);
+      expect(cron.schedule).toHaveBeenCalledWith('*/15 * * * *', expect.any(Function));
+      expect(cron.schedule).toHaveBeenCalledWith('0 * * * *', expect.any(Function));
+    });
+
+    it('should only fetch the scheduled source when its job fires', async () => {
+      articleFetcherService.start('0 * * * *');
+      const fetchSpy = jest.spyOn(articleFetcherService, 'fetchAndStoreArticles').mockResolvedValue(null);
+      const job = (cron.schedule as jest.Mock).mock.calls[0][1];
+
+      await job();
+
+      expect(fetchSpy).toHaveBeenCalledWith(['reddit']);
+    });
+
+    it('should stop the previous jobs if already started', () => {
+      (articleFetcherService as any).cronJobs.set('reddit', mockCronJob);
       articleFetcherService.start('0 * * * *');
       expect(mockCronJob.stop).toHaveBeenCalled();
     });
   });
 
   describe('stop', () => {
-    it('should stop the cron job if one exists', () => {
-      (articleFetcherService as any).cronJob = mockCronJob;
+    it('should stop every cron job', () => {
+      (articleFetcherService as any).cronJobs.set('reddit', mockCronJob);
       articleFetcherService.stop();
       expect(mockCronJob.stop).toHaveBeenCalled();
-      expect((articleFetcherService as any).cronJob).toBeNull();
+      expect((articleFetcherService as any).cronJobs.size).toBe(0);
     });
 
     it('should do nothing if no cron job exists', () => {
-      (articleFetcherService as any).cronJob = null;
       articleFetcherService.stop();
-      expect((articleFetcherService as any).cronJob).toBeNull();
+      expect((articleFetcherService as any).cronJobs.size).toBe(0);
     });
   });
 
-  describe('fetchAndStoreArticles', () => {
-    it('should fetch articles from all sources and store only real articles', async () => {
-      // Create a spy for fetchFromSource that we can verify was called correctly
-      const fetchFromSourceSpy = jest.spyOn(articleFetcherService as any, 'fetchFromSource');
+  describe('constructor', () => {
+    it('should register the built-in providers when no registry is given', () => {
+      const defaultFetcher = new ArticleFetcherService();
+      const ids = defaultFetcher.getRegistry().getAll().map(provider => provider.id);
       
-      // Mock the implementation to match the actual code
-      fetchFromSourceSpy.mockImplementation((...args: any[]) => {
-        const source = args[0] as string;
-        if (source === 'reddit') return Promise.resolve(redditArticles);
-        if (source === 'twitter') return Promise.resolve(twitterArticles);
-        if (source === 'washington_post') return Promise.resolve(washingtonPostArticles);
-        return Promise.resolve([]);
-      });
+      expect(ids).toEqual(['reddit', 'newsapi', 'rss', 'twitter', 'washington_post']);
+    });
 
+    it('should use the provided registry', () => {
+      expect(articleFetcherService.getRegistry()).toBe(registry);
+    });
+  });
+
+  describe('fetchAndStoreArticles', () => {
+    it('should fetch articles from all providers and store only real articles', async () => {
       await articleFetcherService.fetchAndStoreArticles();
       
-      // Verify that articles were fetched from all sources
-      expect(fetchFromSourceSpy).toHaveBeenCalledWith('reddit', true);
-      expect(fetchFromSourceSpy).toHaveBeenCalledWith('twitter', false);
-      expect(fetchFromSourceSpy).toHaveBeenCalledWith('washington_post', false);
+      // Verify that articles were fetched from all providers with fresh data
+      expect(redditProvider.fetch).toHaveBeenCalledWith({ limit: 50, forceFetch: true });
+      expect(twitterProvider.fetch).toHaveBeenCalled();
+      expect(washingtonPostProvider.fetch).toHaveBeenCalled();
       
       // Only Reddit articles should be stored
       expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(redditArticles);
+      
+      // Stored articles are classified into topics first
+      const stored: Article[] = mockArticleStore.storeArticles.mock.calls[0][0];
+      stored.forEach(article => expect(article.topics).toEqual(expect.any(Array)));
     });
 
-    it('should fetch articles from all sources regardless of existing articles', async () => {
-      // Setup mocks for getTodaysArticleCount to return 5 for reddit
-      mockArticleStore.getTodaysArticleCount.mockImplementation((source: string) => {
-        return Promise.resolve(source === 'reddit' ? 5 : 0);
-      });
-      
-      // Create a spy for the original fetchFromSource method
-      const originalFetchFromSource = articleFetcherService['fetchFromSource'];
+    it('should fetch from a newly registered provider without other changes', async () => {
+      const feedArticles = redditArticles.map(article => ({ ...article, id: 'custom-1', source: 'custom' }));
+      const customProvider = createProvider('custom', feedArticles, true);
+      registry.register(customProvider);
+
+      await articleFetcherService.fetchAndStoreArticles();
+
+      expect(customProvider.fetch).toHaveBeenCalledWith({ limit: 50, forceFetch: true });
+      expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(redditArticles);
+      expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(feedArticles);
+    });
+
+    it('should skip disabled providers', async () => {
+      registry.setEnabled('twitter', false);
+
+      await articleFetcherService.fetchAndStoreArticles();
+
+      expect(twitterProvider.fetch).not.toHaveBeenCalled();
+      expect(redditProvider.fetch).toHaveBeenCalled();
+    });
+
+    it('should continue with other providers when one fails', async () => {
+      redditProvider.fetch.mockRejectedValue(new Error('API error'));
+      const feedArticles = redditArticles.map(article => ({ ...article, id: 'custom-1', source: 'custom' }));
+      registry.register(createProvider('custom', feedArticles, true));
       
-      // Create a mock implementation for fetchFromSource
-      const mockFetchFromSource = jest.fn().mockImplementation(async (source: string, _forceFetch = true) => {
-        // Return mock articles based on source
-        if (source === 'reddit') return redditArticles;
-        if (source === 'twitter') return twitterArticles;
-        if (source === 'washington_post') return washingtonPostArticles;
-        return [];
-      });
+      await articleFetcherService.fetchAndStoreArticles();
       
-      // Replace the original method with our mock
-      articleFetcherService['fetchFromSource'] = mockFetchFromSource;
-
-      try {
-        // Reset the storeArticles mock before running the test
-        mockArticleStore.storeArticles.mockReset();
-        
-        await articleFetcherService.fetchAndStoreArticles();
-        
-        // Verify that our mock was called with the expected arguments
-        // In the actual implementation, we now pass forceFetch=true for Reddit
-        // to ensure we always get fresh articles
-        expect(mockFetchFromSource).toHaveBeenCalledWith('reddit', true);
-        expect(mockFetchFromSource).toHaveBeenCalledWith('twitter', false);
-        expect(mockFetchFromSource).toHaveBeenCalledWith('washington_post', false);
-        
-        // Check if storeArticles was called
-        // With our changes, it will be called with the redditArticles
-        expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(redditArticles);
-      } finally {
-        // Restore the original method
-        articleFetcherService['fetchFromSource'] = originalFetchFromSource;
-      }
-    });
-
-    it('should handle errors when fetching articles', async () => {
-      // Save the original fetchFromSource method
-      const originalFetchFromSource = articleFetcherService['fetchFromSource'];
+      // The failing provider contributes no articles, the others are still stored
+      expect(twitterProvider.fetch).toHaveBeenCalled();
+      expect(mockArticleStore.storeArticles).toHaveBeenCalledTimes(1);
+      expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(feedArticles);
       
-      // Create a mock implementation that simulates an error with reddit
-      const mockFetchFromSource = jest.fn().mockImplementation(async (source: string, _checkForExisting = true) => {
-        if (source === 'reddit') {
-          throw new Error('API error');
-        }
-        
-        // Otherwise return the mock articles
-        if (source === 'twitter') return twitterArticles;
-        if (source === 'washington_post') return washingtonPostArticles;
-        return [];
+      // Verify the running sources were cleared in the finally block
+      expect(articleFetcherService.isSourceRunning('reddit')).toBe(false);
+    });
+
+    it('should not store anything when all real providers fail', async () => {
+      redditProvider.fetch.mockRejectedValue(new Error('API error'));
+
+      await articleFetcherService.fetchAndStoreArticles();
+
+      expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
+    });
+
+    it('should record a run with per-source outcomes', async () => {
+      const unlocatedArticle = { ...redditArticles[0], id: 'reddit-2', location: '' };
+      redditProvider.fetch.mockResolvedValue([...redditArticles, unlocatedArticle]);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(mockFetchRunService.recordRun).toHaveBeenCalledWith(run);
+      expect(run).toMatchObject({
+        status: 'success',
+        errorMessages: [],
+        sources: [
+          { source: 'reddit', fetched: 2, geocoded: 1, stored: 1, inserted: 1, updated: 0, unchanged: 0, failed: 0, skipped: 1, errorMessages: [] },
+          { source: 'twitter', fetched: 1, geocoded: 0, stored: 0, skipped: 1, errorMessages: [] },
+          { source: 'washington_post', fetched: 1, geocoded: 0, stored: 0, skipped: 1, errorMessages: [] }
+        ]
       });
-      
-      // Replace the original method with our mock
-      articleFetcherService['fetchFromSource'] = mockFetchFromSource;
-      
-      try {
-        // Reset the storeArticles mock before running the test
-        mockArticleStore.storeArticles.mockReset();
-        
-        // Execute the method
-        await articleFetcherService.fetchAndStoreArticles();
-        
-        // Verify that our mock was called only with 'reddit' and forceFetch=true
-        // The method catches errors and won't continue to other sources if reddit fails
-        expect(mockFetchFromSource).toHaveBeenCalledWith('reddit', true);
-        
-        // Make sure storeArticles was not called since there was an error
-        expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
-        
-        // Verify the isRunning flag was reset in the finally block
-        expect(articleFetcherService['isRunning']).toBe(false);
-      } finally {
-        // Restore the original method
-        articleFetcherService['fetchFromSource'] = originalFetchFromSource;
-      }
+      expect(run!.finishedAt.getTime()).toBeGreaterThanOrEqual(run!.startedAt.getTime());
+    });
+
+    it('should not geocode articles whose location is unknown', async () => {
+      const geocodeLocation = jest.spyOn((articleFetcherService as any).pipeline.geocodingService, 'geocodeLocation');
+      redditProvider.fetch.mockResolvedValue([{ ...redditArticles[0], location: 'Unknown' }]);
+
+      const run = await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(geocodeLocation).not.toHaveBeenCalled();
+      expect(run!.sources[0]).toMatchObject({ fetched: 1, geocoded: 0, skipped: 1 });
+    });
+
+    it('should not store articles left with the placeholder location at 0,0', async () => {
+      const geocodeLocation = jest.spyOn((articleFetcherService as any).pipeline.geocodingService, 'geocodeLocation');
+      redditProvider.fetch.mockResolvedValue([{ ...redditArticles[0], location: { location: '', latitude: 0, longitude: 0, zipCode: '00000' } }]);
+
+      const run = await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(geocodeLocation).not.toHaveBeenCalled();
+      expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
+      expect(run!.sources[0]).toMatchObject({ fetched: 1, geocoded: 0, skipped: 1 });
+    });
+
+    it('should geocode a named location left at 0,0', async () => {
+      const geocodeLocation = jest.spyOn((articleFetcherService as any).pipeline.geocodingService, 'geocodeLocation')
+        .mockResolvedValue({ coordinates: { latitude: 42.3601, longitude: -71.0589 }, zipCode: '02108' });
+      redditProvider.fetch.mockResolvedValue([{ ...redditArticles[0], location: { location: 'Boston', latitude: 0, longitude: 0, zipCode: '00000' } }]);
+
+      await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(geocodeLocation).toHaveBeenCalledWith('Boston');
+      expect(mockArticleStore.storeArticles).toHaveBeenCalledWith([
+        expect.objectContaining({ location: { location: 'Boston', latitude: 42.3601, longitude: -71.0589, zipCode: '02108' } })
+      ]);
+    });
+
+    it('should record provider errors and mark the run as partial', async () => {
+      redditProvider.fetch.mockRejectedValue(new Error('Reddit API error: 503 Service Unavailable'));
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run!.status).toBe('partial');
+      expect(run!.sources[0]).toMatchObject({
+        source: 'reddit',
+        fetched: 0,
+        errorMessages: ['Reddit API error: 503 Service Unavailable']
+      });
+    });
+
+    it('should mark the run as failed when every provider fails', async () => {
+      registry.unregister('twitter');
+      registry.unregister('washington_post');
+      redditProvider.fetch.mockRejectedValue(new Error('API error'));
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run!.status).toBe('failed');
+    });
+
+    it('should record storage errors against the source', async () => {
+      mockArticleStore.storeArticles.mockRejectedValue(new Error('write failed'));
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run!.sources[0]).toMatchObject({ source: 'reddit', geocoded: 1, stored: 0, errorMessages: ['write failed'] });
+    });
+
+    it('should record store statistics and failed writes against the source', async () => {
+      mockArticleStore.storeArticles.mockResolvedValue({
+        inserted: 0,
+        updated: 0,
+        unchanged: 0,
+        failed: 1,
+        errors: ['E11000 duplicate key error']
+      });
+
+      const run = await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(run!.status).toBe('failed');
+      expect(run!.sources[0]).toMatchObject({
+        source: 'reddit',
+        stored: 0,
+        failed: 1,
+        errorMessages: ['E11000 duplicate key error']
+      });
+    });
+
+    it('should only fetch the requested sources', async () => {
+      const run = await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(redditProvider.fetch).toHaveBeenCalled();
+      expect(twitterProvider.fetch).not.toHaveBeenCalled();
+      expect(run!.sources.map(outcome => outcome.source)).toEqual(['reddit']);
+    });
+
+    it('should skip sources that are already being fetched', async () => {
+      (articleFetcherService as any).runningSources.add('reddit');
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(redditProvider.fetch).not.toHaveBeenCalled();
+      expect(twitterProvider.fetch).toHaveBeenCalled();
+      expect(run!.sources.map(outcome => outcome.source)).toEqual(['twitter', 'washington_post']);
+      expect(articleFetcherService.isSourceRunning('reddit')).toBe(true);
+    });
+
+    it('should skip sources whose lease is held by another instance', async () => {
+      mockLeaseService.acquire.mockImplementation(async (source: string) => source !== 'reddit');
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(redditProvider.fetch).not.toHaveBeenCalled();
+      expect(run!.sources.map(outcome => outcome.source)).toEqual(['twitter', 'washington_post']);
+      expect(articleFetcherService.isSourceRunning('reddit')).toBe(false);
+      expect(mockLeaseService.release).not.toHaveBeenCalledWith('reddit');
+    });
+
+    it('should return null when every lease is held by another instance', async () => {
+      mockLeaseService.acquire.mockResolvedValue(false);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run).toBeNull();
+      expect(mockFetchRunService.recordRun).not.toHaveBeenCalled();
+    });
+
+    it('should release each lease when its source completes', async () => {
+      await articleFetcherService.fetchAndStoreArticles(['reddit', 'twitter']);
+
+      expect(mockLeaseService.acquire).toHaveBeenCalledWith('reddit');
+      expect(mockLeaseService.release).toHaveBeenCalledWith('reddit');
+      expect(mockLeaseService.release).toHaveBeenCalledWith('twitter');
+      expect(mockLeaseService.release).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release leases when the worker fails', async () => {
+      (articleFetcherService as any).workerPath = __filename;
+      (articleFetcherService as any).workerEnabled = true;
+      (Worker as unknown as jest.Mock).mockImplementation(() => {
+        const worker = new EventEmitter();
+        setImmediate(() => worker.emit('exit', 1));
+        return worker;
+      });
+
+      await articleFetcherService.fetchAndStoreArticles(['reddit']);
+
+      expect(mockLeaseService.release).toHaveBeenCalledWith('reddit');
     });
 
     it('should not run multiple fetches simultaneously', async () => {
-      (articleFetcherService as any).isRunning = true;
+      ['reddit', 'twitter', 'washington_post'].forEach(id => (articleFetcherService as any).runningSources.add(id));
 
-      await articleFetcherService.fetchAndStoreArticles();
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run).toBeNull();
+      expect(mockFetchRunService.recordRun).not.toHaveBeenCalled();
 
-      expect(mockNewsService.fetchFromReddit).not.toHaveBeenCalled();
-      expect(mockNewsService.fetchFromTwitter).not.toHaveBeenCalled();
-      expect(mockNewsService.fetchFromWashingtonPost).not.toHaveBeenCalled();
+      expect(redditProvider.fetch).not.toHaveBeenCalled();
+      expect(twitterProvider.fetch).not.toHaveBeenCalled();
+      expect(washingtonPostProvider.fetch).not.toHaveBeenCalled();
       expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
     });
   });
@@ -249,8 +450,7 @@ describe('ArticleFetcherService', () => {
   describe('getStatus', () => {
     it('should return the current status of the article fetcher', () => {
       // Set up some state
-      (articleFetcherService as any).isRunning = true;
-      (articleFetcherService as any).cronJob = { stop: jest.fn() };
+      (articleFetcherService as any).runningSources.add('reddit');
       (articleFetcherService as any).fetchCount = 5;
       
       // Call the method
@@ -258,12 +458,173 @@ describe('ArticleFetcherService', () => {
       
       // Verify the returned status
       expect(status).toEqual({
+        instanceId: 'test-instance',
         isRunning: true,
-        isScheduled: true,
+        isScheduled: false,
         fetchCount: 5,
         lastFetchAt: null,
-        nextScheduledFetch: null
+        nextScheduledFetch: null,
+        sources: [
+          { id: 'reddit', enabled: true, defaultLimit: 50, schedule: '0 */6 * * *', storeArticles: true, isRunning: true, lastFetchAt: null, nextScheduledRun: null },
+          { id: 'twitter', enabled: true, defaultLimit: 50, schedule: '0 */6 * * *', storeArticles: false, isRunning: false, lastFetchAt: null, nextScheduledRun: null },
+          { id: 'washington_post', enabled: true, defaultLimit: 50, schedule: '0 */6 * * *', storeArticles: false, isRunning: false, lastFetchAt: null, nextScheduledRun: null }
+        ],
+        circuits: [],
+        quotas: [
+          { provider: 'newsapi', date: new Date().toISOString().substring(0, 10), used: 0, limit: 100, remaining: 100, allowance: 100 }
+        ],
+        worker: { enabled: false, activeWorkers: 0 },
+        lastRun: null
+      });
+    });
+
+    it('should report per-source schedules and the earliest next fetch', async () => {
+      redditProvider.schedule = '*/5 * * * *';
+      jest.spyOn(articleFetcherService, 'fetchAndStoreArticles').mockResolvedValue(null);
+      articleFetcherService.start('0 0 1 1 *');
+
+      const status = articleFetcherService.getStatus();
+      const reddit = status.sources.find(source => source.id === 'reddit')!;
+      const twitter = status.sources.find(source => source.id === 'twitter')!;
+
+      expect(status.isScheduled).toBe(true);
+      expect(reddit.schedule).toBe('*/5 * * * *');
+      expect(twitter.schedule).toBe('0 0 1 1 *');
+      expect(new Date(reddit.nextScheduledRun!).getTime()).toBeLessThan(new Date(twitter.nextScheduledRun!).getTime());
+      expect(status.nextScheduledFetch).toBe(reddit.nextScheduledRun);
+    });
+
+    it('should report circuit breaker state', () => {
+      const resilience = new ResilienceService({}, { failureThreshold: 1, resetTimeoutMs: 60000 });
+      resilience.getBreaker('reddit').recordFailure();
+      (articleFetcherService as any).resilience = resilience;
+
+      const status = articleFetcherService.getStatus();
+
+      expect(status.circuits).toEqual([
+        expect.objectContaining({ name: 'reddit', state: 'open', failures: 1 })
+      ]);
+    });
+
+    it('should record when each source was last fetched', async () => {
+      await articleFetcherService.fetchAndStoreArticles(['twitter']);
+
+      const status = articleFetcherService.getStatus();
+
+      expect(status.sources.find(source => source.id === 'twitter')!.lastFetchAt).not.toBeNull();
+      expect(status.sources.find(source => source.id === 'reddit')!.lastFetchAt).toBeNull();
+    });
+  });
+
+  describe('worker thread', () => {
+    const outcome = (source: string): object => ({
+      source, fetched: 2, geocoded: 2, stored: 2, skipped: 0, errorMessages: [], durationMs: 10
+    });
+
+    // Make the Worker constructor return a fake worker that sends the given messages and exits
+    const mockWorker = (messages: FetchWorkerMessage[], exitCode: number = 0): void => {
+      (Worker as unknown as jest.Mock).mockImplementation(() => {
+        const worker = new EventEmitter();
+        setImmediate(() => {
+          messages.forEach(message => worker.emit('message', message));
+          worker.emit('exit', exitCode);
+        });
+        return worker;
       });
+    };
+
+    beforeEach(() => {
+      // Point the fetcher at an existing file so the worker is considered available
+      (articleFetcherService as any).workerPath = __filename;
+      (articleFetcherService as any).workerEnabled = true;
+      (articleFetcherService as any).quotaService = { refresh: jest.fn(), getStatus: jest.fn().mockReturnValue([]) };
+    });
+
+    it('should run the pipeline in a worker and record its results', async () => {
+      mockWorker([
+        { type: 'progress', source: 'reddit', stage: 'started' },
+        { type: 'progress', source: 'reddit', stage: 'completed', outcome: outcome('reddit') as any },
+        {
+          type: 'result',
+          outcomes: [outcome('reddit'), outcome('twitter'), outcome('washington_post')] as any,
+          unavailable: [],
+          circuits: [{ name: 'opencage', state: 'open', failures: 5, openedAt: new Date().toISOString(), nextAttemptAt: null }]
+        }
+      ]);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(Worker).toHaveBeenCalledWith(__filename, {
+        workerData: {
+          sources: [{ id: 'reddit', limit: 50 }, { id: 'twitter', limit: 50 }, { id: 'washington_post', limit: 50 }],
+          circuits: []
+        }
+      });
+      expect(redditProvider.fetch).not.toHaveBeenCalled();
+      expect(run!.status).toBe('success');
+      expect(run!.sources.map(source => source.source)).toEqual(['reddit', 'twitter', 'washington_post']);
+      expect(articleFetcherService.isSourceRunning('reddit')).toBe(false);
+
+      const status = articleFetcherService.getStatus();
+      expect(status.sources[0].lastFetchAt).not.toBeNull();
+      expect(status.circuits).toEqual([expect.objectContaining({ name: 'opencage', state: 'open' })]);
+      expect(status.worker).toEqual({ enabled: true, activeWorkers: 0 });
+    });
+
+    it('should run sources the worker does not know about on the main thread', async () => {
+      mockWorker([
+        {
+          type: 'result',
+          outcomes: [outcome('twitter'), outcome('washington_post')] as any,
+          unavailable: ['reddit'],
+          circuits: []
+        }
+      ]);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(redditProvider.fetch).toHaveBeenCalled();
+      expect(twitterProvider.fetch).not.toHaveBeenCalled();
+      expect(run!.sources.map(source => source.source)).toEqual(['reddit', 'twitter', 'washington_post']);
+    });
+
+    it('should mark the run as failed when the worker fails', async () => {
+      mockWorker([{ type: 'error', message: 'MongoDB is not running' }], 0);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run!.status).toBe('failed');
+      expect(run!.errorMessages).toEqual(['MongoDB is not running']);
+      expect(articleFetcherService.isSourceRunning('reddit')).toBe(false);
+    });
+
+    it('should report a worker that exits without a result', async () => {
+      mockWorker([], 1);
+
+      const run = await articleFetcherService.fetchAndStoreArticles();
+
+      expect(run!.errorMessages).toEqual(['Fetch worker exited with code 1']);
+    });
+  });
+
+  describe('getLeases', () => {
+    it('should return leases from the lease service', async () => {
+      const leases = [{ source: 'reddit', ownerId: 'api-2', isOwner: false, isActive: true, acquiredAt: '', heartbeatAt: '', expiresAt: '' }];
+      mockLeaseService.getLeases.mockResolvedValue(leases);
+
+      await expect(articleFetcherService.getLeases()).resolves.toBe(leases);
+    });
+  });
+
+  describe('getRuns', () => {
+    it('should return recorded runs from the fetch run service', async () => {
+      const page = { runs: [], page: 2, limit: 10, total: 0, pages: 0 };
+      mockFetchRunService.getRuns.mockResolvedValue(page);
+
+      const result = await articleFetcherService.getRuns({ page: 2, limit: 10, source: 'reddit' });
+
+      expect(mockFetchRunService.getRuns).toHaveBeenCalledWith({ page: 2, limit: 10, source: 'reddit' });
+      expect(result).toBe(page);
     });
   });
 });
@@ -0,0 +1,139 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { ArticleRevisionService } from '../../services/articleRevisionService';
+import ArticleRevisionModel from '../../models/ArticleRevisionSchema';
+import mongoManager from '../../database/MongoManager';
+import { ArticleRevision } from '../../types/models/articleRevision.type';
+
+describe('ArticleRevisionService', () => {
+  let revisionService: ArticleRevisionService;
+
+  const storedArticle = {
+    _id: 'mongodb-id-1',
+    articleId: 'newsapi-1',
+    title: 'Storm expected to hit coast Friday',
+    content: 'Forecasters expect the storm to make landfall on Friday.',
+    location: 'Miami',
+    mass: 120000
+  };
+
+  const sampleRevision: ArticleRevision = {
+    articleId: 'newsapi-1',
+    previous: {
+      title: 'Storm expected to hit coast Friday',
+      content: 'Forecasters expect the storm to make landfall on Friday.',
+      location: 'Miami',
+      mass: 120000
+    },
+    changes: [{ field: 'title', before: 'Storm expected to hit coast Friday', after: 'Storm makes landfall near Miami' }],
+    revisedAt: new Date('2025-10-15T12:00:00Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+
+    revisionService = new ArticleRevisionService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildRevision', () => {
+    it('should snapshot the previous fields and diff the changed ones', () => {
+      const revision = revisionService.buildRevision(storedArticle, 'newsapi-1', {
+        title: 'Storm makes landfall near Miami',
+        content: storedArticle.content,
+        location: 'Miami',
+        mass: 180000,
+        storyId: 'story-1'
+      });
+
+      expect(revision).toEqual({
+        articleId: 'newsapi-1',
+        previous: {
+          title: storedArticle.title,
+          content: storedArticle.content,
+          location: 'Miami',
+          mass: 120000
+        },
+        changes: [
+          { field: 'title', before: storedArticle.title, after: 'Storm makes landfall near Miami' },
+          { field: 'mass', before: 120000, after: 180000 }
+        ],
+        revisedAt: expect.any(Date)
+      });
+    });
+
+    it('should compare structured locations by value', () => {
+      const location = { location: 'Miami', latitude: 25.76, longitude: -80.19 };
+      const stored = { ...storedArticle, location };
+
+      expect(revisionService.buildRevision(stored, 'newsapi-1', { title: stored.title, location: { ...location } })).toBeNull();
+      expect(revisionService.buildRevision(stored, 'newsapi-1', { location: { ...location, latitude: 25.8 } })!.changes)
+        .toEqual([{ field: 'location', before: location, after: { ...location, latitude: 25.8 } }]);
+    });
+
+    it('should not create a revision from a copy of the article from another source', () => {
+      expect(revisionService.buildRevision(storedArticle, 'reddit-abc', { title: 'Storm makes landfall near Miami' })).toBeNull();
+    });
+
+    it('should not create a revision when only the mass changed', () => {
+      expect(revisionService.buildRevision(storedArticle, 'newsapi-1', { title: storedArticle.title, mass: 999999 })).toBeNull();
+    });
+  });
+
+  describe('recordRevisions', () => {
+    it('should insert the revisions', async () => {
+      (ArticleRevisionModel.insertMany as jest.Mock) = jest.fn().mockResolvedValue([sampleRevision]);
+
+      await expect(revisionService.recordRevisions([sampleRevision])).resolves.toBe(1);
+      expect(ArticleRevisionModel.insertMany).toHaveBeenCalledWith([sampleRevision], { ordered: false });
+    });
+
+    it('should skip empty batches and missing connections', async () => {
+      (ArticleRevisionModel.insertMany as jest.Mock) = jest.fn();
+
+      await expect(revisionService.recordRevisions([])).resolves.toBe(0);
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+      await expect(revisionService.recordRevisions([sampleRevision])).resolves.toBe(0);
+
+      expect(ArticleRevisionModel.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 0 when the insert fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (ArticleRevisionModel.insertMany as jest.Mock) = jest.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(revisionService.recordRevisions([sampleRevision])).resolves.toBe(0);
+    });
+  });
+
+  describe('getRevisions', () => {
+    it('should return the revisions of an article, newest first', async () => {
+      const mockQuery = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([{ ...sampleRevision, _id: 'rev-1', __v: 0, createdAt: new Date() }])
+      };
+      (ArticleRevisionModel.find as jest.Mock) = jest.fn().mockReturnValue(mockQuery);
+
+      const revisions = await revisionService.getRevisions('newsapi-1', 10);
+
+      expect(revisions).toEqual([sampleRevision]);
+      expect(ArticleRevisionModel.find).toHaveBeenCalledWith({ articleId: 'newsapi-1' });
+      expect(mockQuery.sort).toHaveBeenCalledWith({ revisedAt: -1 });
+      expect(mockQuery.limit).toHaveBeenCalledWith(10);
+    });
+
+    it('should return an empty history when MongoDB is not connected', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+
+      await expect(revisionService.getRevisions('newsapi-1')).resolves.toEqual([]);
+    });
+  });
+});
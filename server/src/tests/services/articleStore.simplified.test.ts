@@ -73,7 +73,7 @@ describe('ArticleStore Simplified Tests', () => {
       const result = await articleStore.storeArticles([sampleArticle]);
       
       // Verify results
-      expect(result).toBe(0);
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 0, failed: 0, errors: [] });
       expect(MongoManager.isConnected).toHaveBeenCalled();
       expect(consoleWarnSpy).toHaveBeenCalledWith('MongoDB not connected, skipping article storage');
       
@@ -116,8 +116,8 @@ describe('ArticleStore Simplified Tests', () => {
   
   describe('Error Handling', () => {
     it('should handle errors when storing articles', async () => {
-      // Mock ArticleModel.findOne to throw an error
-      jest.spyOn(ArticleModel, 'findOne').mockImplementation(() => {
+      // Mock ArticleModel.find to throw an error
+      jest.spyOn(ArticleModel, 'find').mockImplementation(() => {
         throw new Error('Database error');
       });
       
@@ -128,7 +128,7 @@ describe('ArticleStore Simplified Tests', () => {
       const result = await articleStore.storeArticles([sampleArticle]);
       
       // Verify results
-      expect(result).toBe(0);
+      expect(result.failed).toBe(1);
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error storing articles:', expect.any(Error));
       
       // Restore console.error
@@ -37,6 +37,8 @@ jest.mock('../../models/ArticleSchema', () => {
     findOne: findOneMock,
     find: findMock,
     countDocuments: countDocumentsMock,
+    aggregate: jest.fn(),
+    bulkWrite: jest.fn(),
     create: jest.fn().mockResolvedValue({})
   });
   
@@ -59,6 +61,22 @@ jest.mock('../../database/MongoManager', () => ({
   }
 }));
 
+// Mock the revision history
+jest.mock('../../services/articleRevisionService', () => {
+  const { ArticleRevisionService } = jest.requireActual('../../services/articleRevisionService');
+  const actual = new ArticleRevisionService();
+  
+  return {
+    __esModule: true,
+    default: {
+      buildRevision: jest.fn((...args: unknown[]) => actual.buildRevision(...args)),
+      recordRevisions: jest.fn().mockResolvedValue(0)
+    }
+  };
+});
+
+const mockRevisionService = jest.requireMock('../../services/articleRevisionService').default;
+
 describe('ArticleStore', () => {
   let articleStore: ArticleStore;
   
@@ -76,6 +94,15 @@ describe('ArticleStore', () => {
     mass: 50000
   };
   
+  // Query used to find the stored copy of mockArticle
+  const expectedMatchQuery = {
+    $or: [
+      { articleId: { $in: [mockArticle.id] } },
+      { canonicalUrl: { $in: ['https://example.com/test'] } },
+      { sourceUrl: { $in: [mockArticle.sourceUrl] } }
+    ]
+  };
+  
   // Mock article with structured location
   const _mockArticleWithStructuredLocation: Article = {
     id: 'test-456',
@@ -128,57 +155,242 @@ describe('ArticleStore', () => {
   });
   
   describe('storeArticles', () => {
-    it('should store new articles successfully', async () => {
-      // Mock ArticleModel.findOne to return null (article doesn't exist)
-      (ArticleModel.findOne as jest.Mock).mockResolvedValue(null);
+    // Mock the lookup of stored copies
+    const mockStoredArticles = (docs: object[]) => {
+      (ArticleModel.find as jest.Mock).mockReturnValue({
+        lean: jest.fn().mockResolvedValue(docs)
+      });
+    };
+    
+    // Stored copy of mockArticle with the same fields
+    const storedMockArticle = {
+      _id: 'mongodb-id-456',
+      articleId: mockArticle.id,
+      title: mockArticle.title,
+      content: mockArticle.content,
+      canonicalUrl: 'https://example.com/test',
+      sourceUrl: mockArticle.sourceUrl,
+      location: mockArticle.location,
+      tags: mockArticle.tags,
+      mass: mockArticle.mass
+    };
+    
+    beforeEach(() => {
+      mockStoredArticles([]);
+      (ArticleModel.bulkWrite as jest.Mock).mockResolvedValue({ upsertedCount: 1, matchedCount: 0, modifiedCount: 0 });
+    });
+    
+    it('should insert new articles with an upsert', async () => {
+      // Call the method
+      const result = await articleStore.storeArticles([mockArticle]);
+      
+      // Verify results
+      expect(result).toEqual({ inserted: 1, updated: 0, unchanged: 0, failed: 0, errors: [] });
+      expect(ArticleModel.find).toHaveBeenCalledWith(expectedMatchQuery);
+      
+      const [operations, options] = (ArticleModel.bulkWrite as jest.Mock).mock.calls[0];
+      expect(options).toEqual({ ordered: false });
+      expect(operations).toEqual([{
+        updateOne: {
+          filter: { articleId: mockArticle.id },
+          update: {
+            $setOnInsert: expect.objectContaining({
+              articleId: mockArticle.id,
+              title: mockArticle.title,
+              canonicalUrl: 'https://example.com/test',
+              source: mockArticle.source,
+              fetchedAt: expect.any(Date)
+            })
+          },
+          upsert: true
+        }
+      }]);
+    });
+    
+    it('should update stored articles whose fields changed', async () => {
+      mockStoredArticles([{ ...storedMockArticle, title: 'Old Title', mass: 1000 }]);
+      (ArticleModel.bulkWrite as jest.Mock).mockResolvedValue({ upsertedCount: 0, matchedCount: 1, modifiedCount: 1 });
       
       // Call the method
       const result = await articleStore.storeArticles([mockArticle]);
       
       // Verify results
-      expect(result).toBe(1); // 1 article stored
-      expect(ArticleModel.findOne).toHaveBeenCalledWith({ $or: [{ articleId: mockArticle.id }, { sourceUrl: mockArticle.sourceUrl }] });
-      // Verify that create was called
-      expect(ArticleModel.create).toHaveBeenCalled();
+      expect(result).toEqual({ inserted: 0, updated: 1, unchanged: 0, failed: 0, errors: [] });
+      expect((ArticleModel.bulkWrite as jest.Mock).mock.calls[0][0]).toEqual([{
+        updateOne: {
+          filter: { _id: 'mongodb-id-456' },
+          update: { $set: expect.objectContaining({ title: mockArticle.title, mass: mockArticle.mass, fetchedAt: expect.any(Date) }) }
+        }
+      }]);
     });
     
-    it('should update existing articles if they are older than 24 hours', async () => {
-      // Set the fetchedAt date to be older than 24 hours
-      const oldDate = new Date();
-      oldDate.setHours(oldDate.getHours() - 25); // 25 hours ago
+    it('should record a revision of the previous fields when an update changes them', async () => {
+      mockStoredArticles([{ ...storedMockArticle, title: 'Old Title' }]);
+      (ArticleModel.bulkWrite as jest.Mock).mockResolvedValue({ upsertedCount: 0, matchedCount: 1, modifiedCount: 1 });
+      
+      // Call the method
+      await articleStore.storeArticles([mockArticle]);
+      
+      // Verify the revision keeps the old title
+      expect(mockRevisionService.recordRevisions).toHaveBeenCalledWith([{
+        articleId: mockArticle.id,
+        previous: expect.objectContaining({ title: 'Old Title', mass: mockArticle.mass }),
+        changes: [{ field: 'title', before: 'Old Title', after: mockArticle.title }],
+        revisedAt: expect.any(Date)
+      }]);
+    });
+    
+    it('should not record revisions for updates that failed', async () => {
+      mockStoredArticles([{ ...storedMockArticle, title: 'Old Title' }]);
+      (ArticleModel.bulkWrite as jest.Mock).mockRejectedValue(Object.assign(new Error('bulk write error'), {
+        result: { upsertedCount: 0, matchedCount: 0, modifiedCount: 0 },
+        writeErrors: [{ index: 0, errmsg: 'E11000 duplicate key error' }]
+      }));
+      
+      // Call the method
+      await articleStore.storeArticles([mockArticle]);
       
-      // Mock ArticleModel.findOne to return an existing article with an old fetchedAt date
-      const oldArticle = { ...sampleDbArticle, fetchedAt: oldDate };
-      (ArticleModel.findOne as jest.Mock).mockResolvedValue(oldArticle);
+      // Verify no revision was kept
+      expect(mockRevisionService.recordRevisions).toHaveBeenCalledWith([]);
+    });
+    
+    it('should skip the write when nothing changed', async () => {
+      mockStoredArticles([storedMockArticle]);
       
       // Call the method
       const result = await articleStore.storeArticles([mockArticle]);
       
       // Verify results
-      expect(result).toBe(1); // 1 article updated
-      expect(ArticleModel.findOne).toHaveBeenCalledWith({ $or: [{ articleId: mockArticle.id }, { sourceUrl: mockArticle.sourceUrl }] });
-      expect(oldArticle.save).toHaveBeenCalled();
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 1, failed: 0, errors: [] });
+      expect(ArticleModel.bulkWrite).not.toHaveBeenCalled();
     });
     
-    it('should update articles regardless of when they were last fetched', async () => {
-      // Set the fetchedAt date to be within the last 24 hours
-      const recentDate = new Date();
-      recentDate.setHours(recentDate.getHours() - 12); // 12 hours ago
+    it('should match stored articles by canonical URL', async () => {
+      mockStoredArticles([{ ...storedMockArticle, articleId: 'reddit-abc', aliasIds: [mockArticle.id] }]);
+      
+      // Call the method with a tracking/AMP variant of the URL
+      const variant = { ...mockArticle, sourceUrl: 'http://WWW.Example.com/amp/test/?utm_source=twitter&fbclid=abc' };
+      const result = await articleStore.storeArticles([variant]);
+      
+      // Verify the canonical URL is used for matching
+      expect(ArticleModel.find).toHaveBeenCalledWith({
+        $or: [
+          { articleId: { $in: [mockArticle.id] } },
+          { canonicalUrl: { $in: ['https://example.com/test'] } },
+          { sourceUrl: { $in: [variant.sourceUrl] } }
+        ]
+      });
+      expect(result.unchanged).toBe(1);
+    });
+    
+    it('should keep the row of the source that stored an article first and only merge tags from another source', async () => {
+      const redditRow = {
+        ...storedMockArticle,
+        articleId: 'reddit-abc',
+        source: 'reddit',
+        title: 'Reddit title',
+        content: 'Reddit post',
+        tags: ['r/news'],
+        mass: 1000
+      };
+      mockStoredArticles([redditRow]);
+      (ArticleModel.bulkWrite as jest.Mock).mockResolvedValue({ upsertedCount: 0, matchedCount: 1, modifiedCount: 1 });
+      const newsapiArticle = { ...mockArticle, id: 'newsapi-123', source: 'newsapi', tags: ['newsapi/us-headlines', 'r/news'] };
+      
+      // Call the method
+      await articleStore.storeArticles([newsapiArticle]);
+      
+      // Verify the Reddit fields are left alone and the NewsAPI ID is kept as an alias
+      expect((ArticleModel.bulkWrite as jest.Mock).mock.calls[0][0]).toEqual([{
+        updateOne: {
+          filter: { _id: 'mongodb-id-456' },
+          update: {
+            $addToSet: { tags: { $each: ['newsapi/us-headlines'] }, aliasIds: 'newsapi-123' },
+            $set: { fetchedAt: expect.any(Date) }
+          }
+        }
+      }]);
+      expect(mockRevisionService.recordRevisions).toHaveBeenCalledWith([]);
+    });
+    
+    it('should not write a copy from another source that adds nothing', async () => {
+      mockStoredArticles([{ ...storedMockArticle, articleId: 'reddit-abc', source: 'reddit', aliasIds: ['newsapi-123'] }]);
+      
+      // Call the method
+      const result = await articleStore.storeArticles([{ ...mockArticle, id: 'newsapi-123', source: 'newsapi' }]);
       
-      // Mock ArticleModel.findOne to return an existing article with a recent fetchedAt date
-      const recentArticle = { ...sampleDbArticle, fetchedAt: recentDate };
-      (ArticleModel.findOne as jest.Mock).mockResolvedValue(recentArticle);
+      // Verify nothing was written back and forth
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 1, failed: 0, errors: [] });
+      expect(ArticleModel.bulkWrite).not.toHaveBeenCalled();
+    });
+    
+    it('should not rewrite the tags another source merged when the owner fetches the article again', async () => {
+      mockStoredArticles([{ ...storedMockArticle, tags: ['test', 'article', 'newsapi/us-headlines'], aliasIds: ['newsapi-123'] }]);
       
       // Call the method
       const result = await articleStore.storeArticles([mockArticle]);
       
+      // Verify the owner's tags are already stored, so nothing is written
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 1, failed: 0, errors: [] });
+      expect(ArticleModel.bulkWrite).not.toHaveBeenCalled();
+    });
+    
+    it('should keep the tags another source merged when the owner updates the article', async () => {
+      mockStoredArticles([{ ...storedMockArticle, tags: ['test', 'article', 'newsapi/us-headlines'], aliasIds: ['newsapi-123'] }]);
+      (ArticleModel.bulkWrite as jest.Mock).mockResolvedValue({ upsertedCount: 0, matchedCount: 1, modifiedCount: 1 });
+      
+      // Call the method
+      await articleStore.storeArticles([{ ...mockArticle, title: 'Updated title', tags: ['test', 'breaking'] }]);
+      
+      // Verify the new tag is added after the stored ones
+      const [operations] = (ArticleModel.bulkWrite as jest.Mock).mock.calls[0];
+      expect(operations[0].updateOne.update.$set.tags).toEqual(['test', 'article', 'newsapi/us-headlines', 'breaking']);
+    });
+    
+    it('should only write one copy of an article repeated in the batch', async () => {
+      const repeat = { ...mockArticle, id: 'test-789', sourceUrl: 'https://example.com/test?utm_campaign=share' };
+      
+      // Call the method
+      const result = await articleStore.storeArticles([mockArticle, repeat]);
+      
       // Verify results
-      expect(result).toBe(1); // 1 article updated (we always update regardless of fetch time)
-      expect(ArticleModel.findOne).toHaveBeenCalledWith({ $or: [{ articleId: mockArticle.id }, { sourceUrl: mockArticle.sourceUrl }] });
-      expect(recentArticle.save).toHaveBeenCalled();
+      expect(result).toEqual({ inserted: 1, updated: 0, unchanged: 1, failed: 0, errors: [] });
+      expect((ArticleModel.bulkWrite as jest.Mock).mock.calls[0][0]).toHaveLength(1);
     });
     
-    it('should return 0 when MongoDB is not connected', async () => {
+    it('should write large batches in chunks', async () => {
+      const articles = Array.from({ length: 150 }, (_, i) => ({
+        ...mockArticle,
+        id: `test-${i}`,
+        sourceUrl: `https://example.com/test/${i}`
+      }));
+      (ArticleModel.bulkWrite as jest.Mock)
+        .mockResolvedValueOnce({ upsertedCount: 100, matchedCount: 0, modifiedCount: 0 })
+        .mockResolvedValueOnce({ upsertedCount: 50, matchedCount: 0, modifiedCount: 0 });
+      
+      // Call the method
+      const result = await articleStore.storeArticles(articles);
+      
+      // Verify results
+      expect(result.inserted).toBe(150);
+      expect(ArticleModel.bulkWrite).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should count failed writes reported by bulkWrite', async () => {
+      const second = { ...mockArticle, id: 'test-789', sourceUrl: 'https://example.com/other' };
+      (ArticleModel.bulkWrite as jest.Mock).mockRejectedValue(Object.assign(new Error('bulk write error'), {
+        result: { upsertedCount: 1, matchedCount: 0, modifiedCount: 0 },
+        writeErrors: [{ index: 1, errmsg: 'E11000 duplicate key error' }]
+      }));
+      
+      // Call the method
+      const result = await articleStore.storeArticles([mockArticle, second]);
+      
+      // Verify results
+      expect(result).toEqual({ inserted: 1, updated: 0, unchanged: 0, failed: 1, errors: ['E11000 duplicate key error'] });
+    });
+    
+    it('should return empty counts when MongoDB is not connected', async () => {
       // Mock MongoManager.isConnected to return false
       (MongoManager.isConnected as jest.Mock).mockReturnValue(false);
       
@@ -186,20 +398,22 @@ describe('ArticleStore', () => {
       const result = await articleStore.storeArticles([mockArticle]);
       
       // Verify results
-      expect(result).toBe(0); // No articles stored
-      expect(ArticleModel.findOne).not.toHaveBeenCalled();
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 0, failed: 0, errors: [] });
+      expect(ArticleModel.find).not.toHaveBeenCalled();
     });
     
-    it('should handle errors when storing articles', async () => {
-      // Mock ArticleModel.findOne to throw an error
-      (ArticleModel.findOne as jest.Mock).mockRejectedValue(new Error('Database error'));
+    it('should count the batch as failed when the lookup fails', async () => {
+      // Mock the lookup to throw an error
+      (ArticleModel.find as jest.Mock).mockReturnValue({
+        lean: jest.fn().mockRejectedValue(new Error('Database error'))
+      });
       
       // Call the method
       const result = await articleStore.storeArticles([mockArticle]);
       
       // Verify results
-      expect(result).toBe(0); // No articles stored due to error
-      expect(ArticleModel.findOne).toHaveBeenCalledWith({ $or: [{ articleId: mockArticle.id }, { sourceUrl: mockArticle.sourceUrl }] });
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 0, failed: 1, errors: ['Database error'] });
+      expect(ArticleModel.bulkWrite).not.toHaveBeenCalled();
     });
   });
   
@@ -235,6 +449,23 @@ describe('ArticleStore', () => {
       global.Date.now = realDateNow;
     });
     
+    it('should find an article by the ID of another source that stored it too', async () => {
+      const mockFind = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([sampleDbArticle])
+      };
+      (ArticleModel.find as jest.Mock).mockReturnValue(mockFind);
+      
+      // Call the method
+      await articleStore.getArticles({ articleId: 'newsapi-123', daysBack: 0 });
+      
+      // Verify the alias IDs are searched too
+      expect(ArticleModel.find).toHaveBeenCalledWith({
+        $and: [{ $or: [{ articleId: 'newsapi-123' }, { aliasIds: 'newsapi-123' }] }]
+      });
+    });
+    
     it('should filter articles by source', async () => {
       // Mock database response
       const mockArticles = [sampleDbArticle];
@@ -266,6 +497,35 @@ describe('ArticleStore', () => {
       global.Date.now = realDateNow;
     });
     
+    it('should filter articles by any of the given tags', async () => {
+      (ArticleModel.find as jest.Mock).mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([{ ...sampleDbArticle, tags: ['politics'], topics: [{ name: 'politics', score: 0.67 }] }])
+      });
+      
+      const result = await articleStore.getArticles({ tags: ['politics', 'climate'] });
+      
+      expect(ArticleModel.find).toHaveBeenCalledWith(expect.objectContaining({
+        tags: { $in: ['politics', 'climate'] }
+      }));
+      expect(result[0].topics).toEqual([{ name: 'politics', score: 0.67 }]);
+    });
+    
+    it('should filter articles by entity name, ignoring case', async () => {
+      (ArticleModel.find as jest.Mock).mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([])
+      });
+      
+      await articleStore.getArticles({ entity: 'AT&T (Inc.)' });
+      
+      const query = (ArticleModel.find as jest.Mock).mock.calls[0][0];
+      expect(query['entities.name'].test('at&t (inc.)')).toBe(true);
+      expect(query['entities.name'].test('AT&T (Inc.) Foundation')).toBe(false);
+    });
+    
     it('should filter articles by date range', async () => {
       // Mock database response
       const mockArticles = [sampleDbArticle];
@@ -316,6 +576,29 @@ describe('ArticleStore', () => {
       expect(result).toEqual([]);
       expect(ArticleModel.find).toHaveBeenCalled();
     });
+    
+    it('should return one representative per story when grouping by story', async () => {
+      // Mock aggregation response with the highest-mass article of each story
+      (ArticleModel.aggregate as jest.Mock).mockResolvedValue([
+        { _id: 'story-1', article: { ...sampleDbArticle, storyId: 'story-1' }, memberCount: 3, fetchedAt: new Date() },
+        { _id: 'test-article-2', article: { ...sampleDbArticle, articleId: 'test-article-2' }, memberCount: 1, fetchedAt: new Date() }
+      ]);
+      
+      // Call the method with story grouping
+      const result = await articleStore.getArticles({ source: 'reddit', limit: 10, groupByStory: true });
+      
+      // Verify results
+      expect(result.map(article => [article.id, article.storyId, article.storyMemberCount])).toEqual([
+        ['test-article-1', 'story-1', 3],
+        ['test-article-2', undefined, 1]
+      ]);
+      expect(ArticleModel.find).not.toHaveBeenCalled();
+      
+      const pipeline = (ArticleModel.aggregate as jest.Mock).mock.calls[0][0];
+      expect(pipeline[0]).toEqual({ $match: expect.objectContaining({ source: 'reddit' }) });
+      expect(pipeline[2].$group._id).toEqual({ $ifNull: ['$storyId', '$articleId'] });
+      expect(pipeline[pipeline.length - 1]).toEqual({ $limit: 10 });
+    });
   });
   
   describe('getTodaysArticleCount', () => {
@@ -0,0 +1,122 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { ContentCacheService } from '../../services/contentCacheService';
+import ContentCacheModel from '../../models/ContentCacheSchema';
+import mongoManager from '../../database/MongoManager';
+
+describe('ContentCacheService', () => {
+  const url = 'https://www.example.com/news/story?utm_source=reddit';
+  const canonicalUrl = 'https://example.com/news/story';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('store', () => {
+    it('should upsert the page by canonical URL with its validators and expiry', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
+      (ContentCacheModel.updateOne as jest.Mock) = updateOne;
+      const cache = new ContentCacheService(6);
+
+      const entry = await cache.store(url, { text: 'Story text', etag: '"abc"', lastModified: 'Sun, 01 Jun 2025 10:00:00 GMT' });
+
+      expect(entry.url).toBe(canonicalUrl);
+      expect(entry.expiresAt).toEqual(new Date('2025-06-01T18:00:00Z'));
+      expect(updateOne).toHaveBeenCalledWith({ url: canonicalUrl }, { $set: entry }, { upsert: true });
+    });
+  });
+
+  describe('get', () => {
+    it('should look up the page by canonical URL', async () => {
+      const findOne = jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue({
+          url: canonicalUrl,
+          text: 'Story text',
+          etag: '"abc"',
+          fetchedAt: '2025-06-01T12:00:00.000Z',
+          checkedAt: '2025-06-01T12:00:00.000Z',
+          expiresAt: '2025-06-01T18:00:00.000Z'
+        })
+      });
+      (ContentCacheModel.findOne as jest.Mock) = findOne;
+      const cache = new ContentCacheService(6);
+
+      const entry = await cache.get('http://example.com/news/story/');
+
+      expect(findOne).toHaveBeenCalledWith({ url: canonicalUrl });
+      expect(entry).toEqual({
+        url: canonicalUrl,
+        text: 'Story text',
+        etag: '"abc"',
+        lastModified: undefined,
+        fetchedAt: new Date('2025-06-01T12:00:00Z'),
+        checkedAt: new Date('2025-06-01T12:00:00Z'),
+        expiresAt: new Date('2025-06-01T18:00:00Z')
+      });
+    });
+
+    it('should return null for pages that have not been fetched', async () => {
+      (ContentCacheModel.findOne as jest.Mock) = jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+      const cache = new ContentCacheService(6);
+
+      await expect(cache.get(url)).resolves.toBeNull();
+    });
+
+    it('should keep pages in memory when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+      const cache = new ContentCacheService(6);
+
+      await cache.store(url, { text: 'Story text' });
+
+      await expect(cache.get(canonicalUrl)).resolves.toEqual(expect.objectContaining({ text: 'Story text' }));
+      expect(ContentCacheModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revalidate', () => {
+    it('should extend the expiry and keep the text of an unchanged page', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+      const cache = new ContentCacheService(6);
+      const entry = await cache.store(url, { text: 'Story text', etag: '"abc"' });
+
+      jest.setSystemTime(new Date('2025-06-02T12:00:00Z'));
+      expect(cache.isFresh(entry)).toBe(false);
+
+      const updated = await cache.revalidate(entry, { lastModified: 'Sun, 01 Jun 2025 10:00:00 GMT' });
+
+      expect(cache.isFresh(updated)).toBe(true);
+      expect(updated).toEqual(expect.objectContaining({
+        text: 'Story text',
+        etag: '"abc"',
+        lastModified: 'Sun, 01 Jun 2025 10:00:00 GMT',
+        fetchedAt: new Date('2025-06-01T12:00:00Z'),
+        checkedAt: new Date('2025-06-02T12:00:00Z')
+      }));
+    });
+  });
+
+  describe('getConditionalHeaders', () => {
+    it('should send back the validators the publisher sent', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+      const cache = new ContentCacheService(6);
+
+      const withBoth = await cache.store(url, { text: '', etag: '"abc"', lastModified: 'Sun, 01 Jun 2025 10:00:00 GMT' });
+      const withNone = await cache.store(url, { text: '' });
+
+      expect(cache.getConditionalHeaders(withBoth)).toEqual({
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Sun, 01 Jun 2025 10:00:00 GMT'
+      });
+      expect(cache.getConditionalHeaders(withNone)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,107 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { EntityService } from '../../services/entityService';
+import { GeocodingService } from '../../services/geocodingService';
+import ArticleModel from '../../models/ArticleSchema';
+import mongoManager from '../../database/MongoManager';
+
+describe('EntityService', () => {
+  let entityService: EntityService;
+  let geocodingService: GeocodingService;
+  let mockFind: { sort: jest.Mock; limit: jest.Mock; lean: jest.Mock };
+
+  // Cambridge, MA (about 5 km from Boston) and Worcester, MA (about 65 km from Boston)
+  const boston = { latitude: 42.3601, longitude: -71.0589 };
+  const cambridge = { location: 'Cambridge', latitude: 42.3736, longitude: -71.1097, zipCode: '02139' };
+  const worcester = { location: 'Worcester', latitude: 42.2626, longitude: -71.8023, zipCode: '01608' };
+
+  const mockStoredArticles = (docs: any[]) => {
+    mockFind = {
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue(docs)
+    };
+    (ArticleModel.find as jest.Mock) = jest.fn().mockReturnValue(mockFind);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+
+    geocodingService = new GeocodingService();
+    jest.spyOn(geocodingService, 'geocodeZipCode').mockResolvedValue(boston);
+
+    entityService = new EntityService(geocodingService, 50, 500);
+  });
+
+  it('should rank entities by the number of articles mentioning them', async () => {
+    mockStoredArticles([
+      { location: cambridge, entities: [{ name: 'Michelle Wu', type: 'person', count: 3 }, { name: 'MBTA', type: 'organization', count: 1 }] },
+      { location: cambridge, entities: [{ name: 'MBTA', type: 'organization', count: 2 }] },
+      { location: worcester, entities: [{ name: 'michelle wu', type: 'person', count: 1 }, { name: 'MBTA', type: 'organization', count: 1 }] }
+    ]);
+
+    const result = await entityService.getTopEntities();
+
+    expect(result).toEqual({
+      articleCount: 3,
+      entities: [
+        { name: 'MBTA', type: 'organization', articles: 3, mentions: 4 },
+        { name: 'Michelle Wu', type: 'person', articles: 2, mentions: 4 }
+      ]
+    });
+    expect(mockFind.sort).toHaveBeenCalledWith({ publishedAt: -1 });
+    expect(mockFind.limit).toHaveBeenCalledWith(500);
+  });
+
+  it('should only count articles within the radius of the ZIP code', async () => {
+    mockStoredArticles([
+      { location: cambridge, entities: [{ name: 'Michelle Wu', type: 'person', count: 1 }] },
+      { location: worcester, entities: [{ name: 'Joseph Petty', type: 'person', count: 1 }] }
+    ]);
+
+    const result = await entityService.getTopEntities({ zipCode: '02108' });
+
+    expect(geocodingService.geocodeZipCode).toHaveBeenCalledWith('02108');
+    expect(ArticleModel.find).toHaveBeenCalledWith(expect.objectContaining({
+      'location.latitude': { $gte: expect.any(Number), $lte: expect.any(Number) },
+      'location.longitude': { $gte: expect.any(Number), $lte: expect.any(Number) }
+    }), { entities: 1, location: 1 });
+    expect(result).toEqual({
+      zipCode: '02108',
+      radiusKm: 50,
+      articleCount: 1,
+      entities: [{ name: 'Michelle Wu', type: 'person', articles: 1, mentions: 1 }]
+    });
+  });
+
+  it('should filter by entity type and limit the number of entities', async () => {
+    mockStoredArticles([
+      { location: cambridge, entities: [{ name: 'Michelle Wu', type: 'person', count: 1 }, { name: 'MBTA', type: 'organization', count: 1 }] },
+      { location: cambridge, entities: [{ name: 'Maura Healey', type: 'person', count: 2 }] }
+    ]);
+
+    const result = await entityService.getTopEntities({ type: 'person', limit: 1 });
+
+    expect(result?.entities).toEqual([{ name: 'Maura Healey', type: 'person', articles: 1, mentions: 2 }]);
+  });
+
+  it('should return null when the ZIP code cannot be located', async () => {
+    (geocodingService.geocodeZipCode as jest.Mock).mockResolvedValue(null);
+    mockStoredArticles([]);
+
+    expect(await entityService.getTopEntities({ zipCode: '99999' })).toBeNull();
+    expect(ArticleModel.find).not.toHaveBeenCalled();
+  });
+
+  it('should return no entities when MongoDB is not connected', async () => {
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockStoredArticles([]);
+
+    expect(await entityService.getTopEntities()).toEqual({ articleCount: 0, entities: [] });
+    expect(ArticleModel.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+// Mock the geocoding helper so tests don't hit NLP or geocoding APIs
+jest.mock('../../utils/locationUtils', () => ({
+  geocodeArticleLocation: jest.fn().mockImplementation(async (article) => ({
+    ...article,
+    location: { location: 'Springfield', latitude: 39.7817, longitude: -89.6501, zipCode: '62701' }
+  }))
+}));
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { FeedService } from '../../services/feedService';
+import { FeedProvider } from '../../services/providers/feedProvider';
+import { geocodeArticleLocation } from '../../utils/locationUtils';
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/feeds');
+
+describe('FeedService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  // Serve the fixture feed files from a local HTTP server
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const fileName = path.basename(req.url || '');
+      const filePath = path.join(FIXTURES_DIR, fileName);
+
+      if (!fs.existsSync(filePath)) {
+        res.writeHead(404);
+        res.end('Not found');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(fs.readFileSync(filePath));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseFeed', () => {
+    const feedService = new FeedService([]);
+
+    it('should parse an RSS 2.0 document', () => {
+      const xml = fs.readFileSync(path.join(FIXTURES_DIR, 'local-news.rss.xml'), 'utf8');
+      const feed = feedService.parseFeed(xml);
+
+      expect(feed.format).toBe('rss');
+      expect(feed.title).toBe('Springfield Gazette');
+      expect(feed.items).toHaveLength(2);
+      expect(feed.items[0]).toEqual({
+        guid: 'gazette-1001',
+        title: 'City Council Approves New Bike Lanes on Main Street',
+        link: 'https://gazette.example.com/news/bike-lanes',
+        content: 'The Springfield city council voted 7-2 on Tuesday to add protected bike lanes.',
+        author: 'Jane Reporter',
+        publishedAt: '2025-10-14T18:30:00.000Z',
+        categories: ['politics', 'transportation']
+      });
+    });
+
+    it('should prefer content:encoded and fall back to the link as guid', () => {
+      const xml = fs.readFileSync(path.join(FIXTURES_DIR, 'local-news.rss.xml'), 'utf8');
+      const item = feedService.parseFeed(xml).items[1];
+
+      expect(item.guid).toBe('https://gazette.example.com/news/farmers-market');
+      expect(item.content).toBe('Vendors are back at the downtown plaza. Parking is free on weekends.');
+      expect(item.author).toBe('editor@gazette.example.com (Sam Editor)');
+      expect(item.categories).toEqual(['community']);
+    });
+
+    it('should parse an Atom document', () => {
+      const xml = fs.readFileSync(path.join(FIXTURES_DIR, 'city-blog.atom.xml'), 'utf8');
+      const feed = feedService.parseFeed(xml);
+
+      expect(feed.format).toBe('atom');
+      expect(feed.title).toBe('Riverside City Blog');
+      expect(feed.items[0]).toEqual({
+        guid: 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a',
+        title: 'Library Extends Weekend Hours',
+        link: 'https://blog.example.org/2025/10/library-hours',
+        content: 'The Riverside public library will stay open until 8pm on weekends.',
+        author: 'Alex Blogger',
+        publishedAt: '2025-10-16T09:15:00.000Z',
+        categories: ['community', 'education']
+      });
+    });
+
+    it('should use updated and summary when published and content are missing', () => {
+      const xml = fs.readFileSync(path.join(FIXTURES_DIR, 'city-blog.atom.xml'), 'utf8');
+      const item = feedService.parseFeed(xml).items[1];
+
+      expect(item.link).toBe('https://blog.example.org/2025/10/road-closure');
+      expect(item.content).toBe('Crews will repave 5th Avenue next week.');
+      expect(item.publishedAt).toBe('2025-10-17T07:45:00.000Z');
+      expect(item.author).toBeUndefined();
+      expect(item.categories).toEqual([]);
+    });
+
+    it('should reject documents that are not RSS or Atom', () => {
+      expect(() => feedService.parseFeed('<html><body>Not a feed</body></html>')).toThrow('Unsupported feed format');
+    });
+  });
+
+  describe('fetchArticles', () => {
+    it('should fetch feeds from the fixture server and map items to articles', async () => {
+      const feedService = new FeedService([
+        `${baseUrl}/local-news.rss.xml`,
+        `${baseUrl}/city-blog.atom.xml`
+      ]);
+
+      const articles = await feedService.fetchArticles();
+
+      expect(articles).toHaveLength(4);
+      expect(articles[0]).toMatchObject({
+        title: 'City Council Approves New Bike Lanes on Main Street',
+        content: 'The Springfield city council voted 7-2 on Tuesday to add protected bike lanes.',
+        source: 'rss',
+        sourceUrl: 'https://gazette.example.com/news/bike-lanes',
+        author: 'Jane Reporter',
+        publishedAt: '2025-10-14T18:30:00.000Z',
+        tags: ['politics', 'transportation'],
+        location: { location: 'Springfield', latitude: 39.7817, longitude: -89.6501, zipCode: '62701' }
+      });
+      expect(articles[0].id).toMatch(/^rss-[0-9a-f]{24}$/);
+
+      // Items without an author fall back to the feed title
+      expect(articles[3].author).toBe('Riverside City Blog');
+
+      // Every article goes through the shared geocoding helper
+      expect(geocodeArticleLocation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should generate stable ids for the same item', async () => {
+      const feedService = new FeedService([`${baseUrl}/local-news.rss.xml`]);
+
+      const first = await feedService.fetchArticles();
+      const second = await feedService.fetchArticles();
+
+      expect(first.map(article => article.id)).toEqual(second.map(article => article.id));
+    });
+
+    it('should limit the number of items per feed', async () => {
+      const feedService = new FeedService([`${baseUrl}/local-news.rss.xml`]);
+
+      const articles = await feedService.fetchArticles(1);
+
+      expect(articles).toHaveLength(1);
+    });
+
+    it('should skip feeds that fail and keep the others', async () => {
+      const feedService = new FeedService([
+        `${baseUrl}/missing.xml`,
+        `${baseUrl}/city-blog.atom.xml`
+      ]);
+
+      const articles = await feedService.fetchArticles();
+
+      expect(articles).toHaveLength(2);
+      expect(articles.every(article => article.source === 'rss')).toBe(true);
+    });
+
+    it('should return no articles when no feeds are configured', async () => {
+      const feedService = new FeedService([]);
+
+      expect(await feedService.fetchArticles()).toEqual([]);
+    });
+  });
+
+  describe('FeedProvider', () => {
+    it('should be disabled when no feeds are configured', () => {
+      expect(new FeedProvider(new FeedService([])).enabled).toBe(false);
+    });
+
+    it('should fetch articles through the feed service', async () => {
+      const provider = new FeedProvider(new FeedService([`${baseUrl}/city-blog.atom.xml`]));
+
+      expect(provider.enabled).toBe(true);
+      expect(await provider.fetch({ limit: 1 })).toHaveLength(1);
+    });
+  });
+});
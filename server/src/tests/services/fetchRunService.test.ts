@@ -0,0 +1,108 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { FetchRunService } from '../../services/fetchRunService';
+import FetchRunModel from '../../models/FetchRunSchema';
+import mongoManager from '../../database/MongoManager';
+import { FetchRun } from '../../types/models/fetchRun.type';
+
+describe('FetchRunService', () => {
+  let fetchRunService: FetchRunService;
+  let mockQuery: { sort: jest.Mock; skip: jest.Mock; limit: jest.Mock; lean: jest.Mock };
+
+  const sampleRun: FetchRun = {
+    startedAt: new Date('2025-10-15T12:00:00Z'),
+    finishedAt: new Date('2025-10-15T12:00:30Z'),
+    durationMs: 30000,
+    status: 'partial',
+    sources: [
+      { source: 'reddit', fetched: 50, geocoded: 40, stored: 40, skipped: 10, errorMessages: [], durationMs: 20000 },
+      { source: 'newsapi', fetched: 0, geocoded: 0, stored: 0, skipped: 0, errorMessages: ['NewsAPI error: 429'], durationMs: 10000 }
+    ],
+    errorMessages: []
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+
+    mockQuery = {
+      sort: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue([{ ...sampleRun, _id: 'run-1', __v: 0 }])
+    };
+    (FetchRunModel.find as jest.Mock) = jest.fn().mockReturnValue(mockQuery);
+    (FetchRunModel.countDocuments as jest.Mock) = jest.fn().mockResolvedValue(45);
+    (FetchRunModel.create as jest.Mock) = jest.fn().mockResolvedValue(sampleRun);
+
+    fetchRunService = new FetchRunService();
+  });
+
+  describe('recordRun', () => {
+    it('should persist the run', async () => {
+      const result = await fetchRunService.recordRun(sampleRun);
+
+      expect(FetchRunModel.create).toHaveBeenCalledWith(sampleRun);
+      expect(result).toBe(sampleRun);
+    });
+
+    it('should skip persistence when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+
+      const result = await fetchRunService.recordRun(sampleRun);
+
+      expect(FetchRunModel.create).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null when persistence fails', async () => {
+      (FetchRunModel.create as jest.Mock).mockRejectedValue(new Error('write failed'));
+
+      expect(await fetchRunService.recordRun(sampleRun)).toBeNull();
+    });
+  });
+
+  describe('getRuns', () => {
+    it('should return a page of runs newest first', async () => {
+      const result = await fetchRunService.getRuns({ page: 3, limit: 10 });
+
+      expect(FetchRunModel.find).toHaveBeenCalledWith({});
+      expect(mockQuery.sort).toHaveBeenCalledWith({ startedAt: -1 });
+      expect(mockQuery.skip).toHaveBeenCalledWith(20);
+      expect(mockQuery.limit).toHaveBeenCalledWith(10);
+      expect(result).toEqual({
+        runs: [sampleRun],
+        page: 3,
+        limit: 10,
+        total: 45,
+        pages: 5
+      });
+    });
+
+    it('should filter runs by source', async () => {
+      await fetchRunService.getRuns({ source: 'newsapi' });
+
+      expect(FetchRunModel.find).toHaveBeenCalledWith({ 'sources.source': 'newsapi' });
+      expect(FetchRunModel.countDocuments).toHaveBeenCalledWith({ 'sources.source': 'newsapi' });
+    });
+
+    it('should clamp page and limit', async () => {
+      const result = await fetchRunService.getRuns({ page: 0, limit: 1000 });
+
+      expect(result.page).toBe(1);
+      expect(result.limit).toBe(100);
+      expect(mockQuery.skip).toHaveBeenCalledWith(0);
+    });
+
+    it('should return an empty page when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+
+      const result = await fetchRunService.getRuns();
+
+      expect(FetchRunModel.find).not.toHaveBeenCalled();
+      expect(result).toEqual({ runs: [], page: 1, limit: 20, total: 0, pages: 0 });
+    });
+  });
+});
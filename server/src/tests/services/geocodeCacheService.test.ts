@@ -0,0 +1,177 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { GeocodeCacheService } from '../../services/geocodeCacheService';
+import GeocodeCacheModel from '../../models/GeocodeCacheSchema';
+import mongoManager from '../../database/MongoManager';
+import { GeocodedLocation } from '../../types/services/geocoding.type';
+
+describe('GeocodeCacheService', () => {
+  const boston: GeocodedLocation = {
+    coordinates: { latitude: 42.3601, longitude: -71.0589 },
+    zipCode: '02108',
+    city: 'Boston',
+    state: 'Massachusetts',
+    country: 'United States of America',
+    formattedAddress: 'Boston, MA, USA'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('with MongoDB', () => {
+    it('should upsert a result by normalized query and country, counting the miss', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
+      (GeocodeCacheModel.updateOne as jest.Mock) = updateOne;
+      const cache = new GeocodeCacheService(30, 24);
+
+      await cache.store('  Boston,   MA ', 'US', boston);
+
+      expect(updateOne).toHaveBeenCalledWith(
+        { query: 'boston, ma', countryCode: 'us' },
+        {
+          $set: { found: true, fetchedAt: new Date('2025-06-01T12:00:00Z'), expiresAt: new Date('2025-07-01T12:00:00Z'), result: boston },
+          $inc: { misses: 1 },
+          $setOnInsert: { hits: 0 }
+        },
+        { upsert: true }
+      );
+    });
+
+    it('should remember places OpenCage could not find for a shorter time', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
+      (GeocodeCacheModel.updateOne as jest.Mock) = updateOne;
+      const cache = new GeocodeCacheService(30, 24);
+
+      await cache.store('Atlantis', '', null);
+
+      const update = updateOne.mock.calls[0][1];
+      expect(update.$set).toEqual({ found: false, fetchedAt: new Date('2025-06-01T12:00:00Z'), expiresAt: new Date('2025-06-02T12:00:00Z') });
+      expect(update.$unset).toEqual({ result: 1 });
+    });
+
+    it('should only return unexpired entries and count the hit', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const findOneAndUpdate = jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue({
+          query: 'boston',
+          countryCode: '',
+          found: true,
+          result: boston,
+          hits: 3,
+          misses: 1,
+          fetchedAt: '2025-05-20T12:00:00Z',
+          expiresAt: '2025-06-19T12:00:00Z'
+        })
+      });
+      (GeocodeCacheModel.findOneAndUpdate as jest.Mock) = findOneAndUpdate;
+      const cache = new GeocodeCacheService();
+
+      const entry = await cache.get('Boston');
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { query: 'boston', countryCode: '', expiresAt: { $gt: new Date('2025-06-01T12:00:00Z') } },
+        { $inc: { hits: 1 }, $set: { lastHitAt: new Date('2025-06-01T12:00:00Z') } },
+        { new: true }
+      );
+      expect(entry?.result).toEqual(boston);
+      expect(entry?.hits).toBe(3);
+    });
+
+    it('should return a null result for places OpenCage could not find', async () => {
+      (GeocodeCacheModel.findOneAndUpdate as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue({ query: 'atlantis', countryCode: '', found: false, hits: 0, misses: 1, fetchedAt: new Date(), expiresAt: new Date() })
+      });
+      const cache = new GeocodeCacheService();
+
+      const entry = await cache.get('Atlantis');
+
+      expect(entry).not.toBeNull();
+      expect(entry?.result).toBeNull();
+    });
+
+    it('should sum the hits and misses of every entry', async () => {
+      (GeocodeCacheModel.aggregate as jest.Mock) = jest.fn().mockResolvedValue([{ _id: null, entries: 2, hits: 30, misses: 10 }]);
+      const cache = new GeocodeCacheService();
+
+      expect(await cache.getStats()).toEqual({ entries: 2, hits: 30, misses: 10, hitRate: 0.75 });
+    });
+
+    it('should purge one query, or only expired entries', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const deleteMany = jest.fn().mockResolvedValue({ deletedCount: 4 });
+      (GeocodeCacheModel.deleteMany as jest.Mock) = deleteMany;
+      const cache = new GeocodeCacheService();
+
+      expect(await cache.purge({ query: ' 20001 ', countryCode: 'US' })).toBe(4);
+      await cache.purge({ expiredOnly: true });
+
+      expect(deleteMany).toHaveBeenNthCalledWith(1, { query: '20001', countryCode: 'us' });
+      expect(deleteMany).toHaveBeenNthCalledWith(2, { expiresAt: { $lte: new Date('2025-06-01T12:00:00Z') } });
+    });
+  });
+
+  describe('without MongoDB', () => {
+    beforeEach(() => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+    });
+
+    it('should keep results in memory with hit and miss counts', async () => {
+      const cache = new GeocodeCacheService();
+
+      expect(await cache.get('Boston')).toBeNull();
+      await cache.store('Boston', '', boston);
+      await cache.get('boston');
+      const entry = await cache.get('BOSTON');
+
+      expect(entry?.result).toEqual(boston);
+      expect(entry?.hits).toBe(2);
+      expect(entry?.misses).toBe(1);
+      expect(await cache.getStats()).toEqual({ entries: 1, hits: 2, misses: 1, hitRate: 2 / 3 });
+    });
+
+    it('should not return expired results', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      const cache = new GeocodeCacheService(30, 24);
+      await cache.store('Atlantis', '', null);
+
+      jest.setSystemTime(new Date('2025-06-02T13:00:00Z'));
+
+      expect(await cache.get('Atlantis')).toBeNull();
+      expect(await cache.purge({ expiredOnly: true })).toBe(1);
+    });
+
+    it('should list entries by query prefix, most used first', async () => {
+      const cache = new GeocodeCacheService();
+      await cache.store('Boston', '', boston);
+      await cache.store('Boston', 'us', boston);
+      await cache.store('Baltimore', '', null);
+      await cache.get('Boston', 'us');
+
+      const page = await cache.list({ query: 'bos', limit: 1 });
+
+      expect(page.total).toBe(2);
+      expect(page.pages).toBe(2);
+      expect(page.entries).toHaveLength(1);
+      expect(page.entries[0]).toEqual(expect.objectContaining({ query: 'boston', countryCode: 'us', hits: 1 }));
+    });
+
+    it('should purge every entry when no query is given', async () => {
+      const cache = new GeocodeCacheService();
+      await cache.store('Boston', '', boston);
+      await cache.store('20001', 'us', null);
+
+      expect(await cache.purge()).toBe(2);
+      expect((await cache.list()).total).toBe(0);
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { GeocodingService } from '../../services/geocodingService';
-import { Coordinates, DistanceResult } from '../../types/services/geocoding.type';
-import { TierType } from '../../types/models/article.type';
+import { Coordinates } from '../../types/services/geocoding.type';
 import * as opencage from 'opencage-api-client';
+import quotaService from '../../services/quotaService';
+import { GeocodeCacheService } from '../../services/geocodeCacheService';
+import mongoManager from '../../database/MongoManager';
+import resilience from '../../services/resilienceService';
 import 'jest';
 
 // Set longer timeout for all tests in this suite due to API calls
@@ -79,8 +82,9 @@ describe('GeocodingService', () => {
   beforeEach(() => {
     // Reset mocks before each test
     jest.clearAllMocks();
-    // Initialize with default settings
-    geocodingService = new GeocodingService();
+    // Initialize with default settings and an empty in-memory cache, so each test reaches OpenCage
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+    geocodingService = new GeocodingService({}, undefined, undefined, new GeocodeCacheService());
   });
   
   it('should geocode a location name to coordinates', async () => {
@@ -250,6 +254,72 @@ describe('GeocodingService', () => {
     expect(result).toBeNull();
   });
   
+  it('should skip OpenCage when the quota does not allow the request', async () => {
+    jest.spyOn(quotaService, 'tryConsume').mockResolvedValueOnce('refused');
+    (opencage.geocode as jest.Mock).mockClear();
+    
+    const result = await geocodingService.geocodeLocation('New York City');
+    
+    expect(result).toBeNull();
+    expect(opencage.geocode).not.toHaveBeenCalled();
+  });
+  
+  it('should consume quota for every attempt when a request is retried', async () => {
+    jest.spyOn(resilience as any, 'sleep').mockResolvedValue(undefined);
+    const tryConsume = jest.spyOn(quotaService, 'tryConsume').mockResolvedValue('allowed');
+    (opencage.geocode as jest.Mock).mockRejectedValueOnce({ response: { status: { code: 503 } } });
+    
+    const result = await geocodingService.geocodeLocation('New York City');
+    
+    expect(result).not.toBeNull();
+    expect(opencage.geocode).toHaveBeenCalledTimes(2);
+    expect(tryConsume).toHaveBeenCalledTimes(2);
+    tryConsume.mockRestore();
+  });
+  
+  it('should stop retrying once the quota does not allow another attempt', async () => {
+    jest.spyOn(resilience as any, 'sleep').mockResolvedValue(undefined);
+    const tryConsume = jest.spyOn(quotaService, 'tryConsume').mockResolvedValueOnce('allowed').mockResolvedValueOnce('refused');
+    (opencage.geocode as jest.Mock).mockRejectedValueOnce({ response: { status: { code: 503 } } });
+    
+    const result = await geocodingService.geocodeLocation('New York City');
+    
+    expect(result).toBeNull();
+    expect(opencage.geocode).toHaveBeenCalledTimes(1);
+    tryConsume.mockRestore();
+  });
+  
+  it('should answer repeated lookups from the cache', async () => {
+    const first = await geocodingService.geocodeLocation('New York City');
+    const second = await geocodingService.geocodeLocation('  new york   city ');
+    
+    expect(second).toEqual(first);
+    expect(opencage.geocode).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should cache ZIP code lookups separately from unbiased lookups', async () => {
+    await geocodingService.geocodeLocation('94103');
+    await geocodingService.setUserLocationByZipCode('94103');
+    const coordinates = await geocodingService.geocodeZipCode('94103');
+    
+    expect(coordinates).toEqual({ latitude: 37.7749, longitude: -122.4194 });
+    expect(opencage.geocode).toHaveBeenCalledTimes(2);
+    expect((opencage.geocode as jest.Mock).mock.calls[1][0]).toEqual(expect.objectContaining({ q: '94103', countrycode: 'us' }));
+  });
+  
+  it('should cache places OpenCage could not find, but not lookups the quota refused', async () => {
+    await geocodingService.geocodeLocation('Nowhere In Particular');
+    await geocodingService.geocodeLocation('Nowhere In Particular');
+    expect(opencage.geocode).toHaveBeenCalledTimes(1);
+    
+    jest.spyOn(quotaService, 'tryConsume').mockResolvedValueOnce('refused');
+    await geocodingService.geocodeLocation('New York City');
+    const result = await geocodingService.geocodeLocation('New York City');
+    
+    expect(result).not.toBeNull();
+    expect(opencage.geocode).toHaveBeenCalledTimes(2);
+  });
+  
   it('should get default user ZIP code', () => {
     // Test getting the default ZIP code
     const defaultZip = geocodingService.getDefaultUserZipCode();
@@ -0,0 +1,137 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { LeaseService } from '../../services/leaseService';
+import FetchLeaseModel from '../../models/FetchLeaseSchema';
+import mongoManager from '../../database/MongoManager';
+
+describe('LeaseService', () => {
+  let leaseService: LeaseService;
+  let mockUpsert: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-10-15T12:00:00Z') });
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+
+    mockUpsert = jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue({ source: 'reddit', ownerId: 'api-1' }) });
+    (FetchLeaseModel.findOneAndUpdate as jest.Mock) = mockUpsert;
+    (FetchLeaseModel.updateOne as jest.Mock) = jest.fn().mockResolvedValue({ matchedCount: 1 });
+    (FetchLeaseModel.deleteOne as jest.Mock) = jest.fn().mockResolvedValue({ deletedCount: 1 });
+
+    leaseService = new LeaseService('api-1', 60000);
+  });
+
+  afterEach(async () => {
+    await leaseService.release('reddit');
+    jest.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('should take a free, expired or own lease', async () => {
+      await expect(leaseService.acquire('reddit')).resolves.toBe(true);
+
+      const now = new Date('2025-10-15T12:00:00Z');
+      expect(mockUpsert).toHaveBeenCalledWith(
+        { source: 'reddit', $or: [{ expiresAt: { $lte: now } }, { ownerId: 'api-1' }] },
+        { $set: { ownerId: 'api-1', acquiredAt: now, heartbeatAt: now, expiresAt: new Date('2025-10-15T12:01:00Z') } },
+        { upsert: true, new: true }
+      );
+    });
+
+    it('should refuse a lease held by another instance', async () => {
+      mockUpsert.mockReturnValue({
+        lean: jest.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }))
+      });
+
+      await expect(leaseService.acquire('reddit')).resolves.toBe(false);
+    });
+
+    it('should always grant the lease when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+
+      await expect(leaseService.acquire('reddit')).resolves.toBe(true);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it('should extend a held lease with heartbeats', async () => {
+      await leaseService.acquire('reddit');
+
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(FetchLeaseModel.updateOne).toHaveBeenCalledWith(
+        { source: 'reddit', ownerId: 'api-1' },
+        { $set: { heartbeatAt: new Date('2025-10-15T12:00:20Z'), expiresAt: new Date('2025-10-15T12:01:20Z') } }
+      );
+    });
+
+    it('should stop heartbeats once the lease is lost', async () => {
+      (FetchLeaseModel.updateOne as jest.Mock).mockResolvedValue({ matchedCount: 0 });
+      await leaseService.acquire('reddit');
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(FetchLeaseModel.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('release', () => {
+    it('should delete the lease and stop heartbeats', async () => {
+      await leaseService.acquire('reddit');
+      await leaseService.release('reddit');
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(FetchLeaseModel.deleteOne).toHaveBeenCalledWith({ source: 'reddit', ownerId: 'api-1' });
+      expect(FetchLeaseModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLeases', () => {
+    it('should report who holds each lease', async () => {
+      (FetchLeaseModel.find as jest.Mock) = jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([
+          {
+            source: 'newsapi',
+            ownerId: 'api-2',
+            acquiredAt: new Date('2025-10-15T11:00:00Z'),
+            heartbeatAt: new Date('2025-10-15T11:10:00Z'),
+            expiresAt: new Date('2025-10-15T11:12:00Z')
+          },
+          {
+            source: 'reddit',
+            ownerId: 'api-1',
+            acquiredAt: new Date('2025-10-15T11:59:00Z'),
+            heartbeatAt: new Date('2025-10-15T11:59:40Z'),
+            expiresAt: new Date('2025-10-15T12:00:40Z')
+          }
+        ])
+      });
+
+      const leases = await leaseService.getLeases();
+
+      expect(leases).toEqual([
+        {
+          source: 'newsapi',
+          ownerId: 'api-2',
+          isOwner: false,
+          isActive: false,
+          acquiredAt: '2025-10-15T11:00:00.000Z',
+          heartbeatAt: '2025-10-15T11:10:00.000Z',
+          expiresAt: '2025-10-15T11:12:00.000Z'
+        },
+        {
+          source: 'reddit',
+          ownerId: 'api-1',
+          isOwner: true,
+          isActive: true,
+          acquiredAt: '2025-10-15T11:59:00.000Z',
+          heartbeatAt: '2025-10-15T11:59:40.000Z',
+          expiresAt: '2025-10-15T12:00:40.000Z'
+        }
+      ]);
+    });
+  });
+});
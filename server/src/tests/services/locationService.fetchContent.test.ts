@@ -0,0 +1,122 @@
+// Mock node-fetch before importing the service
+jest.mock('node-fetch');
+
+import { LocationService } from '../../services/locationService';
+import { ContentCacheService } from '../../services/contentCacheService';
+import { PublisherPolicyService } from '../../services/publisherPolicyService';
+import mongoManager from '../../database/MongoManager';
+import { Article } from '../../types/models/article.type';
+
+const mockedFetch = jest.requireMock('node-fetch').default as jest.Mock;
+const { Response } = jest.requireActual('node-fetch');
+
+describe('LocationService article page fetching', () => {
+  const article: Article = {
+    id: 'reddit-abc',
+    title: 'Flooding closes roads in Tulsa',
+    source: 'reddit',
+    sourceUrl: 'https://example.com/news/tulsa-flooding',
+    mass: 100000,
+    publishedAt: new Date().toISOString(),
+    location: ''
+  };
+
+  const page = '<html><body><article><p>Heavy rain flooded several roads in Tulsa, Oklahoma on Sunday, and city crews closed parts of Riverside Drive while the water receded.</p>'
+    + '<p>Officials said the closures would last until Monday morning, and asked drivers to avoid low-lying streets near the Arkansas River, where the water was deepest.</p></article></body></html>';
+
+  let contentCache: ContentCacheService;
+  let publisherPolicy: PublisherPolicyService;
+  let locationService: LocationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+    contentCache = new ContentCacheService(6);
+    publisherPolicy = new PublisherPolicyService({
+      userAgent: 'OrbitalNewsBot/1.0',
+      skipDomains: [],
+      robotsCacheHours: 24,
+      defaultCrawlDelaySeconds: 1,
+      maxCrawlDelaySeconds: 30,
+      maxWaitSeconds: 5
+    });
+    jest.spyOn(publisherPolicy, 'requestFetch').mockResolvedValue('allowed');
+    locationService = new LocationService(undefined, undefined, contentCache, publisherPolicy);
+  });
+
+  it('should fetch pages with the policy user agent', async () => {
+    mockedFetch.mockResolvedValue(new Response(page, { status: 200 }));
+
+    await locationService.extractLocations(article);
+
+    expect(publisherPolicy.requestFetch).toHaveBeenCalledWith(article.sourceUrl);
+    expect(mockedFetch.mock.calls[0][1].headers['User-Agent']).toBe('OrbitalNewsBot/1.0');
+  });
+
+  it('should not fetch pages the publisher policy does not allow', async () => {
+    jest.spyOn(publisherPolicy, 'requestFetch').mockResolvedValue('disallowed');
+
+    const result = await locationService.extractLocations(article);
+
+    expect(mockedFetch).not.toHaveBeenCalled();
+    expect(result.analyzedText).toBe(article.title);
+    expect(result.summary).toBeUndefined();
+  });
+
+  it('should not download a page again within the TTL', async () => {
+    mockedFetch.mockResolvedValue(new Response(page, { status: 200, headers: { ETag: '"v1"' } }));
+
+    const first = await locationService.extractLocations(article);
+    const second = await locationService.extractLocations(article);
+
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    expect(second.analyzedText).toBe(first.analyzedText);
+    expect(first.analyzedText).toContain('Riverside Drive');
+  });
+
+  it('should revalidate an expired page with a conditional request and reuse it when unchanged', async () => {
+    mockedFetch.mockResolvedValueOnce(new Response(page, {
+      status: 200,
+      headers: { ETag: '"v1"', 'Last-Modified': 'Sun, 01 Jun 2025 10:00:00 GMT' }
+    }));
+    await locationService.extractLocations(article);
+
+    jest.spyOn(contentCache, 'isFresh').mockReturnValue(false);
+    const revalidate = jest.spyOn(contentCache, 'revalidate');
+    mockedFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    const result = await locationService.extractLocations(article);
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(mockedFetch.mock.calls[1][1].headers).toEqual(expect.objectContaining({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Sun, 01 Jun 2025 10:00:00 GMT'
+    }));
+    expect(revalidate).toHaveBeenCalled();
+    expect(result.analyzedText).toContain('Riverside Drive');
+  });
+
+  it('should return the page\'s Open Graph image, also from the cache', async () => {
+    const pageWithImage = page.replace('<html>', '<html><head><meta property="og:image" content="/img/flood.jpg"></head>');
+    mockedFetch.mockResolvedValue(new Response(pageWithImage, { status: 200 }));
+
+    const first = await locationService.extractLocations(article);
+    const second = await locationService.extractLocations(article);
+
+    expect(first.image).toEqual({ url: 'https://example.com/img/flood.jpg' });
+    expect(second.image).toEqual(first.image);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the stale copy when the publisher cannot be reached', async () => {
+    mockedFetch.mockResolvedValueOnce(new Response(page, { status: 200 }));
+    await locationService.extractLocations(article);
+
+    jest.spyOn(contentCache, 'isFresh').mockReturnValue(false);
+    mockedFetch.mockRejectedValueOnce(new Error('socket hang up'));
+
+    const result = await locationService.extractLocations(article);
+
+    expect(result.analyzedText).toContain('Riverside Drive');
+  });
+});
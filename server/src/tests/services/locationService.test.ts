@@ -130,4 +130,34 @@ describe('LocationService', () => {
       locations: result.allLocations.map(l => ({ name: l.name, confidence: l.confidence }))
     });
   });
+
+  it('should extract people and organizations with mention counts', async () => {
+    const article: Article = {
+      id: 'test-entities-1',
+      title: 'Michelle Wu announces housing plan',
+      content: `
+        Mayor Michelle Wu unveiled the plan on Tuesday. Wu said Google and the FBI
+        had been consulted. Gov. Maura Healey's office declined to comment.
+      `,
+      source: 'test',
+      mass: 100000,
+      publishedAt: new Date().toISOString(),
+      location: ''
+    };
+
+    const result = await locationService.extractLocations(article, {
+      fetchFullContent: false
+    });
+
+    // The title mention and the surname-only mention count towards the full name
+    expect(result.entities).toEqual(expect.arrayContaining([
+      { name: 'Michelle Wu', type: 'person', count: 3 },
+      { name: 'Maura Healey', type: 'person', count: 1 },
+      { name: 'Google', type: 'organization', count: 1 },
+      { name: 'FBI', type: 'organization', count: 1 }
+    ]));
+    expect(result.entities?.[0].name).toBe('Michelle Wu');
+    // Lowercase nouns are not entities
+    expect(result.entities?.some(entity => entity.name === 'office')).toBe(false);
+  });
 });
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MassScorer } from '../../services/massScorer';
+import { MassScoringConfig } from '../../types/services/massScoring.type';
+
+describe('MassScorer', () => {
+  let scorer: MassScorer;
+
+  const config: MassScoringConfig = {
+    minMass: 10000,
+    maxMass: 500000,
+    curve: 1,
+    weights: { engagement: 0.5, length: 0.2, credibility: 0.2, image: 0.1 },
+    engagement: { commentWeight: 2, saturation: { reddit: 10000 }, defaultSaturation: 1000 },
+    length: { targetLength: 1000 },
+    credibility: { default: 0.5, publishers: { bbc: 0.9, 'reddit.com': 0.2 } },
+    recency: { halfLifeHours: 24 },
+    decay: { halfLifeHours: { reddit: 12 }, defaultHalfLifeHours: 24 }
+  };
+
+  beforeEach(() => {
+    scorer = new MassScorer(config);
+  });
+
+  it('should map the weighted score onto the mass range', () => {
+    const result = scorer.score({
+      source: 'newsapi',
+      publisher: 'BBC News',
+      title: 'x'.repeat(500),
+      hasImage: true
+    });
+
+    // (0.5 * 0.2 + 0.9 * 0.2 + 1 * 0.1) / 0.5, engagement does not apply
+    expect(result.signals).toEqual({ length: 0.5, credibility: 0.9, image: 1 });
+    expect(result.score).toBeCloseTo(0.76);
+    expect(result.mass).toBe(Math.round(10000 + 0.76 * 490000));
+  });
+
+  it('should score engagement on a log scale with a per-source saturation', () => {
+    const input = { source: 'reddit', title: 'Post', engagement: { score: 4999, comments: 0 } };
+
+    expect(scorer.score(input).signals.engagement).toBeCloseTo(Math.log10(5000) / Math.log10(10001));
+    expect(scorer.score({ ...input, source: 'other' }).signals.engagement).toBe(1);
+  });
+
+  it('should count comments with the configured weight', () => {
+    const votes = scorer.score({ source: 'reddit', title: 'Post', engagement: { score: 200, comments: 0 } });
+    const comments = scorer.score({ source: 'reddit', title: 'Post', engagement: { score: 0, comments: 100 } });
+
+    expect(comments.signals.engagement).toBeCloseTo(votes.signals.engagement);
+  });
+
+  it('should match publisher credibility by URL domain', () => {
+    const result = scorer.score({ source: 'reddit', url: 'https://www.reddit.com/r/news/comments/1', title: 'Post' });
+
+    expect(result.signals.credibility).toBe(0.2);
+  });
+
+  it('should keep masses within the configured range', () => {
+    const low = scorer.score({ source: 'reddit', title: '', engagement: { score: -50, comments: 0 }, hasImage: false, url: 'https://reddit.com/x' });
+    const high = scorer.score({
+      source: 'newsapi',
+      publisher: 'BBC',
+      title: 'x'.repeat(5000),
+      engagement: { score: 1000000, comments: 1000000 },
+      hasImage: true
+    });
+
+    expect(low.signals.engagement).toBe(0);
+    expect(low.mass).toBeGreaterThanOrEqual(10000);
+    expect(high.signals.length).toBe(1);
+    expect(high.signals.engagement).toBe(1);
+    expect(high.mass).toBeLessThanOrEqual(500000);
+  });
+
+  it('should give comparable masses to comparable articles from different sources', () => {
+    const article = { title: 'City council approves budget', content: 'c'.repeat(400), publisher: 'BBC', hasImage: true };
+
+    expect(scorer.calculateMass({ ...article, source: 'newsapi' })).toBe(scorer.calculateMass({ ...article, source: 'rss' }));
+  });
+
+  it('should leave recency out of the stored mass by default', () => {
+    const defaultScorer = new MassScorer();
+    const article = { source: 'rss', publisher: 'BBC', title: 'City council approves budget', content: 'c'.repeat(400) };
+    const dayOld = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    expect(defaultScorer.score({ ...article, publishedAt: dayOld }).signals).not.toHaveProperty('recency');
+    expect(defaultScorer.calculateMass({ ...article, publishedAt: dayOld })).toBe(defaultScorer.calculateMass(article));
+  });
+
+  it('should decay the recency signal by half-life', () => {
+    const recencyScorer = new MassScorer({ ...config, weights: { recency: 1 } });
+    const dayOld = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    expect(recencyScorer.score({ source: 'rss', title: 'Post', publishedAt: dayOld }).signals.recency).toBeCloseTo(0.5, 2);
+  });
+
+  describe('getEffectiveMass', () => {
+    const now = new Date('2025-10-15T12:00:00Z');
+    const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+    it('should halve the mass above the minimum every half-life of the source', () => {
+      expect(scorer.getEffectiveMass({ mass: 210000, source: 'reddit', publishedAt: hoursAgo(12) }, now)).toBe(110000);
+      expect(scorer.getEffectiveMass({ mass: 210000, source: 'newsapi', publishedAt: hoursAgo(48) }, now)).toBe(60000);
+    });
+
+    it('should leave fresh articles at their stored mass', () => {
+      expect(scorer.getEffectiveMass({ mass: 210000, source: 'reddit', publishedAt: hoursAgo(0) }, now)).toBe(210000);
+      expect(scorer.getEffectiveMass({ mass: 210000, source: 'reddit', publishedAt: hoursAgo(-2) }, now)).toBe(210000);
+    });
+
+    it('should shrink old articles towards the minimum mass', () => {
+      expect(scorer.getEffectiveMass({ mass: 500000, source: 'reddit', publishedAt: hoursAgo(6 * 24) }, now)).toBe(10120);
+    });
+
+    it('should return the stored mass when it cannot decay', () => {
+      expect(scorer.getEffectiveMass({ mass: 210000, source: 'reddit', publishedAt: 'not a date' }, now)).toBe(210000);
+      expect(scorer.getEffectiveMass({ mass: 5000, source: 'reddit', publishedAt: hoursAgo(48) }, now)).toBe(5000);
+    });
+  });
+
+  it('should use registered signals that have a weight', () => {
+    const customScorer = new MassScorer({ ...config, weights: { ...config.weights, local: 1 } });
+    customScorer.registerSignal('local', input => (input.title.includes('Boston') ? 1 : 0));
+
+    const local = customScorer.calculateMass({ source: 'rss', title: 'Boston news' });
+    const other = customScorer.calculateMass({ source: 'rss', title: 'Denver news' });
+
+    expect(local).toBeGreaterThan(other);
+  });
+
+  it('should load the config from a file and fill in missing settings', () => {
+    const configPath = path.join(os.tmpdir(), `mass-scoring-${process.pid}.json`);
+    fs.writeFileSync(configPath, JSON.stringify({ maxMass: 200000, weights: { length: 1 } }));
+    const previous = process.env.MASS_SCORING_CONFIG;
+    process.env.MASS_SCORING_CONFIG = configPath;
+
+    try {
+      const fileScorer = new MassScorer();
+
+      expect(fileScorer.getConfig().maxMass).toBe(200000);
+      expect(fileScorer.getConfig().minMass).toBe(10000);
+      expect(fileScorer.calculateMass({ source: 'rss', title: 'x'.repeat(5000) })).toBe(200000);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.MASS_SCORING_CONFIG;
+      } else {
+        process.env.MASS_SCORING_CONFIG = previous;
+      }
+      fs.unlinkSync(configPath);
+    }
+  });
+
+  it('should load the bundled config by default', () => {
+    const bundledScorer = new MassScorer();
+
+    expect(bundledScorer.getConfig().weights.engagement).toBeGreaterThan(0);
+    expect(bundledScorer.getConfig().credibility.publishers.reuters).toBeDefined();
+  });
+});
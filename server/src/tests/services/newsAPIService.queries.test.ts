@@ -0,0 +1,237 @@
+// Mock dependencies so only the stub NewsAPI server is contacted
+jest.mock('../../services/articleStore');
+jest.mock('../../services/locationService');
+jest.mock('../../database/MongoManager');
+jest.mock('../../services/quotaService', () => ({
+  __esModule: true,
+  QuotaExceededError: jest.requireActual('../../services/quotaService').QuotaExceededError,
+  default: { tryConsume: jest.fn() }
+}));
+jest.mock('../../utils/locationUtils', () => ({
+  geocodeArticleLocation: jest.fn().mockImplementation(async (article) => article)
+}));
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NewsAPIService } from '../../services/newsAPIService';
+import { ArticlePipeline } from '../../services/articlePipeline';
+import { ArticleStore } from '../../services/articleStore';
+import { GeocodingService } from '../../services/geocodingService';
+import { StoryClusterService } from '../../services/storyClusterService';
+import { TopicClassifier } from '../../services/topicClassifier';
+import MongoManager from '../../database/MongoManager';
+import quotaService from '../../services/quotaService';
+import resilience from '../../services/resilienceService';
+import { geocodeArticleLocation } from '../../utils/locationUtils';
+import { NewsAPIArticle, NewsAPIQuery } from '../../types/services/newsapi.type';
+import { Article } from '../../types/models/article.type';
+import { StoreArticlesResult } from '../../types/services/articleStore.type';
+
+const mockedTryConsume = quotaService.tryConsume as jest.Mock;
+
+/**
+ * Build a NewsAPI article
+ */
+function newsArticle(slug: string): NewsAPIArticle {
+  return {
+    source: { id: null, name: 'Example News' },
+    author: 'Reporter',
+    title: `Story ${slug}`,
+    description: `Description of ${slug}`,
+    url: `https://example.com/news/${slug}`,
+    urlToImage: null,
+    publishedAt: '2026-10-19T12:00:00Z',
+    content: `Content of ${slug}`
+  };
+}
+
+describe('NewsAPIService queries', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { path: string; params: URLSearchParams; apiKey?: string }[];
+  // Number of requests to answer with a 503 before answering normally
+  let failures: number;
+
+  // Answer top-headlines with two stories and everything with one of them plus a local story
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      requests.push({ path: url.pathname, params: url.searchParams, apiKey: req.headers['x-api-key'] as string | undefined });
+
+      if (failures > 0) {
+        failures--;
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+
+      const articles = url.pathname === '/v2/top-headlines'
+        ? [newsArticle('national'), newsArticle('shared')]
+        : [newsArticle('shared'), newsArticle('local')];
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', totalResults: articles.length, articles }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const queries: NewsAPIQuery[] = [
+    { name: 'us-headlines', endpoint: 'top-headlines', country: 'us' },
+    { name: 'dc-metro', endpoint: 'everything', q: '"Washington DC"', language: 'en', sortBy: 'publishedAt', pageSize: 20 }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    requests = [];
+    failures = 0;
+    process.env.NEWSAPI_API_KEY = 'test-key';
+    (MongoManager.isConnected as jest.Mock).mockReturnValue(false);
+    mockedTryConsume.mockResolvedValue('allowed');
+    (geocodeArticleLocation as jest.Mock).mockImplementation(async (article) => article);
+  });
+
+  it('should run each query against its endpoint with the API key', async () => {
+    const service = new NewsAPIService(queries, baseUrl);
+
+    await service.fetchArticles(10, true);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].path).toBe('/v2/top-headlines');
+    expect(requests[0].params.toString()).toBe('country=us&pageSize=10');
+    expect(requests[1].path).toBe('/v2/everything');
+    expect(requests[1].params.get('q')).toBe('"Washington DC"');
+    expect(requests[1].params.get('language')).toBe('en');
+    expect(requests[1].params.get('sortBy')).toBe('publishedAt');
+    expect(requests[1].params.get('pageSize')).toBe('20');
+    expect(requests.every(request => request.apiKey === 'test-key')).toBe(true);
+    expect(mockedTryConsume).toHaveBeenCalledTimes(2);
+  });
+
+  it('should tag articles with their query and merge the tags of articles several queries return', async () => {
+    const service = new NewsAPIService(queries, baseUrl);
+
+    const articles = await service.fetchArticles(10, true);
+    const tagsByTitle = Object.fromEntries(articles.map(article => [article.title, article.tags]));
+
+    expect(articles).toHaveLength(3);
+    expect(tagsByTitle['Story national']).toEqual(['newsapi/us-headlines']);
+    expect(tagsByTitle['Story shared']).toEqual(['newsapi/us-headlines', 'newsapi/dc-metro']);
+    expect(tagsByTitle['Story local']).toEqual(['newsapi/dc-metro']);
+  });
+
+  it('should skip queries missing the parameters their endpoint requires', async () => {
+    const service = new NewsAPIService([
+      { name: 'no-filter', endpoint: 'top-headlines' },
+      { name: 'no-terms', endpoint: 'everything', language: 'en' },
+      { name: 'outlets', endpoint: 'everything', domains: ['wtop.com', 'dcist.com'] }
+    ], baseUrl);
+
+    await service.fetchArticles(10, true);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].params.get('domains')).toBe('wtop.com,dcist.com');
+    expect(mockedTryConsume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop running queries once the quota is used up', async () => {
+    mockedTryConsume.mockResolvedValueOnce('allowed').mockResolvedValueOnce('refused');
+    const service = new NewsAPIService(queries, baseUrl);
+
+    const articles = await service.fetchArticles(10, true);
+
+    expect(requests).toHaveLength(1);
+    expect(articles.map(article => article.title)).toEqual(['Story national', 'Story shared']);
+  });
+
+  it('should consume quota for every attempt when a query is retried', async () => {
+    const sleep = jest.spyOn(resilience as any, 'sleep').mockResolvedValue(undefined);
+    failures = 1;
+    const service = new NewsAPIService([queries[0]], baseUrl);
+
+    const articles = await service.fetchArticles(10, true);
+
+    expect(requests).toHaveLength(2);
+    expect(mockedTryConsume).toHaveBeenCalledTimes(2);
+    expect(articles).toHaveLength(2);
+    sleep.mockRestore();
+  });
+
+  it('should not retry a query once the quota does not allow another attempt', async () => {
+    const sleep = jest.spyOn(resilience as any, 'sleep').mockResolvedValue(undefined);
+    mockedTryConsume.mockResolvedValueOnce('allowed').mockResolvedValueOnce('deferred');
+    failures = 1;
+    const service = new NewsAPIService(queries, baseUrl);
+
+    const articles = await service.fetchArticles(10, true);
+
+    expect(requests).toHaveLength(1);
+    expect(articles).toEqual([]);
+    sleep.mockRestore();
+  });
+
+  it('should leave storing to the pipeline so a first fetch counts its articles as inserted', async () => {
+    (MongoManager.isConnected as jest.Mock).mockReturnValue(true);
+    (geocodeArticleLocation as jest.Mock).mockImplementation(async (article) => ({ ...article, location: 'Washington, DC' }));
+    // Article store that remembers the ids it has seen
+    const storedIds = new Set<string>();
+    const store = {
+      storeArticles: jest.fn(async (articles: Article[]): Promise<StoreArticlesResult> => {
+        const inserted = articles.filter(article => !storedIds.has(article.id)).length;
+        articles.forEach(article => storedIds.add(article.id));
+        return { inserted, updated: 0, unchanged: articles.length - inserted, failed: 0, errors: [] };
+      })
+    };
+    const service = new NewsAPIService(queries, baseUrl);
+    service['articleStore'] = store as unknown as ArticleStore;
+    const geocodingService = {
+      geocodeLocation: jest.fn().mockResolvedValue({ coordinates: { latitude: 38.9072, longitude: -77.0369 } })
+    };
+    const pipeline = new ArticlePipeline(
+      store as unknown as ArticleStore,
+      geocodingService as unknown as GeocodingService,
+      { assignStories: jest.fn().mockResolvedValue(undefined) } as unknown as StoryClusterService,
+      { tagArticles: jest.fn() } as unknown as TopicClassifier
+    );
+
+    const outcome = await pipeline.runSource({
+      id: 'newsapi',
+      storeArticles: true,
+      enabled: true,
+      defaultLimit: 10,
+      fetch: options => service.fetchArticles(options?.limit, options?.forceFetch)
+    });
+
+    expect(store.storeArticles).toHaveBeenCalledTimes(1);
+    expect(outcome.inserted).toBeGreaterThan(0);
+    expect(outcome.inserted).toBe(3);
+    expect(outcome.unchanged).toBe(0);
+  });
+
+  it('should keep the NewsAPI image of each article', async () => {
+    const service = new NewsAPIService([queries[0]], baseUrl);
+
+    const article = await service['transformNewsAPIArticle']({ ...newsArticle('pictured'), urlToImage: 'https://example.com/lead.jpg' }, 'us-headlines');
+    const relative = await service['transformNewsAPIArticle']({ ...newsArticle('relative'), urlToImage: '/lead.jpg' }, 'us-headlines');
+
+    expect(article.imageUrl).toBe('https://example.com/lead.jpg');
+    expect(relative.imageUrl).toBeUndefined();
+  });
+
+  it('should cap the page size at the NewsAPI maximum', () => {
+    const service = new NewsAPIService(queries, 'https://newsapi.test/v2');
+
+    expect(service.buildQueryUrl(queries[0], 500)).toBe('https://newsapi.test/v2/top-headlines?country=us&pageSize=100');
+  });
+
+  it('should load the configured queries by default', () => {
+    const names = new NewsAPIService().getQueries().map(query => query.name);
+
+    expect(names).toEqual(['us-headlines', 'dc-metro', 'dc-outlets']);
+  });
+});
@@ -87,9 +87,6 @@ describe('NewsAPIService', () => {
         new Response(JSON.stringify(mockNewsAPIResponse), { status: 200 })
       );
       
-      // Mock the storeArticles method
-      mockArticleStore.storeArticles.mockResolvedValueOnce(2);
-      
       // Call the fetchArticles method with forceFetch=true
       const articles = await newsAPIService.fetchArticles(10, true);
       
@@ -110,8 +107,8 @@ describe('NewsAPIService', () => {
       expect(articles[0].source).toBe('newsapi');
       expect(articles[0].sourceUrl).toBe('https://example.com/article1');
       
-      // Verify the articles were stored
-      expect(mockArticleStore.storeArticles).toHaveBeenCalledWith(articles);
+      // Verify the articles were left for the fetch pipeline to store
+      expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
     });
     
     it('should return stored articles if available and not forcing fetch', async () => {
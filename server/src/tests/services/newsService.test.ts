@@ -51,6 +51,28 @@ describe('NewsService', () => {
     });
   });
 
+  describe('fetchFromSubreddits', () => {
+    it('should call RedditService.fetchSubreddits with the configured subreddits by default', async () => {
+      const mockArticles = [{ id: 'test-article' }];
+      mockRedditService.getSubreddits.mockReturnValue([{ name: 'news' }, { name: 'washingtondc' }]);
+      mockRedditService.fetchSubreddits.mockResolvedValue(mockArticles as any);
+
+      const result = await newsService.fetchFromSubreddits();
+
+      expect(mockRedditService.fetchSubreddits).toHaveBeenCalledWith(undefined, 50, false);
+      expect(result).toEqual(mockArticles);
+    });
+
+    it('should call RedditService.fetchSubreddits with the given subreddits', async () => {
+      const subreddits = [{ name: 'nyc', limit: 10, timeframe: 'week' as const }];
+      mockRedditService.fetchSubreddits.mockResolvedValue([]);
+
+      await newsService.fetchFromSubreddits(subreddits, 25, true);
+
+      expect(mockRedditService.fetchSubreddits).toHaveBeenCalledWith(subreddits, 25, true);
+    });
+  });
+
   describe('fetchFromNewsAPI', () => {
     it('should call NewsAPIService.fetchArticles with default parameters', async () => {
       // Setup
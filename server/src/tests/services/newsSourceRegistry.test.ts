@@ -0,0 +1,109 @@
+import { NewsSourceRegistry } from '../../services/newsSourceRegistry';
+import { NewsSourceProvider } from '../../types/services/newsSource.type';
+
+describe('NewsSourceRegistry', () => {
+  let registry: NewsSourceRegistry;
+
+  // Create a simple provider for testing
+  const createProvider = (id: string, enabled: boolean = true): NewsSourceProvider => ({
+    id,
+    enabled,
+    defaultLimit: 10,
+    storeArticles: true,
+    fetch: jest.fn().mockResolvedValue([])
+  });
+
+  beforeEach(() => {
+    registry = new NewsSourceRegistry();
+  });
+
+  it('should register and look up providers by id', () => {
+    const provider = createProvider('reddit');
+    registry.register(provider);
+
+    expect(registry.has('reddit')).toBe(true);
+    expect(registry.get('reddit')).toBe(provider);
+    expect(registry.get('unknown')).toBeUndefined();
+  });
+
+  it('should keep providers in registration order', () => {
+    registry.register(createProvider('reddit'));
+    registry.register(createProvider('newsapi'));
+    registry.register(createProvider('twitter'));
+
+    expect(registry.getAll().map(provider => provider.id)).toEqual(['reddit', 'newsapi', 'twitter']);
+  });
+
+  it('should replace a provider registered with the same id', () => {
+    const first = createProvider('reddit');
+    const second = createProvider('reddit');
+    registry.register(first);
+    registry.register(second);
+
+    expect(registry.getAll()).toHaveLength(1);
+    expect(registry.get('reddit')).toBe(second);
+  });
+
+  it('should unregister providers', () => {
+    registry.register(createProvider('reddit'));
+
+    expect(registry.unregister('reddit')).toBe(true);
+    expect(registry.unregister('reddit')).toBe(false);
+    expect(registry.has('reddit')).toBe(false);
+  });
+
+  it('should only return enabled providers from getEnabled', () => {
+    registry.register(createProvider('reddit'));
+    registry.register(createProvider('twitter', false));
+
+    expect(registry.getEnabled().map(provider => provider.id)).toEqual(['reddit']);
+  });
+
+  it('should toggle providers with setEnabled', () => {
+    registry.register(createProvider('reddit'));
+
+    expect(registry.setEnabled('reddit', false)).toBe(true);
+    expect(registry.getEnabled()).toHaveLength(0);
+    expect(registry.setEnabled('unknown', true)).toBe(false);
+  });
+
+  it('should summarize providers for status reporting', () => {
+    registry.register(createProvider('reddit'));
+
+    expect(registry.getSummaries()).toEqual([
+      { id: 'reddit', enabled: true, defaultLimit: 10, storeArticles: true }
+    ]);
+  });
+
+  it('should apply configuration overrides', () => {
+    registry.register(createProvider('reddit'));
+
+    expect(registry.configure('reddit', { enabled: false, limit: 25, schedule: '*/30 * * * *' })).toBe(true);
+    expect(registry.get('reddit')).toMatchObject({ enabled: false, defaultLimit: 25, schedule: '*/30 * * * *' });
+    expect(registry.configure('unknown', { enabled: true })).toBe(false);
+  });
+
+  it('should ignore invalid limits and schedules', () => {
+    registry.register(createProvider('reddit'));
+
+    registry.configure('reddit', { limit: -1, schedule: 'every hour' });
+
+    expect(registry.get('reddit')!.defaultLimit).toBe(10);
+    expect(registry.get('reddit')!.schedule).toBeUndefined();
+  });
+
+  it('should configure providers from environment variables', () => {
+    registry.register(createProvider('reddit'));
+    registry.register(createProvider('newsapi'));
+
+    registry.configureFromEnv({
+      REDDIT_FETCH_SCHEDULE: '*/15 * * * *',
+      REDDIT_FETCH_LIMIT: '100',
+      NEWSAPI_FETCH_ENABLED: 'false'
+    });
+
+    expect(registry.get('reddit')).toMatchObject({ enabled: true, defaultLimit: 100, schedule: '*/15 * * * *' });
+    expect(registry.get('newsapi')).toMatchObject({ enabled: false, defaultLimit: 10 });
+    expect(registry.get('newsapi')!.schedule).toBeUndefined();
+  });
+});
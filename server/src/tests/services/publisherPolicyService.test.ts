@@ -0,0 +1,133 @@
+// Mock node-fetch before importing the service
+jest.mock('node-fetch');
+
+import { PublisherPolicyService } from '../../services/publisherPolicyService';
+import { PublisherPolicyConfig } from '../../types/services/publisherPolicy.type';
+
+const mockedFetch = jest.requireMock('node-fetch').default as jest.Mock;
+const { Response } = jest.requireActual('node-fetch');
+
+describe('PublisherPolicyService', () => {
+  const config: PublisherPolicyConfig = {
+    userAgent: 'OrbitalNewsBot/1.0',
+    skipDomains: ['paywalled.com'],
+    robotsCacheHours: 24,
+    defaultCrawlDelaySeconds: 1,
+    maxCrawlDelaySeconds: 30,
+    maxWaitSeconds: 5
+  };
+
+  // Create a service whose waits resolve immediately, recording how long it would have waited
+  const createService = (overrides: Partial<PublisherPolicyConfig> = {}) => {
+    const service = new PublisherPolicyService({ ...config, ...overrides });
+    const sleep = jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+    return { service, sleep };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('isSkipped', () => {
+    it('should match skipped domains and their subdomains only', () => {
+      const { service } = createService();
+
+      expect(service.isSkipped('https://paywalled.com/story')).toBe(true);
+      expect(service.isSkipped('https://www.paywalled.com/story')).toBe(true);
+      expect(service.isSkipped('https://notpaywalled.com/story')).toBe(false);
+      expect(service.isSkipped('not a url')).toBe(false);
+    });
+  });
+
+  describe('requestFetch', () => {
+    it('should skip publishers on the skip list without fetching robots.txt', async () => {
+      const { service } = createService();
+
+      await expect(service.requestFetch('https://www.paywalled.com/story')).resolves.toBe('skipped');
+      expect(mockedFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject URLs that are not web pages', async () => {
+      const { service } = createService();
+
+      await expect(service.requestFetch('not a url')).resolves.toBe('invalid-url');
+      await expect(service.requestFetch('ftp://example.com/file')).resolves.toBe('invalid-url');
+    });
+
+    it('should follow robots.txt, fetching it once per site with our user agent', async () => {
+      mockedFetch.mockResolvedValue(new Response('User-agent: *\nDisallow: /private/', { status: 200 }));
+      const { service } = createService();
+
+      await expect(service.requestFetch('https://example.com/news/story')).resolves.toBe('allowed');
+      await expect(service.requestFetch('https://example.com/private/story')).resolves.toBe('disallowed');
+
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+      expect(mockedFetch).toHaveBeenCalledWith('https://example.com/robots.txt', expect.objectContaining({
+        headers: { 'User-Agent': 'OrbitalNewsBot/1.0' }
+      }));
+    });
+
+    it('should allow everything when a site has no robots.txt', async () => {
+      mockedFetch.mockResolvedValue(new Response('Not found', { status: 404 }));
+      const { service } = createService();
+
+      await expect(service.requestFetch('https://example.com/news/story')).resolves.toBe('allowed');
+    });
+
+    it('should disallow everything when robots.txt cannot be reached, and retry it later', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      mockedFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+      const { service } = createService();
+
+      await expect(service.requestFetch('https://example.com/news/story')).resolves.toBe('disallowed');
+
+      jest.setSystemTime(new Date('2025-06-01T13:00:01Z'));
+      mockedFetch.mockResolvedValueOnce(new Response('', { status: 200 }));
+
+      await expect(service.requestFetch('https://example.com/news/story')).resolves.toBe('allowed');
+      expect(mockedFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one robots.txt request between concurrent lookups', async () => {
+      mockedFetch.mockResolvedValue(new Response('', { status: 200 }));
+      const { service } = createService();
+
+      await Promise.all([
+        service.getRobotsRules('https://example.com'),
+        service.getRobotsRules('https://example.com')
+      ]);
+
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should space requests to the same host by the robots.txt crawl delay', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      mockedFetch.mockImplementation(async () => new Response('User-agent: *\nCrawl-delay: 3', { status: 200 }));
+      const { service, sleep } = createService();
+
+      await expect(service.requestFetch('https://example.com/a')).resolves.toBe('allowed');
+      await expect(service.requestFetch('https://example.com/b')).resolves.toBe('allowed');
+      await expect(service.requestFetch('https://other.example.org/c')).resolves.toBe('allowed');
+
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(sleep).toHaveBeenCalledWith(3000);
+    });
+
+    it('should give up when the wait for the host is longer than the maximum wait', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      mockedFetch.mockResolvedValue(new Response('User-agent: *\nCrawl-delay: 60', { status: 200 }));
+      const { service } = createService({ maxCrawlDelaySeconds: 10 });
+
+      await expect(service.requestFetch('https://example.com/a')).resolves.toBe('allowed');
+      await expect(service.requestFetch('https://example.com/b')).resolves.toBe('rate-limited');
+
+      // The crawl delay is capped at maxCrawlDelaySeconds
+      jest.setSystemTime(new Date('2025-06-01T12:00:10Z'));
+      await expect(service.requestFetch('https://example.com/c')).resolves.toBe('allowed');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { QuotaService } from '../../services/quotaService';
+import ApiQuotaModel from '../../models/ApiQuotaSchema';
+import mongoManager from '../../database/MongoManager';
+
+describe('QuotaService', () => {
+  const today = new Date().toISOString().substring(0, 10);
+
+  // Make findOneAndUpdate resolve with the given document
+  const mockUpsert = (doc: unknown): jest.Mock => {
+    const upsert = jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(doc) });
+    (ApiQuotaModel.findOneAndUpdate as jest.Mock) = upsert;
+    return upsert;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('tryConsume', () => {
+    it('should count allowed calls in the database', async () => {
+      const upsert = mockUpsert({ provider: 'newsapi', date: today, count: 1 });
+      const quotaService = new QuotaService({ newsapi: 100 }, false);
+
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('allowed');
+
+      expect(upsert).toHaveBeenCalledWith(
+        { provider: 'newsapi', date: today, count: { $lte: 99 } },
+        { $inc: { count: 1 } },
+        { upsert: true, new: true }
+      );
+      expect(quotaService.getStatus()).toEqual([
+        { provider: 'newsapi', date: today, used: 1, limit: 100, remaining: 99, allowance: 100 }
+      ]);
+    });
+
+    it('should refuse calls once the daily budget is used up', async () => {
+      mockUpsert({ provider: 'newsapi', date: today, count: 2 });
+      const quotaService = new QuotaService({ newsapi: 2 }, false);
+
+      await quotaService.tryConsume('newsapi');
+
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('refused');
+      expect(ApiQuotaModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should defer calls beyond the paced hourly allowance', async () => {
+      jest.useFakeTimers({ now: new Date(`${today}T00:30:00Z`) });
+      mockUpsert(null);
+      const quotaService = new QuotaService({ opencage: 48 });
+
+      // The first hour releases 48 * 1/24 = 2 requests
+      await expect(quotaService.tryConsume('opencage')).resolves.toBe('allowed');
+      await expect(quotaService.tryConsume('opencage')).resolves.toBe('allowed');
+      await expect(quotaService.tryConsume('opencage')).resolves.toBe('deferred');
+
+      jest.setSystemTime(new Date(`${today}T01:30:00Z`));
+      await expect(quotaService.tryConsume('opencage')).resolves.toBe('allowed');
+    });
+
+    it('should report another instance using up the budget', async () => {
+      (ApiQuotaModel.findOneAndUpdate as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }))
+      });
+      (ApiQuotaModel.findOne as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue({ provider: 'newsapi', date: today, count: 10 })
+      });
+      const quotaService = new QuotaService({ newsapi: 10 }, false);
+
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('refused');
+      expect(quotaService.getStatus()[0]).toMatchObject({ used: 10, remaining: 0 });
+    });
+
+    it('should fall back to the usage it last saw when the usage of another instance cannot be read', async () => {
+      (ApiQuotaModel.findOneAndUpdate as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }))
+      });
+      (ApiQuotaModel.findOne as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockRejectedValue(new Error('Connection lost'))
+      });
+      const quotaService = new QuotaService({ newsapi: 10 }, false);
+
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('deferred');
+      expect(quotaService.getStatus()[0]).toMatchObject({ used: 0, remaining: 10 });
+    });
+
+    it('should always allow providers without a budget', async () => {
+      const upsert = mockUpsert({ provider: 'opencage', date: today, count: 5000 });
+      const quotaService = new QuotaService({ opencage: null });
+
+      await expect(quotaService.tryConsume('opencage')).resolves.toBe('allowed');
+
+      expect(upsert.mock.calls[0][0]).toEqual({ provider: 'opencage', date: today });
+      expect(quotaService.getStatus()[0]).toMatchObject({ used: 5000, limit: null, remaining: null });
+    });
+
+    it('should count in memory when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+      const upsert = mockUpsert(null);
+      const quotaService = new QuotaService({ newsapi: 1 }, false);
+
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('allowed');
+      await expect(quotaService.tryConsume('newsapi')).resolves.toBe('refused');
+      expect(upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should load today\'s usage from the database', async () => {
+      (ApiQuotaModel.find as jest.Mock) = jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue([{ provider: 'opencage', date: today, count: 1200 }])
+      });
+      const quotaService = new QuotaService({ newsapi: 100, opencage: 2500 }, false);
+
+      await quotaService.refresh();
+
+      expect(ApiQuotaModel.find).toHaveBeenCalledWith({ date: today });
+      expect(quotaService.getStatus()).toEqual([
+        { provider: 'newsapi', date: today, used: 0, limit: 100, remaining: 100, allowance: 100 },
+        { provider: 'opencage', date: today, used: 1200, limit: 2500, remaining: 1300, allowance: 2500 }
+      ]);
+    });
+  });
+});
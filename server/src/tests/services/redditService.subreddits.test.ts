@@ -0,0 +1,176 @@
+// Mock dependencies so no request leaves the test
+jest.mock('../../services/articleStore');
+jest.mock('../../services/locationService');
+jest.mock('../../database/MongoManager');
+jest.mock('../../services/resilienceService', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn() }
+}));
+jest.mock('../../utils/locationUtils', () => ({
+  geocodeArticleLocation: jest.fn().mockImplementation(async (article) => article)
+}));
+
+import { RedditService } from '../../services/redditService';
+import MongoManager from '../../database/MongoManager';
+import resilience from '../../services/resilienceService';
+import { RedditIngestionConfig, RedditPost } from '../../types/services/reddit.type';
+
+const mockedFetch = resilience.fetch as jest.Mock;
+
+/**
+ * Build a listing page response with posts numbered from `first`
+ */
+function listingPage(subreddit: string, first: number, count: number, after: string | null) {
+  const children = Array.from({ length: count }, (_, i): { kind: string; data: RedditPost } => ({
+    kind: 't3',
+    data: {
+      id: `${subreddit}${first + i}`,
+      title: `Post ${first + i} in r/${subreddit}`,
+      url: `https://example.com/${subreddit}/${first + i}`,
+      author: 'someone',
+      created_utc: Date.now() / 1000,
+      permalink: `/r/${subreddit}/comments/${first + i}/`,
+      score: 100,
+      num_comments: 10,
+      subreddit
+    }
+  }));
+
+  return {
+    ok: true,
+    status: 200,
+    json: jest.fn().mockResolvedValue({ kind: 'Listing', data: { children, after, before: null } })
+  };
+}
+
+describe('RedditService subreddits', () => {
+  const config: RedditIngestionConfig = {
+    maxPages: 2,
+    subreddits: [
+      { name: 'news', limit: 150, timeframe: 'day' },
+      { name: 'washingtondc', timeframe: 'week' }
+    ]
+  };
+
+  let redditService: RedditService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (MongoManager.isConnected as jest.Mock).mockReturnValue(false);
+    redditService = new RedditService(config);
+    jest.spyOn(redditService as any, 'getAccessToken').mockResolvedValue('mock-token');
+  });
+
+  it('should fetch each configured subreddit with its limit and time frame', async () => {
+    mockedFetch.mockImplementation(async (_circuit: string, url: string) => {
+      const sub = url.includes('/r/news/') ? 'news' : 'washingtondc';
+      return listingPage(sub, 0, 5, null);
+    });
+
+    await redditService.fetchSubreddits(undefined, 20);
+
+    const urls = mockedFetch.mock.calls.map(call => call[1]);
+    expect(urls).toEqual(expect.arrayContaining([
+      'https://oauth.reddit.com/r/news/top.json?limit=100&t=day',
+      'https://oauth.reddit.com/r/washingtondc/top.json?limit=20&t=week'
+    ]));
+    expect(mockedFetch.mock.calls[0][2].headers.Authorization).toBe('Bearer mock-token');
+  });
+
+  it('should follow the after cursor until the limit is reached', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(listingPage('news', 0, 100, 't3_page2'))
+      .mockResolvedValueOnce(listingPage('news', 100, 50, 't3_page3'));
+
+    const articles = await redditService.fetchSubreddits([{ name: 'news', limit: 150 }]);
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(mockedFetch.mock.calls[1][1]).toBe('https://oauth.reddit.com/r/news/top.json?limit=50&t=day&after=t3_page2');
+    expect(articles).toHaveLength(150);
+    expect(articles[149].id).toBe('reddit-news149');
+  });
+
+  it('should stop following pages at the page cap', async () => {
+    mockedFetch.mockImplementation(async (_circuit: string, url: string) => {
+      const page = url.includes('after=') ? 1 : 0;
+      return listingPage('news', page * 100, 100, `t3_page${page + 2}`);
+    });
+
+    const articles = await redditService.fetchSubreddits([{ name: 'news', limit: 1000 }]);
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(articles).toHaveLength(200);
+  });
+
+  it('should stop at the end of the listing', async () => {
+    mockedFetch.mockResolvedValueOnce(listingPage('news', 0, 30, null));
+
+    const articles = await redditService.fetchSubreddits([{ name: 'news', limit: 150 }]);
+
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    expect(articles).toHaveLength(30);
+  });
+
+  it('should keep the pages fetched before an error', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(listingPage('news', 0, 100, 't3_page2'))
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+    const articles = await redditService.fetchSubreddits([{ name: 'news', limit: 150 }]);
+
+    expect(articles).toHaveLength(100);
+  });
+
+  it('should tag each article with the subreddit it came from', async () => {
+    mockedFetch.mockImplementation(async (_circuit: string, url: string) => {
+      const sub = url.includes('/r/news/') ? 'news' : 'washingtondc';
+      return listingPage(sub, 0, 1, null);
+    });
+
+    const articles = await redditService.fetchSubreddits();
+
+    expect(articles.find(article => article.id === 'reddit-news0')?.tags).toEqual(['r/news']);
+    expect(articles.find(article => article.id === 'reddit-washingtondc0')?.tags).toEqual(['r/washingtondc']);
+  });
+
+  it('should take the lead image from the preview, or else the thumbnail', async () => {
+    const post: RedditPost = {
+      id: 'img1',
+      title: 'Crews rebuild the Key Bridge',
+      url: 'https://example.com/news/key-bridge',
+      author: 'someone',
+      created_utc: Date.now() / 1000,
+      permalink: '/r/news/comments/img1/',
+      score: 100,
+      num_comments: 10
+    };
+    const preview = await redditService['transformRedditPost']({
+      ...post,
+      preview: { images: [{ source: { url: 'https://preview.redd.it/abc.jpg?width=1080&amp;s=xyz', width: 1080, height: 720 } }] },
+      thumbnail: 'https://b.thumbs.redditmedia.com/abc.jpg'
+    }, 'news');
+    const thumbnail = await redditService['transformRedditPost']({
+      ...post,
+      thumbnail: 'https://b.thumbs.redditmedia.com/abc.jpg',
+      thumbnail_width: 140,
+      thumbnail_height: 93
+    }, 'news');
+    const self = await redditService['transformRedditPost']({ ...post, thumbnail: 'self' }, 'news');
+
+    expect(preview).toEqual(expect.objectContaining({
+      imageUrl: 'https://preview.redd.it/abc.jpg?width=1080&s=xyz',
+      imageWidth: 1080,
+      imageHeight: 720
+    }));
+    expect(thumbnail).toEqual(expect.objectContaining({
+      imageUrl: 'https://b.thumbs.redditmedia.com/abc.jpg',
+      imageWidth: 140,
+      imageHeight: 93
+    }));
+    expect(self.imageUrl).toBeUndefined();
+  });
+
+  it('should return the configured subreddits', () => {
+    expect(redditService.getSubreddits()).toEqual(config.subreddits);
+  });
+});
@@ -54,9 +54,6 @@ describe('RedditService', () => {
     // Inject mocks into RedditService instance
     redditService['articleStore'] = mockArticleStore;
     redditService['locationService'] = mockLocationService;
-    
-    // Mock the checkForTodaysArticles method to avoid actual API calls during initialization
-    jest.spyOn(redditService as any, 'checkForTodaysArticles').mockImplementation(() => {});
   });
   
   // Basic functionality test
@@ -193,7 +190,7 @@ describe('RedditService', () => {
       score: 50,
       num_comments: 5,
       link_flair_text: ''
-    });
+    }, 'test');
     
     const highMassPost = redditService['transformRedditPost']({
       id: 'high-mass',
@@ -206,7 +203,7 @@ describe('RedditService', () => {
       score: 20000,
       num_comments: 200,
       link_flair_text: ''
-    });
+    }, 'test');
     
     // Check the mass calculation and tier assignment in the transformed posts
     const resolvedLowMassPost = await lowMassPost;
@@ -227,8 +224,8 @@ describe('RedditService', () => {
     expect(highMassTier).toBe('close');
   });
   
-  // Test for integration with ArticleStore
-  test('should store articles in ArticleStore', async () => {
+  // The fetch pipeline stores articles, so the service must not store them itself
+  test('should leave storing articles to the fetch pipeline', async () => {
     // Mock the getAccessToken method to avoid actual API calls
     jest.spyOn(redditService as any, 'getAccessToken').mockResolvedValue('mock-token');
     
@@ -246,8 +243,8 @@ describe('RedditService', () => {
     // Fetch articles
     await redditService.fetchArticles();
     
-    // Verify articleStore.storeArticles was called
-    expect(mockArticleStore.storeArticles).toHaveBeenCalled();
+    // Verify articleStore.storeArticles was not called
+    expect(mockArticleStore.storeArticles).not.toHaveBeenCalled();
   });
   
 });
@@ -0,0 +1,195 @@
+jest.mock('node-fetch');
+
+import { CircuitBreaker, CircuitOpenError, HttpStatusError, ResilienceService } from '../../services/resilienceService';
+
+// Import the mocked fetch function
+const fetchModule = jest.requireMock('node-fetch');
+const mockedFetch = fetchModule.default;
+
+// Get Response from actual node-fetch
+const { Response } = jest.requireActual('node-fetch');
+
+describe('ResilienceService', () => {
+  let resilience: ResilienceService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFetch.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    // Keep backoff delays short so tests run quickly
+    resilience = new ResilienceService(
+      { retries: 2, baseDelayMs: 1, maxDelayMs: 50 },
+      { failureThreshold: 3, resetTimeoutMs: 1000 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('execute', () => {
+    it('should return the result of a successful operation', async () => {
+      const operation = jest.fn().mockResolvedValue('ok');
+
+      await expect(resilience.execute('test', operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient failures until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new HttpStatusError('Service Unavailable', 503))
+        .mockResolvedValue('ok');
+
+      await expect(resilience.execute('test', operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(resilience.getBreaker('test').getStatus()).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpStatusError('Bad Gateway', 502));
+
+      await expect(resilience.execute('test', operation, { retries: 1 })).rejects.toThrow('Bad Gateway');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('Invalid response'));
+
+      await expect(resilience.execute('test', operation)).rejects.toThrow('Invalid response');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(resilience.getBreaker('test').getStatus().failures).toBe(0);
+    });
+
+    it('should retry OpenCage rate limit errors', async () => {
+      const rateLimited = Object.assign(new Error('rate limit exceeded'), { response: { status: { code: 429 } } });
+      const operation = jest.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue({ results: [] });
+
+      await expect(resilience.execute('opencage', operation)).resolves.toEqual({ results: [] });
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should open the circuit after repeated failures and reject further calls', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpStatusError('Service Unavailable', 503));
+
+      // Three failed attempts reach the threshold
+      await expect(resilience.execute('test', operation)).rejects.toThrow('Service Unavailable');
+      expect(resilience.getBreaker('test').getStatus().state).toBe('open');
+
+      operation.mockClear();
+      await expect(resilience.execute('test', operation)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetch', () => {
+    it('should retry 5xx responses', async () => {
+      mockedFetch
+        .mockResolvedValueOnce(new Response('error', { status: 500, statusText: 'Internal Server Error' }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      const response = await resilience.fetch('test', 'https://example.com/api');
+
+      expect(response.status).toBe(200);
+      expect(mockedFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return client errors without retrying', async () => {
+      mockedFetch.mockResolvedValue(new Response('unauthorized', { status: 401, statusText: 'Unauthorized' }));
+
+      const response = await resilience.fetch('test', 'https://example.com/api');
+
+      expect(response.status).toBe(401);
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      mockedFetch
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0.02' } }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      const start = Date.now();
+      const response = await resilience.fetch('test', 'https://example.com/api');
+
+      expect(response.status).toBe(200);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    });
+
+    it('should not wait when Retry-After exceeds the maximum delay', async () => {
+      mockedFetch.mockResolvedValue(new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+
+      await expect(resilience.fetch('test', 'https://example.com/api')).rejects.toMatchObject({
+        statusCode: 429,
+        retryAfterMs: 3600000
+      });
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report every circuit that has been used', async () => {
+      await resilience.execute('reddit', async () => 'ok');
+      await resilience.execute('newsapi', async () => 'ok');
+
+      expect(resilience.getStatus()).toEqual([
+        { name: 'reddit', state: 'closed', failures: 0, openedAt: null, nextAttemptAt: null },
+        { name: 'newsapi', state: 'closed', failures: 0, openedAt: null, nextAttemptAt: null }
+      ]);
+    });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should move to half-open after the reset timeout and allow a single trial call', () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getStatus().nextAttemptAt).toBe(new Date(now + 1000).toISOString());
+
+    (Date.now as jest.Mock).mockReturnValue(now + 1000);
+
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close after a successful trial call', () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    (Date.now as jest.Mock).mockReturnValue(now + 1000);
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('should re-open after a failed trial call', () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    (Date.now as jest.Mock).mockReturnValue(now + 1000);
+
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: new Date(now + 1000).toISOString() });
+  });
+});
@@ -0,0 +1,202 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import cron from 'node-cron';
+import { RetentionService } from '../../services/retentionService';
+import ArticleModel from '../../models/ArticleSchema';
+import ArchivedArticleModel from '../../models/ArchivedArticleSchema';
+import mongoManager from '../../database/MongoManager';
+import { LeaseService } from '../../services/leaseService';
+
+jest.mock('node-cron', () => ({
+  validate: jest.fn().mockReturnValue(true),
+  schedule: jest.fn().mockReturnValue({
+    stop: jest.fn()
+  })
+}));
+
+describe('RetentionService', () => {
+  let retentionService: RetentionService;
+  let mockLeaseService: { acquire: jest.Mock; release: jest.Mock };
+
+  const oldArticle = (i: number): Record<string, unknown> => ({
+    _id: `mongodb-id-${i}`,
+    __v: 0,
+    articleId: `reddit-${i}`,
+    title: `Old article ${i}`,
+    source: 'reddit',
+    publishedAt: '2025-08-01T12:00:00.000Z',
+    location: 'Boston',
+    mass: 100000
+  });
+
+  const mockArticlePages = (...pages: object[][]) => {
+    const find = jest.fn();
+    pages.forEach(page => find.mockReturnValueOnce({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue(page)
+    }));
+    (ArticleModel.find as jest.Mock) = find;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-10-15T12:00:00Z') });
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+
+    mockLeaseService = {
+      acquire: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined)
+    };
+    (ArchivedArticleModel.bulkWrite as jest.Mock) = jest.fn().mockResolvedValue({ upsertedCount: 2 });
+    (ArticleModel.deleteMany as jest.Mock) = jest.fn().mockImplementation((query: { _id?: { $in: unknown[] } }) =>
+      Promise.resolve({ deletedCount: query._id ? query._id.$in.length : 7 }));
+
+    retentionService = new RetentionService(
+      { enabled: true, retentionDays: 30, mode: 'archive', schedule: '30 3 * * *', batchSize: 2 },
+      mockLeaseService as unknown as LeaseService
+    );
+  });
+
+  afterEach(() => {
+    retentionService.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('start', () => {
+    it('should schedule the retention job', () => {
+      retentionService.start();
+
+      expect(cron.schedule).toHaveBeenCalledWith('30 3 * * *', expect.any(Function));
+      expect(retentionService.getStatus()).toMatchObject({ isScheduled: true, mode: 'archive', retentionDays: 30 });
+    });
+
+    it('should not schedule the job when retention is disabled', () => {
+      retentionService = new RetentionService({ enabled: false }, mockLeaseService as unknown as LeaseService);
+      retentionService.start();
+
+      expect(cron.schedule).not.toHaveBeenCalled();
+      expect(retentionService.getStatus().isScheduled).toBe(false);
+    });
+  });
+
+  describe('runRetention', () => {
+    it('should move old articles to the archive in batches', async () => {
+      mockArticlePages([oldArticle(1), oldArticle(2)], [oldArticle(3)]);
+
+      const result = await retentionService.runRetention();
+
+      expect(ArticleModel.find).toHaveBeenCalledWith({ publishedAt: { $lt: '2025-09-15T12:00:00.000Z' } });
+      expect(ArchivedArticleModel.bulkWrite).toHaveBeenCalledTimes(2);
+
+      const [operations] = (ArchivedArticleModel.bulkWrite as jest.Mock).mock.calls[0];
+      expect(operations[0]).toEqual({
+        replaceOne: {
+          filter: { articleId: 'reddit-1' },
+          replacement: {
+            articleId: 'reddit-1',
+            title: 'Old article 1',
+            source: 'reddit',
+            publishedAt: '2025-08-01T12:00:00.000Z',
+            location: 'Boston',
+            mass: 100000,
+            archivedAt: new Date('2025-10-15T12:00:00Z')
+          },
+          upsert: true
+        }
+      });
+      expect(ArticleModel.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['mongodb-id-1', 'mongodb-id-2'] } });
+      expect(result).toMatchObject({ mode: 'archive', archived: 3, deleted: 0, cutoff: new Date('2025-09-15T12:00:00Z') });
+      expect(mockLeaseService.release).toHaveBeenCalledWith('retention');
+    });
+
+    it('should stop when archived articles cannot be removed', async () => {
+      mockArticlePages([oldArticle(1), oldArticle(2)], [oldArticle(1), oldArticle(2)]);
+      (ArticleModel.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 0 });
+
+      const result = await retentionService.runRetention();
+
+      expect(ArchivedArticleModel.bulkWrite).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ archived: 0, deleted: 0 });
+    });
+
+    it('should delete old articles in delete mode', async () => {
+      retentionService = new RetentionService({ mode: 'delete', retentionDays: 10 }, mockLeaseService as unknown as LeaseService);
+
+      const result = await retentionService.runRetention();
+
+      expect(ArticleModel.deleteMany).toHaveBeenCalledWith({ publishedAt: { $lt: '2025-10-05T12:00:00.000Z' } });
+      expect(ArchivedArticleModel.bulkWrite).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ mode: 'delete', archived: 0, deleted: 7 });
+    });
+
+    it('should skip the run when another instance holds the lease', async () => {
+      mockLeaseService.acquire.mockResolvedValue(false);
+
+      await expect(retentionService.runRetention()).resolves.toBeNull();
+      expect(ArticleModel.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should record errors and release the lease', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockArticlePages([oldArticle(1)]);
+      (ArchivedArticleModel.bulkWrite as jest.Mock).mockRejectedValue(new Error('write failed'));
+
+      const result = await retentionService.runRetention();
+
+      expect(result!.errorMessage).toBe('write failed');
+      expect(ArticleModel.deleteMany).not.toHaveBeenCalled();
+      expect(mockLeaseService.release).toHaveBeenCalledWith('retention');
+      expect(retentionService.getStatus().lastRun).toBe(result);
+    });
+  });
+
+  describe('getArchivedArticles', () => {
+    it('should return a page of archived articles in the date range', async () => {
+      const mockQuery = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue([{ ...oldArticle(1), archivedAt: new Date('2025-10-01T03:30:00Z') }])
+      };
+      (ArchivedArticleModel.find as jest.Mock) = jest.fn().mockReturnValue(mockQuery);
+      (ArchivedArticleModel.countDocuments as jest.Mock) = jest.fn().mockResolvedValue(21);
+
+      const page = await retentionService.getArchivedArticles({
+        from: new Date('2025-08-01T00:00:00Z'),
+        to: new Date('2025-08-02T00:00:00Z'),
+        source: 'reddit',
+        page: 2,
+        limit: 10
+      });
+
+      expect(ArchivedArticleModel.find).toHaveBeenCalledWith({
+        source: 'reddit',
+        publishedAt: { $gte: '2025-08-01T00:00:00.000Z', $lt: '2025-08-02T00:00:00.000Z' }
+      });
+      expect(mockQuery.sort).toHaveBeenCalledWith({ publishedAt: -1 });
+      expect(mockQuery.skip).toHaveBeenCalledWith(10);
+      expect(page).toMatchObject({ page: 2, limit: 10, total: 21, pages: 3 });
+      expect(page.articles[0]).toMatchObject({ id: 'reddit-1', title: 'Old article 1', archivedAt: new Date('2025-10-01T03:30:00Z') });
+    });
+
+    it('should return an empty page when the archive query fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (ArchivedArticleModel.find as jest.Mock) = jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockRejectedValue(new Error('connection reset'))
+      });
+      (ArchivedArticleModel.countDocuments as jest.Mock) = jest.fn().mockResolvedValue(21);
+
+      const page = await retentionService.getArchivedArticles({ page: 2, limit: 10 });
+
+      expect(page).toEqual({ articles: [], page: 2, limit: 10, total: 0, pages: 0 });
+    });
+  });
+});
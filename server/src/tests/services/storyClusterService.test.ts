@@ -0,0 +1,132 @@
+// Ensure mongoose is mocked before any imports that might use it
+import mongooseMock from '../mocks/mongooseMock';
+jest.mock('mongoose', () => mongooseMock);
+
+import { StoryClusterService } from '../../services/storyClusterService';
+import ArticleModel from '../../models/ArticleSchema';
+import mongoManager from '../../database/MongoManager';
+import { Article } from '../../types/models/article.type';
+
+describe('StoryClusterService', () => {
+  let clusterService: StoryClusterService;
+
+  const createArticle = (id: string, title: string, source: string, content: string = ''): Article => ({
+    id,
+    title,
+    content,
+    source,
+    publishedAt: '2025-10-15T12:00:00Z',
+    location: 'Boston',
+    mass: 100000
+  });
+
+  const mockStoredArticles = (docs: any[]) => {
+    (ArticleModel.find as jest.Mock) = jest.fn().mockReturnValue({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue(docs)
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(mongoManager, 'isConnected').mockReturnValue(true);
+    (ArticleModel.updateOne as jest.Mock) = jest.fn().mockResolvedValue({ matchedCount: 1 });
+    mockStoredArticles([]);
+
+    clusterService = new StoryClusterService(0.5, 48);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('assignStories', () => {
+    it('should group near-duplicate articles in the same batch', async () => {
+      const articles = [
+        createArticle('reddit-1', 'Magnitude 6.1 earthquake hits Los Angeles', 'reddit'),
+        createArticle('newsapi-1', 'Earthquake of magnitude 6.1 hits Los Angeles area', 'newsapi'),
+        createArticle('newsapi-2', 'City council approves new transit budget', 'newsapi')
+      ];
+
+      await clusterService.assignStories(articles);
+
+      expect(articles[0].storyId).toMatch(/^story-[0-9a-f]{16}$/);
+      expect(articles[1].storyId).toBe(articles[0].storyId);
+      expect(articles[2].storyId).not.toBe(articles[0].storyId);
+    });
+
+    it('should join the story of a similar stored article', async () => {
+      mockStoredArticles([
+        { articleId: 'reddit-1', title: 'Wildfire forces evacuations near Santa Barbara', content: '', storyId: 'story-existing' }
+      ]);
+
+      const articles = [createArticle('newsapi-1', 'Wildfire forces thousands of evacuations near Santa Barbara', 'newsapi')];
+      await clusterService.assignStories(articles);
+
+      expect(articles[0].storyId).toBe('story-existing');
+      expect(ArticleModel.find).toHaveBeenCalledWith(
+        { fetchedAt: { $gte: expect.any(Date) } },
+        { articleId: 1, title: 1, content: 1, storyId: 1 }
+      );
+    });
+
+    it('should match on content when titles differ', async () => {
+      const content = 'The state transportation department closed the northbound lanes of the bridge after inspectors found cracks in two support beams';
+      const articles = [
+        createArticle('reddit-1', 'Bridge closed!', 'reddit', content),
+        createArticle('newsapi-1', 'Inspectors shut down major commuter route', 'newsapi', `${content} on Monday`)
+      ];
+
+      await clusterService.assignStories(articles);
+
+      expect(articles[1].storyId).toBe(articles[0].storyId);
+    });
+
+    it('should keep the story of an article that is already stored', async () => {
+      mockStoredArticles([
+        { articleId: 'reddit-1', title: 'Completely different title', content: '', storyId: 'story-kept' }
+      ]);
+
+      const articles = [createArticle('reddit-1', 'Magnitude 6.1 earthquake hits Los Angeles', 'reddit')];
+      await clusterService.assignStories(articles);
+
+      expect(articles[0].storyId).toBe('story-kept');
+    });
+
+    it('should store a story id on a matched article stored before clustering', async () => {
+      mockStoredArticles([
+        { articleId: 'reddit-1', title: 'Wildfire forces evacuations near Santa Barbara', content: '' }
+      ]);
+
+      const articles = [createArticle('newsapi-1', 'Wildfire forces evacuations near Santa Barbara', 'newsapi')];
+      await clusterService.assignStories(articles);
+
+      expect(articles[0].storyId).toMatch(/^story-/);
+      expect(ArticleModel.updateOne).toHaveBeenCalledWith(
+        { articleId: 'reddit-1' },
+        { $set: { storyId: articles[0].storyId } }
+      );
+    });
+
+    it('should only cluster within the batch when MongoDB is not connected', async () => {
+      jest.spyOn(mongoManager, 'isConnected').mockReturnValue(false);
+
+      const articles = [createArticle('reddit-1', 'Magnitude 6.1 earthquake hits Los Angeles', 'reddit')];
+      await clusterService.assignStories(articles);
+
+      expect(ArticleModel.find).not.toHaveBeenCalled();
+      expect(articles[0].storyId).toMatch(/^story-/);
+    });
+  });
+
+  describe('similarity', () => {
+    it('should score unrelated articles low', () => {
+      expect(clusterService.similarity(
+        { title: 'Magnitude 6.1 earthquake hits Los Angeles' },
+        { title: 'City council approves new transit budget' }
+      )).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { TopicClassifier } from '../../services/topicClassifier';
+import { Article } from '../../types/models/article.type';
+
+describe('TopicClassifier', () => {
+  let classifier: TopicClassifier;
+
+  const lexicon = {
+    politics: ['election', 'vote', 'senator', 'city council'],
+    health: ['hospital', 'vaccine', 'outbreak'],
+    sports: ['game', 'team']
+  };
+
+  beforeEach(() => {
+    classifier = new TopicClassifier(lexicon, 0.4, 2);
+  });
+
+  describe('classify', () => {
+    it('should match keywords by their root form', () => {
+      const topics = classifier.classify('Senators voted on the elections bill');
+
+      expect(topics).toEqual([{ name: 'politics', score: 0.75 }]);
+    });
+
+    it('should match multi-word keywords', () => {
+      const topics = classifier.classify('City Council approves budget');
+
+      expect(topics.map(topic => topic.name)).toEqual(['politics']);
+    });
+
+    it('should weight title keywords above content keywords', () => {
+      const inTitle = classifier.classify('Hospital expands', '');
+      const inContent = classifier.classify('Local news', 'The hospital expands.');
+
+      expect(inTitle).toEqual([{ name: 'health', score: 0.5 }]);
+      // A single mention in the content is below the minimum score
+      expect(inContent).toEqual([]);
+    });
+
+    it('should order topics by score and limit their number', () => {
+      const topics = classifier.classify(
+        'Vaccine outbreak at hospital delays election',
+        'The team postponed the game.'
+      );
+
+      expect(topics.map(topic => topic.name)).toEqual(['health', 'politics']);
+      expect(topics[0].score).toBeGreaterThan(topics[1].score);
+    });
+
+    it('should return no topics for unrelated text', () => {
+      expect(classifier.classify('Quiet weekend ahead', 'Nothing much happened.')).toEqual([]);
+    });
+  });
+
+  describe('tagArticles', () => {
+    it('should store topics and merge their names into the existing tags', () => {
+      const article: Article = {
+        id: 'rss-1',
+        title: 'Senator visits hospital during vaccine drive',
+        content: 'The outbreak is slowing.',
+        source: 'rss',
+        publishedAt: '2025-10-15T12:00:00Z',
+        location: 'Boston',
+        tags: ['local', 'health'],
+        mass: 100000
+      };
+
+      classifier.tagArticles([article]);
+
+      expect(article.topics?.map(topic => topic.name)).toEqual(['health', 'politics']);
+      expect(article.tags).toEqual(['local', 'health', 'politics']);
+    });
+  });
+
+  it('should load the bundled lexicon by default', () => {
+    const defaultClassifier = new TopicClassifier();
+
+    expect(defaultClassifier.getTopics()).toEqual(expect.arrayContaining(['politics', 'climate', 'sports']));
+    expect(defaultClassifier.classify('Wildfires spread as drought worsens', '').map(topic => topic.name)).toContain('climate');
+  });
+});
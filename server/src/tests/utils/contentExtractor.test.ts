@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { decodeEntities, extractMainContent, parseHtml } from '../../utils/contentExtractor';
+import { HtmlElement } from '../../types/services/contentExtraction.type';
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/html');
+
+/**
+ * Read a saved article page
+ */
+function readFixture(fileName: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, fileName), 'utf8');
+}
+
+describe('Content Extractor Utils', () => {
+  describe('decodeEntities', () => {
+    it('should decode named and numeric character references', () => {
+      expect(decodeEntities('Fish &amp; Chips &#8211; &ldquo;fresh&rdquo; &#x2019;24')).toBe('Fish & Chips – “fresh” ’24');
+    });
+
+    it('should keep unknown references', () => {
+      expect(decodeEntities('&madeup; &#0;')).toBe('&madeup; &#0;');
+    });
+  });
+
+  describe('parseHtml', () => {
+    it('should build a tree of elements with attributes', () => {
+      const document = parseHtml('<div class="story" id=main><p>Hello <a href=\'/x\'>world</a></p></div>');
+      const div = document.children[0] as HtmlElement;
+      const paragraph = div.children[0] as HtmlElement;
+
+      expect(div.tag).toBe('div');
+      expect(div.attributes).toEqual({ class: 'story', id: 'main' });
+      expect(paragraph.children[0]).toBe('Hello ');
+      expect((paragraph.children[1] as HtmlElement).attributes.href).toBe('/x');
+      expect(paragraph.parent).toBe(div);
+    });
+
+    it('should close paragraphs and list items that have no closing tag', () => {
+      const document = parseHtml('<div><p>One<p>Two<ul><li>A<li>B</ul></div>');
+      const div = document.children[0] as HtmlElement;
+
+      expect(div.children.map(child => (child as HtmlElement).tag)).toEqual(['p', 'p', 'ul']);
+      expect((div.children[2] as HtmlElement).children).toHaveLength(2);
+    });
+
+    it('should keep script content as text and not parse tags inside it', () => {
+      const document = parseHtml('<script>if (a < b) { document.write("<p>x</p>"); }</script><p>After</p>');
+
+      expect(document.children).toHaveLength(2);
+      expect((document.children[0] as HtmlElement).children[0]).toBe('if (a < b) { document.write("<p>x</p>"); }');
+      expect((document.children[1] as HtmlElement).tag).toBe('p');
+    });
+
+    it('should not nest void elements or ignore stray closing tags', () => {
+      const document = parseHtml('<p>Line<br>next<img src="a.jpg"></span> end</p>');
+      const paragraph = document.children[0] as HtmlElement;
+
+      expect(paragraph.children.map(child => typeof child === 'string' ? child : child.tag))
+        .toEqual(['Line', 'br', 'next', 'img', ' end']);
+    });
+
+    it('should add elements nested too deeply to the deepest open element', () => {
+      let depth = 0;
+      let element: HtmlElement = parseHtml('<div>'.repeat(300) + 'Deep text' + '</div>'.repeat(300));
+      while (element.children.length === 1 && typeof element.children[0] !== 'string') {
+        element = element.children[0] as HtmlElement;
+        depth++;
+      }
+
+      expect(depth).toBeLessThan(300);
+      expect(element.children.filter(child => typeof child === 'string')).toEqual(['Deep text']);
+    });
+
+    it('should treat the rest of the page as a comment after an unterminated comment', () => {
+      const document = parseHtml('<p>Before</p><!-- <p>Hidden</p> and more');
+
+      expect(document.children).toHaveLength(1);
+      expect((document.children[0] as HtmlElement).children).toEqual(['Before']);
+    });
+  });
+
+  describe('extractMainContent', () => {
+    it('should extract the text of deeply nested pages', () => {
+      const paragraph = 'The council met in Arlington, Virginia, on Tuesday to discuss the new transit plan. ';
+      const html = '<html><body>' + '<div>'.repeat(5000) + `<p>${paragraph.repeat(4)}</p>` + '</div>'.repeat(5000) + '</body></html>';
+
+      const content = extractMainContent(html);
+
+      expect(content.text).toContain('Arlington, Virginia');
+    });
+
+    it.each([
+      ['opening tags', '<a b b '],
+      ['closing tags', '</a b '],
+      ['doctypes', '<!x '],
+      ['comments', '<!-- a> ']
+    ])('should parse pages of unterminated %s in linear time', (_name, tag) => {
+      const html = tag.repeat(Math.ceil(86000 / tag.length));
+      const startTime = Date.now();
+
+      extractMainContent(html);
+
+      expect(Date.now() - startTime).toBeLessThan(500);
+    });
+
+    it('should keep the <article> body and drop the menu, cookie banner, related stories and footer', () => {
+      const content = extractMainContent(readFixture('semantic-article.html'));
+
+      expect(content.isMainContent).toBe(true);
+      expect(content.title).toBe('Springfield council approves riverfront park plan – Springfield Gazette');
+      expect(content.text).toContain('turn the abandoned rail yard along the Sangamon River');
+      expect(content.text).toContain('“This is the biggest investment in public space');
+      expect(content.text).toContain('open the first section of the park by the summer of 2027.');
+      ['cookies', 'New York', 'Los Angeles', 'Houston', 'Seattle', 'Boston', 'Denver', 'Photo:', 'Chicago'].forEach(noise => {
+        expect(content.text).not.toContain(noise);
+      });
+    });
+
+    it('should put each paragraph on its own line', () => {
+      const lines = extractMainContent(readFixture('semantic-article.html')).text.split('\n');
+
+      expect(lines[0]).toBe('Springfield council approves riverfront park plan');
+      expect(lines.filter(line => line.length > 100)).toHaveLength(5);
+    });
+
+    it('should find the article body by its text in a page without semantic tags', () => {
+      const content = extractMainContent(readFixture('div-layout.html'));
+
+      expect(content.isMainContent).toBe(true);
+      expect(content.text).toContain('wind gusts reached 80 miles per hour near Broken Arrow');
+      expect(content.text).toContain('Tulsa Public Schools canceled classes for Monday');
+      ['Dallas', 'Oklahoma City', 'Miami', 'Phoenix', 'Detroit', 'Kansas City', 'Advertise'].forEach(noise => {
+        expect(content.text).not.toContain(noise);
+      });
+    });
+
+    it('should find text written straight into divs', () => {
+      const content = extractMainContent(readFixture('text-in-divs.html'));
+
+      expect(content.isMainContent).toBe(true);
+      expect(content.text).toContain('Interstate 80 over Donner Pass');
+      expect(content.text.split('\n')).toHaveLength(4);
+      ['Reno', 'Sacramento', 'Share on'].forEach(noise => {
+        expect(content.text).not.toContain(noise);
+      });
+    });
+
+    it('should fall back to the text of the whole page when there is no article body', () => {
+      const content = extractMainContent(readFixture('short-page.html'));
+
+      expect(content.isMainContent).toBe(false);
+      expect(content.title).toBe('Page moved');
+      expect(content.text).toContain('This page has moved to a new address in Portland.');
+    });
+
+    it('should read the Open Graph image and its size', () => {
+      const content = extractMainContent(readFixture('semantic-article.html'), 'https://springfieldgazette.com/news/park');
+
+      expect(content.image).toEqual({
+        url: 'https://cdn.springfieldgazette.com/images/riverfront-park.jpg?w=1200&h=630',
+        width: 1200,
+        height: 630
+      });
+    });
+
+    it('should decode the image URL only once', () => {
+      const content = extractMainContent('<meta property="og:image" content="https://cdn.example.com/a.jpg?q=fish&amp;amp;chips">');
+
+      expect(content.image).toEqual({ url: 'https://cdn.example.com/a.jpg?q=fish&amp;chips' });
+    });
+
+    it('should fall back to the Twitter card image and resolve it against the page URL', () => {
+      const content = extractMainContent(readFixture('div-layout.html'), 'https://tulsanews.example/weather/storm');
+
+      expect(content.image).toEqual({ url: 'https://tulsanews.example/media/storm-damage.jpg' });
+    });
+
+    it('should leave out images without an http(s) URL', () => {
+      expect(extractMainContent(readFixture('div-layout.html')).image).toBeUndefined();
+      expect(extractMainContent('<meta property="og:image" content="data:image/png;base64,AAAA">').image).toBeUndefined();
+      expect(extractMainContent(readFixture('short-page.html'), 'https://example.com/').image).toBeUndefined();
+    });
+
+    it('should handle empty input', () => {
+      expect(extractMainContent('')).toEqual({ title: undefined, text: '', isMainContent: false });
+    });
+  });
+});
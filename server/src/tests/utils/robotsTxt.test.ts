@@ -0,0 +1,92 @@
+import { getProductToken, isPathAllowed, parseRobotsTxt } from '../../utils/robotsTxt';
+
+describe('robots.txt Utils', () => {
+  const userAgent = 'OrbitalNewsBot/1.0';
+
+  describe('getProductToken', () => {
+    it('should take the lowercase product name of a user agent', () => {
+      expect(getProductToken('OrbitalNewsBot/1.0 (+info)')).toBe('orbitalnewsbot');
+      expect(getProductToken('Googlebot')).toBe('googlebot');
+    });
+  });
+
+  describe('parseRobotsTxt', () => {
+    const robotsTxt = [
+      '# Example publisher',
+      'User-agent: *',
+      'Disallow: /search',
+      'Crawl-delay: 2',
+      '',
+      'User-agent: GPTBot',
+      'User-agent: OrbitalNewsBot',
+      'Disallow: /premium/',
+      'Allow: /premium/free-',
+      'Crawl-delay: 10 # be gentle',
+      '',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n');
+
+    it('should use the group for our user agent instead of the * group', () => {
+      expect(parseRobotsTxt(robotsTxt, userAgent)).toEqual({
+        rules: [
+          { allow: false, path: '/premium/' },
+          { allow: true, path: '/premium/free-' }
+        ],
+        crawlDelaySeconds: 10
+      });
+    });
+
+    it('should use the * group when no group names our user agent', () => {
+      expect(parseRobotsTxt(robotsTxt, 'OtherBot/2.0')).toEqual({
+        rules: [{ allow: false, path: '/search' }],
+        crawlDelaySeconds: 2
+      });
+    });
+
+    it('should ignore empty Disallow lines and rules before any User-agent', () => {
+      expect(parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:', userAgent)).toEqual({ rules: [] });
+    });
+
+    it('should have no rules for an empty file', () => {
+      expect(parseRobotsTxt('', userAgent)).toEqual({ rules: [] });
+    });
+  });
+
+  describe('isPathAllowed', () => {
+    it('should let the longest matching rule win', () => {
+      const robots = {
+        rules: [
+          { allow: false, path: '/premium/' },
+          { allow: true, path: '/premium/free-' }
+        ]
+      };
+
+      expect(isPathAllowed(robots, '/premium/story')).toBe(false);
+      expect(isPathAllowed(robots, '/premium/free-story')).toBe(true);
+      expect(isPathAllowed(robots, '/news/story')).toBe(true);
+    });
+
+    it('should let Allow win a tie', () => {
+      const robots = { rules: [{ allow: false, path: '/news' }, { allow: true, path: '/news' }] };
+
+      expect(isPathAllowed(robots, '/news/story')).toBe(true);
+    });
+
+    it('should support * wildcards and $ anchors', () => {
+      const robots = {
+        rules: [
+          { allow: false, path: '/*.pdf$' },
+          { allow: false, path: '/*?print=' }
+        ]
+      };
+
+      expect(isPathAllowed(robots, '/files/report.pdf')).toBe(false);
+      expect(isPathAllowed(robots, '/files/report.pdf.html')).toBe(true);
+      expect(isPathAllowed(robots, '/news/story?print=1')).toBe(false);
+    });
+
+    it('should always allow robots.txt itself', () => {
+      expect(isPathAllowed({ rules: [{ allow: false, path: '/' }] }, '/robots.txt')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { splitSentences, summarize } from '../../utils/summarizer';
+
+describe('Summarizer Utils', () => {
+  const page = [
+    'Home News Sports Weather Subscribe',
+    'The Boston City Council approved a new housing plan on Tuesday after months of debate.',
+    'The housing plan sets aside two hundred million dollars for affordable housing across the city.',
+    'Council members said the plan would add thousands of affordable housing units by 2030.',
+    'Parking near the stadium will be limited this weekend because of the concert series.',
+    'Mayor Michelle Wu is expected to sign the housing plan into law next week at City Hall.',
+    'Photo: Jane Doe'
+  ].join('\n');
+
+  describe('splitSentences', () => {
+    it('should split on sentence-ending punctuation followed by a new sentence', () => {
+      expect(splitSentences('Rain fell. "It was heavy," he said. Roads closed at 5 p.m. today! 2 died.')).toEqual([
+        'Rain fell.',
+        '"It was heavy," he said.',
+        'Roads closed at 5 p.m. today!',
+        '2 died.'
+      ]);
+    });
+
+    it('should treat line breaks as sentence boundaries', () => {
+      expect(splitSentences('Home News Sports\nThe council met on Tuesday.')).toEqual([
+        'Home News Sports',
+        'The council met on Tuesday.'
+      ]);
+    });
+
+    it('should return an empty array for empty text', () => {
+      expect(splitSentences('')).toEqual([]);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should keep the highest ranked sentences in their original order', () => {
+      const summary = summarize(page, { maxSentences: 2, title: 'Boston council approves housing plan' });
+
+      const sentences = splitSentences(summary);
+      expect(sentences).toHaveLength(2);
+      expect(sentences[0]).toBe('The Boston City Council approved a new housing plan on Tuesday after months of debate.');
+      expect(page.indexOf(sentences[0])).toBeLessThan(page.indexOf(sentences[1]));
+    });
+
+    it('should leave out off-topic sentences and page boilerplate', () => {
+      const summary = summarize(page, { maxSentences: 4, title: 'Boston council approves housing plan' });
+
+      expect(summary).not.toContain('Parking near the stadium');
+      expect(summary).not.toContain('Subscribe');
+      expect(summary).not.toContain('Photo:');
+    });
+
+    it('should default to three sentences', () => {
+      expect(splitSentences(summarize(page))).toHaveLength(3);
+    });
+
+    it('should return an empty string when there are no usable sentences', () => {
+      expect(summarize('Home News Sports Weather')).toBe('');
+    });
+  });
+});
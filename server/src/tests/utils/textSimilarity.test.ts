@@ -0,0 +1,37 @@
+import { jaccard, shingles, tokenize } from '../../utils/textSimilarity';
+
+describe('Text Similarity Utils', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip punctuation and drop stopwords', () => {
+      expect(tokenize('The Mayor of Boston says: "Roads reopen!"')).toEqual(['mayor', 'boston', 'roads', 'reopen']);
+    });
+
+    it('should return an empty array for empty text', () => {
+      expect(tokenize('')).toEqual([]);
+    });
+  });
+
+  describe('shingles', () => {
+    it('should build runs of k consecutive tokens', () => {
+      expect(shingles('heavy rain floods downtown streets', 3)).toEqual(new Set([
+        'heavy rain floods',
+        'rain floods downtown',
+        'floods downtown streets'
+      ]));
+    });
+
+    it('should produce a single shingle for short texts', () => {
+      expect(shingles('rain floods', 3)).toEqual(new Set(['rain floods']));
+    });
+  });
+
+  describe('jaccard', () => {
+    it('should return the overlap of two sets', () => {
+      expect(jaccard(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd']))).toBe(0.5);
+    });
+
+    it('should return 0 when either set is empty', () => {
+      expect(jaccard(new Set(), new Set(['a']))).toBe(0);
+    });
+  });
+});
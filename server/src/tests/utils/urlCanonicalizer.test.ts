@@ -0,0 +1,48 @@
+import { canonicalizeUrl } from '../../utils/urlCanonicalizer';
+
+describe('URL Canonicalizer', () => {
+  describe('canonicalizeUrl', () => {
+    it('should treat http and https as the same URL', () => {
+      expect(canonicalizeUrl('http://example.com/news/story')).toBe('https://example.com/news/story');
+    });
+
+    it('should lowercase the host and drop www and default ports', () => {
+      expect(canonicalizeUrl('https://WWW.Example.COM:443/News/Story')).toBe('https://example.com/News/Story');
+      expect(canonicalizeUrl('https://example.com:8080/story')).toBe('https://example.com:8080/story');
+    });
+
+    it('should remove trailing slashes', () => {
+      expect(canonicalizeUrl('https://example.com/news/story/')).toBe('https://example.com/news/story');
+      expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com');
+    });
+
+    it('should strip tracking parameters and the fragment, keeping and sorting the rest', () => {
+      expect(canonicalizeUrl('https://example.com/story?utm_source=twitter&id=42&fbclid=abc&UTM_Medium=social&b=2#comments'))
+        .toBe('https://example.com/story?b=2&id=42');
+    });
+
+    it('should resolve AMP paths to the regular page', () => {
+      expect(canonicalizeUrl('https://example.com/amp/news/story')).toBe('https://example.com/news/story');
+      expect(canonicalizeUrl('https://example.com/news/story/amp/')).toBe('https://example.com/news/story');
+      expect(canonicalizeUrl('https://example.com/news/story.amp.html')).toBe('https://example.com/news/story.html');
+      expect(canonicalizeUrl('https://example.com/news/story?amp=1&outputType=amp')).toBe('https://example.com/news/story');
+    });
+
+    it('should resolve AMP cache links to the original URL', () => {
+      expect(canonicalizeUrl('https://www.google.com/amp/s/www.example.com/news/story/amp'))
+        .toBe('https://example.com/news/story');
+      expect(canonicalizeUrl('https://example-com.cdn.ampproject.org/c/s/example.com/news/story'))
+        .toBe('https://example.com/news/story');
+    });
+
+    it('should not change paths that only contain amp as part of a word', () => {
+      expect(canonicalizeUrl('https://example.com/news/campus-amplifier')).toBe('https://example.com/news/campus-amplifier');
+    });
+
+    it('should return undefined for missing, invalid and non-http URLs', () => {
+      expect(canonicalizeUrl(undefined)).toBeUndefined();
+      expect(canonicalizeUrl('not a url')).toBeUndefined();
+      expect(canonicalizeUrl('mailto:editor@example.com')).toBeUndefined();
+    });
+  });
+});
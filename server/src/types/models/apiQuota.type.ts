@@ -0,0 +1,37 @@
+/**
+ * Types for daily API quota budgeting
+ */
+
+/**
+ * Requests made to a provider on a given day
+ */
+export interface ApiQuotaUsage {
+  /** Provider name (e.g. 'newsapi', 'opencage') */
+  provider: string;
+  /** UTC day in YYYY-MM-DD format */
+  date: string;
+  count: number;
+}
+
+/**
+ * Outcome of asking for quota before a call
+ * - allowed: the call may go ahead and has been counted
+ * - deferred: the daily budget is not used up, but the paced allowance for this hour is
+ * - refused: the daily budget is used up
+ */
+export type QuotaDecision = 'allowed' | 'deferred' | 'refused';
+
+/**
+ * Remaining budget for a provider, reported by the fetcher status endpoint
+ */
+export interface ApiQuotaStatus {
+  provider: string;
+  date: string;
+  used: number;
+  /** Daily budget, or null if the provider has no budget */
+  limit: number | null;
+  /** Requests left today, or null if the provider has no budget */
+  remaining: number | null;
+  /** Requests allowed so far today when pacing is enabled, or null if the provider has no budget */
+  allowance: number | null;
+}
@@ -37,6 +37,28 @@ export interface ArticleLocation {
   zipCode?: string;
 }
 
+/**
+ * Topic from the controlled vocabulary assigned to an article
+ */
+export interface ArticleTopic {
+  name: string;
+  score: number; // Confidence between 0 and 1
+}
+
+/**
+ * Kinds of named entities extracted from article text
+ */
+export type EntityType = 'person' | 'organization';
+
+/**
+ * Person or organization mentioned in an article
+ */
+export interface ArticleEntity {
+  name: string;
+  type: EntityType;
+  count: number; // Mentions in the title and text
+}
+
 /**
  * Article model representing a news article in the solar system
  */
@@ -44,13 +66,22 @@ export interface Article {
   id: string;
   title: string;
   content?: string; // Made optional
+  summary?: string; // Extractive summary of the article page, when the page could be fetched
   source: string;
   sourceUrl?: string;
+  canonicalUrl?: string; // Normalized sourceUrl used to match the same article across URL variants
+  imageUrl?: string; // Lead image from the source, or the page's Open Graph image
+  imageWidth?: number; // Width of the lead image in pixels, when known
+  imageHeight?: number; // Height of the lead image in pixels, when known
   author?: string;
   publishedAt: string;
   location: string | ArticleLocation; // Geographic location (string or structured object)
   tags?: string[];
+  topics?: ArticleTopic[]; // Classified topics with scores (their names are also in tags)
+  entities?: ArticleEntity[]; // People and organizations mentioned in the article
   mass: number; // Based on source credibility and article length
+  storyId?: string; // Story cluster shared by near-duplicate articles from any source
+  storyMemberCount?: number; // Number of articles in the story (only set when grouping by story)
   // tier removed - will be calculated dynamically, not stored
 }
 
@@ -60,5 +91,6 @@ export interface Article {
  */
 export interface ArticleWithTier extends Article {
   tier: TierType; // Orbital tier (close, medium, far, unknown) - calculated dynamically
+  effectiveMass?: number; // Mass decayed by the article's age - calculated dynamically
   distance?: Distance; // Distance information if available
 }
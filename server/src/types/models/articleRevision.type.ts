@@ -0,0 +1,38 @@
+/**
+ * Types for article revision history
+ */
+
+import { ArticleLocation } from './article.type';
+
+/**
+ * Fields of an article that are kept in its revision history
+ */
+export interface ArticleRevisionFields {
+  title: string;
+  content?: string;
+  location: string | ArticleLocation;
+  mass: number;
+}
+
+/**
+ * A single field changed by an update
+ */
+export interface ArticleFieldChange {
+  field: keyof ArticleRevisionFields;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Snapshot of an article taken when an update changed it
+ */
+export interface ArticleRevision {
+  /** Stored article the revision belongs to */
+  articleId: string;
+  /** Fields as they were before the update */
+  previous: ArticleRevisionFields;
+  /** Fields changed by the update, with their old and new values */
+  changes: ArticleFieldChange[];
+  /** When the update replaced the previous fields */
+  revisedAt: Date;
+}
@@ -0,0 +1,27 @@
+/**
+ * Types for the cache of fetched article pages
+ */
+
+import { PageImage } from '../services/contentExtraction.type';
+
+/**
+ * Main content of a fetched article page, with the validators needed to revalidate it
+ */
+export interface ContentCacheEntry {
+  /** Canonical URL of the page */
+  url: string;
+  /** Main content text extracted from the page */
+  text: string;
+  /** Lead image declared in the page's Open Graph tags */
+  image?: PageImage;
+  /** ETag response header, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified response header, sent back as If-Modified-Since */
+  lastModified?: string;
+  /** When the page was last downloaded */
+  fetchedAt: Date;
+  /** When the page was last downloaded or revalidated */
+  checkedAt: Date;
+  /** Until when the text is used without asking the publisher */
+  expiresAt: Date;
+}
@@ -0,0 +1,33 @@
+/**
+ * Types for the distributed fetch lease
+ */
+
+/**
+ * A lease giving one server instance the right to fetch a source
+ */
+export interface FetchLease {
+  /** Source (provider id) the lease is for */
+  source: string;
+  /** Instance holding the lease */
+  ownerId: string;
+  acquiredAt: Date;
+  /** Last time the owner extended the lease */
+  heartbeatAt: Date;
+  /** The lease can be taken over by another instance after this time */
+  expiresAt: Date;
+}
+
+/**
+ * Lease state reported by the fetcher status endpoint
+ */
+export interface FetchLeaseStatus {
+  source: string;
+  ownerId: string;
+  /** Whether this instance holds the lease */
+  isOwner: boolean;
+  /** Whether the lease has not yet expired */
+  isActive: boolean;
+  acquiredAt: string;
+  heartbeatAt: string;
+  expiresAt: string;
+}
@@ -0,0 +1,61 @@
+/**
+ * Types for article fetch run history
+ */
+
+/**
+ * Overall outcome of a fetch run
+ * - success: every source completed without errors
+ * - partial: at least one source failed but others succeeded
+ * - failed: every source failed or the run itself errored
+ */
+export type FetchRunStatus = 'success' | 'partial' | 'failed';
+
+/**
+ * Outcome of fetching a single source during a run
+ */
+export interface FetchRunSourceOutcome {
+  source: string;
+  /** Articles returned by the provider */
+  fetched: number;
+  /** Articles that ended up with valid coordinates */
+  geocoded: number;
+  /** Articles written to the database (inserted plus updated) */
+  stored: number;
+  /** Articles stored for the first time */
+  inserted?: number;
+  /** Stored articles whose fields changed */
+  updated?: number;
+  /** Stored articles with nothing to write */
+  unchanged?: number;
+  /** Articles whose write failed */
+  failed?: number;
+  /** Articles dropped (no location, failed geocoding, or mock source) */
+  skipped: number;
+  /** Error messages raised while fetching, processing or storing */
+  errorMessages: string[];
+  durationMs: number;
+}
+
+/**
+ * A completed fetch run
+ */
+export interface FetchRun {
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  status: FetchRunStatus;
+  sources: FetchRunSourceOutcome[];
+  /** Errors not attributable to a single source */
+  errorMessages: string[];
+}
+
+/**
+ * A page of fetch runs, newest first
+ */
+export interface FetchRunPage {
+  runs: FetchRun[];
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * Types for the cache of OpenCage geocoding results
+ */
+
+import { GeocodedLocation } from '../services/geocoding.type';
+
+/**
+ * Geocoding result of one query, with how often it was used
+ */
+export interface GeocodeCacheEntry {
+  /** Query as sent to OpenCage, trimmed, lowercased and with single spaces */
+  query: string;
+  /** Country the results were biased to (e.g. "us"), or "" for none */
+  countryCode: string;
+  /** First OpenCage result, or null if OpenCage found nothing */
+  result: GeocodedLocation | null;
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that had to call OpenCage */
+  misses: number;
+  /** When the result was last fetched from OpenCage */
+  fetchedAt: Date;
+  /** Until when the result is used */
+  expiresAt: Date;
+  /** When the result was last answered from the cache */
+  lastHitAt?: Date;
+}
+
+/**
+ * Totals over every cached query
+ */
+export interface GeocodeCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // Share of lookups answered from the cache, between 0 and 1
+}
+
+/**
+ * Page of cached queries, most used first
+ */
+export interface GeocodeCachePage {
+  entries: GeocodeCacheEntry[];
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
@@ -0,0 +1,35 @@
+/**
+ * Types for the article fetcher service
+ */
+
+import { ApiQuotaStatus } from '../models/apiQuota.type';
+import { FetchRunStatus } from '../models/fetchRun.type';
+import { NewsSourceStatus } from './newsSource.type';
+import { CircuitBreakerStatus } from './resilience.type';
+
+/**
+ * State of the article fetcher, reported by the fetcher status endpoint
+ */
+export interface ArticleFetcherStatus {
+  /** Instance ID used as the owner of fetch leases */
+  instanceId: string;
+  /** Whether any source is being fetched */
+  isRunning: boolean;
+  isScheduled: boolean;
+  fetchCount: number;
+  lastFetchAt: string | null;
+  /** Earliest next run of any source */
+  nextScheduledFetch: string | null;
+  sources: NewsSourceStatus[];
+  circuits: CircuitBreakerStatus[];
+  quotas: ApiQuotaStatus[];
+  worker: {
+    enabled: boolean;
+    activeWorkers: number;
+  };
+  lastRun: {
+    status: FetchRunStatus;
+    finishedAt: string;
+    durationMs: number;
+  } | null;
+}
@@ -0,0 +1,19 @@
+/**
+ * Types for the article store
+ */
+
+/**
+ * Outcome of storing a batch of articles
+ */
+export interface StoreArticlesResult {
+  /** Articles that were not stored before */
+  inserted: number;
+  /** Stored articles whose fields changed */
+  updated: number;
+  /** Stored articles (or repeats within the batch) with nothing to write */
+  unchanged: number;
+  /** Articles whose write failed */
+  failed: number;
+  /** Error messages for the failed writes */
+  errors: string[];
+}
@@ -0,0 +1,37 @@
+/**
+ * Types for extracting the main content of article pages
+ */
+
+/**
+ * Element of a parsed HTML page
+ */
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+/**
+ * Element or text in a parsed HTML page
+ */
+export type HtmlNode = HtmlElement | string;
+
+/**
+ * Lead image of an article page, as declared in its Open Graph or Twitter card tags
+ */
+export interface PageImage {
+  url: string; // Absolute http(s) URL
+  width?: number; // Pixels, when the page declares it
+  height?: number;
+}
+
+/**
+ * Main content of an article page
+ */
+export interface ExtractedContent {
+  title?: string;
+  text: string; // One paragraph per line
+  isMainContent: boolean; // False when no main body was found and the text is the whole page
+  image?: PageImage; // Lead image, when the page declares one
+}
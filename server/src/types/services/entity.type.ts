@@ -0,0 +1,30 @@
+/**
+ * Types for the entity service
+ */
+
+import { EntityType } from '../models/article.type';
+
+/**
+ * A person or organization with its mentions across recent articles
+ */
+export interface TopEntity {
+  name: string;
+  type: EntityType;
+  /** Number of articles mentioning the entity */
+  articles: number;
+  /** Total mentions across those articles */
+  mentions: number;
+}
+
+/**
+ * Most mentioned entities, optionally in a reader's area
+ */
+export interface TopEntitiesResult {
+  /** ZIP code the area is centered on */
+  zipCode?: string;
+  /** Radius of the area around the ZIP code */
+  radiusKm?: number;
+  /** Number of articles the counts are based on */
+  articleCount: number;
+  entities: TopEntity[];
+}
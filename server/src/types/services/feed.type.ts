@@ -0,0 +1,107 @@
+/**
+ * Types for the RSS/Atom feed ingestion service
+ */
+
+/**
+ * Supported feed document formats
+ */
+export type FeedFormat = 'rss' | 'atom';
+
+/**
+ * A feed item normalized from either an RSS 2.0 <item> or an Atom <entry>
+ */
+export interface FeedItem {
+  /** Item guid (RSS) or id (Atom), falling back to the link */
+  guid: string;
+  title: string;
+  link: string;
+  /** Plain text content with HTML removed */
+  content: string;
+  author?: string;
+  /** ISO 8601 publication date */
+  publishedAt: string;
+  /** Category names (RSS <category> text or Atom category term) */
+  categories: string[];
+}
+
+/**
+ * A parsed feed document
+ */
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  items: FeedItem[];
+}
+
+/**
+ * Text of a node parsed by fast-xml-parser: a string or number, or an element
+ * with attributes whose text is under '#text'
+ */
+export type XmlTextNode = string | number | { '#text'?: string | number };
+
+/**
+ * An RSS 2.0 <item> as parsed by fast-xml-parser
+ */
+export interface RssItemNode {
+  title?: XmlTextNode;
+  link?: XmlTextNode[];
+  guid?: XmlTextNode;
+  description?: XmlTextNode;
+  'content:encoded'?: XmlTextNode;
+  'dc:creator'?: XmlTextNode;
+  author?: XmlTextNode;
+  pubDate?: XmlTextNode;
+  'dc:date'?: XmlTextNode;
+  category?: XmlTextNode[];
+}
+
+/**
+ * An Atom <link> as parsed by fast-xml-parser
+ */
+export interface AtomLinkNode {
+  '@_href'?: string;
+  '@_rel'?: string;
+}
+
+/**
+ * An Atom <author> as parsed by fast-xml-parser
+ */
+export interface AtomAuthorNode {
+  name?: XmlTextNode;
+}
+
+/**
+ * An Atom <category>, named by its term attribute or, in some feeds, its text
+ */
+export type AtomCategoryNode = XmlTextNode | { '@_term'?: string; '#text'?: string | number };
+
+/**
+ * An Atom <entry> as parsed by fast-xml-parser
+ */
+export interface AtomEntryNode {
+  id?: XmlTextNode;
+  title?: XmlTextNode;
+  link?: AtomLinkNode[];
+  content?: XmlTextNode;
+  summary?: XmlTextNode;
+  author?: AtomAuthorNode | AtomAuthorNode[];
+  published?: XmlTextNode;
+  updated?: XmlTextNode;
+  category?: AtomCategoryNode[];
+}
+
+/**
+ * The root of an RSS 2.0 or Atom document as parsed by fast-xml-parser
+ */
+export interface FeedDocumentNode {
+  rss?: {
+    channel?: {
+      title?: XmlTextNode;
+      item?: RssItemNode[];
+    };
+  };
+  feed?: {
+    title?: XmlTextNode;
+    entry?: AtomEntryNode[];
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Message protocol between the article fetcher and its worker thread
+ */
+
+import { FetchRunSourceOutcome } from '../models/fetchRun.type';
+import { CircuitBreakerStatus } from './resilience.type';
+
+/**
+ * Work handed to the worker as workerData
+ */
+export interface FetchWorkerRequest {
+  /** Sources to fetch, in order, with the limit configured on the main thread */
+  sources: { id: string; limit: number }[];
+
+  /** Circuit breaker state on the main thread, restored in the worker */
+  circuits: CircuitBreakerStatus[];
+}
+
+/**
+ * Sent when a source starts or finishes
+ */
+export interface FetchProgressMessage {
+  type: 'progress';
+  source: string;
+  stage: 'started' | 'completed';
+  /** Set when the stage is 'completed' */
+  outcome?: FetchRunSourceOutcome;
+}
+
+/**
+ * Sent once when every source has been processed
+ */
+export interface FetchResultMessage {
+  type: 'result';
+  outcomes: FetchRunSourceOutcome[];
+  /** Requested sources the worker has no provider for (e.g. registered at runtime on the main thread) */
+  unavailable: string[];
+  /** Circuit breaker state at the end of the run, restored on the main thread */
+  circuits: CircuitBreakerStatus[];
+}
+
+/**
+ * Sent when the worker fails before producing a result
+ */
+export interface FetchErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type FetchWorkerMessage = FetchProgressMessage | FetchResultMessage | FetchErrorMessage;
@@ -53,3 +53,26 @@ export interface TierThresholds {
   close: number;  // Distance in km for close tier
   medium: number; // Distance in km for medium tier
 }
+
+/**
+ * The parts of an OpenCage geocoding result that are used
+ */
+export interface OpenCageResult {
+  geometry?: { lat: number; lng: number };
+  components?: {
+    postcode?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    state?: string;
+    country?: string;
+  };
+  formatted?: string;
+}
+
+/**
+ * The parts of an OpenCage geocoding response that are used
+ */
+export interface OpenCageResponse {
+  results?: OpenCageResult[];
+}
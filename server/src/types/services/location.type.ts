@@ -2,6 +2,9 @@
  * Types for location extraction service
  */
 
+import { ArticleEntity } from '../models/article.type';
+import { PageImage } from './contentExtraction.type';
+
 /**
  * Represents a geographical location extracted from text
  */
@@ -65,6 +68,15 @@ export interface LocationExtractionResult {
   
   /** Tier based on distance from user location */
   tier?: string;
+  
+  /** People and organizations mentioned in the text, most mentioned first */
+  entities?: ArticleEntity[];
+  
+  /** Extractive summary of the fetched article page, if the page was fetched */
+  summary?: string;
+  
+  /** Lead image declared in the fetched article page, if the page was fetched */
+  image?: PageImage;
 }
 
 /**
@@ -83,3 +95,22 @@ export interface LocationExtractionOptions {
   /** Whether to fetch the full article content */
   fetchFullContent?: boolean;
 }
+
+/**
+ * A term of compromise's JSON output, e.g. of `doc.people().json()`
+ */
+export interface NlpTerm {
+  text: string;
+  /** Lowercased form without punctuation */
+  normal?: string;
+  /** Root form, set after `doc.compute('root')` */
+  root?: string;
+  tags?: string[];
+}
+
+/**
+ * A match in compromise's JSON output
+ */
+export interface NlpMatch {
+  terms: NlpTerm[];
+}
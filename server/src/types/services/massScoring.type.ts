@@ -0,0 +1,86 @@
+/**
+ * Types for the mass scoring engine
+ */
+
+/**
+ * What a source knows about an article when scoring its mass
+ */
+export interface MassSignalInput {
+  /** Source the article came from (e.g. 'reddit', 'newsapi', 'rss') */
+  source: string;
+  /** Publisher or feed name (e.g. 'BBC News') */
+  publisher?: string;
+  /** Link to the article */
+  url?: string;
+  title: string;
+  content?: string;
+  /** Votes and comments, for sources that have them */
+  engagement?: {
+    score: number;
+    comments: number;
+  };
+  /** Whether the article has an image, undefined when the source does not say */
+  hasImage?: boolean;
+  /** ISO 8601 publication date */
+  publishedAt?: string;
+}
+
+/**
+ * Settings for the mass scoring engine, loaded from a JSON file
+ */
+export interface MassScoringConfig {
+  /** Mass of an article scoring 0 */
+  minMass: number;
+  /** Mass of an article scoring 1 */
+  maxMass: number;
+  /** Exponent applied to the combined score before mapping it to the mass range */
+  curve: number;
+  /** Weight of each signal by name; signals without a weight are not used */
+  weights: Record<string, number>;
+  engagement: {
+    /** How many votes a comment is worth */
+    commentWeight: number;
+    /** Weighted votes at which the signal reaches 1, by source */
+    saturation: Record<string, number>;
+    /** Saturation for sources not listed */
+    defaultSaturation: number;
+  };
+  length: {
+    /** Characters of title and content at which the signal reaches 1 */
+    targetLength: number;
+  };
+  credibility: {
+    /** Credibility of publishers not listed */
+    default: number;
+    /** Credibility (0-1) by publisher name or domain fragment */
+    publishers: Record<string, number>;
+  };
+  recency: {
+    /** Age at which the signal halves */
+    halfLifeHours: number;
+  };
+  /** Decay of stored mass with age, applied when articles are served */
+  decay: {
+    /** Age at which the mass above minMass halves, by source */
+    halfLifeHours: Record<string, number>;
+    /** Half-life for sources not listed */
+    defaultHalfLifeHours: number;
+  };
+}
+
+/**
+ * A mass signal
+ * @returns Value between 0 and 1, or null if the signal does not apply to the article
+ */
+export type MassSignal = (input: MassSignalInput, config: MassScoringConfig) => number | null;
+
+/**
+ * Breakdown of a mass score
+ */
+export interface MassScore {
+  mass: number;
+  /** Weighted score between 0 and 1 before the curve is applied */
+  score: number;
+  /** Value of each signal that applied to the article */
+  signals: Record<string, number>;
+}
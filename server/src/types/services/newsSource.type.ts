@@ -0,0 +1,77 @@
+/**
+ * Types for pluggable news source providers
+ */
+
+import { Article } from '../models/article.type';
+
+/**
+ * Options passed to a provider when fetching articles
+ */
+export interface NewsSourceFetchOptions {
+  /** Maximum number of articles to fetch (falls back to the provider's default limit) */
+  limit?: number;
+
+  /** Whether to bypass stored articles and always hit the upstream API */
+  forceFetch?: boolean;
+
+  /** Optional search query for sources that support it */
+  query?: string;
+}
+
+/**
+ * A source of news articles that can be registered with the article fetcher
+ */
+export interface NewsSourceProvider {
+  /** Unique source identifier, also used as the article `source` field */
+  readonly id: string;
+
+  /** Whether the provider is included in scheduled fetches */
+  enabled: boolean;
+
+  /** Default number of articles to request per fetch */
+  defaultLimit: number;
+
+  /** Cron expression for scheduled fetches (falls back to the fetcher's default schedule) */
+  schedule?: string;
+
+  /** Whether fetched articles should be geocoded and stored (false for mock sources) */
+  readonly storeArticles: boolean;
+
+  /**
+   * Fetch articles from the source
+   * @param options Fetch options
+   * @returns Promise with array of articles
+   */
+  fetch(options?: NewsSourceFetchOptions): Promise<Article[]>;
+}
+
+/**
+ * Summary of a registered provider, used for status reporting
+ */
+export interface NewsSourceSummary {
+  id: string;
+  enabled: boolean;
+  defaultLimit: number;
+  schedule?: string;
+  storeArticles: boolean;
+}
+
+/**
+ * Per-source configuration overrides
+ */
+export interface NewsSourceConfig {
+  enabled?: boolean;
+  limit?: number;
+  schedule?: string;
+}
+
+/**
+ * Scheduling state of a provider, reported by the fetcher status endpoint
+ */
+export interface NewsSourceStatus extends NewsSourceSummary {
+  /** Effective cron expression (the provider's own or the fetcher default) */
+  schedule: string;
+  isRunning: boolean;
+  lastFetchAt: string | null;
+  nextScheduledRun: string | null;
+}
@@ -24,3 +24,46 @@ export interface NewsAPIResponse {
   code?: string;
   message?: string;
 }
+
+/**
+ * NewsAPI endpoint a query is sent to
+ * - top-headlines: breaking headlines, filtered by country, category or keywords
+ * - everything: all indexed articles, searched by keywords or publisher domains
+ */
+export type NewsAPIEndpoint = 'top-headlines' | 'everything';
+
+/**
+ * Category of top headlines
+ */
+export type NewsAPICategory = 'business' | 'entertainment' | 'general' | 'health' | 'science' | 'sports' | 'technology';
+
+/**
+ * Named query run on each NewsAPI fetch
+ * Articles are tagged with the name of the query that produced them
+ */
+export interface NewsAPIQuery {
+  /** Query name, e.g. a metro area (articles are tagged newsapi/<name>) */
+  name: string;
+  endpoint: NewsAPIEndpoint;
+  /** Keywords or phrases, with AND/OR/NOT and quotes */
+  q?: string;
+  /** Two-letter country code (top-headlines only) */
+  country?: string;
+  /** Headline category (top-headlines only) */
+  category?: NewsAPICategory;
+  /** Publisher domains to search (everything only) */
+  domains?: string[];
+  /** Two-letter language code (everything only) */
+  language?: string;
+  /** Result order (everything only) */
+  sortBy?: 'relevancy' | 'popularity' | 'publishedAt';
+  /** Articles to request, at most 100 (defaults to the fetch limit) */
+  pageSize?: number;
+}
+
+/**
+ * Queries run on each NewsAPI fetch, loaded from a JSON file
+ */
+export interface NewsAPIQueryConfig {
+  queries: NewsAPIQuery[];
+}
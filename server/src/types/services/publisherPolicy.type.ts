@@ -0,0 +1,49 @@
+/**
+ * Types for the rules followed when fetching publishers' article pages
+ */
+
+/**
+ * Settings for fetching article pages, loaded from a JSON file
+ */
+export interface PublisherPolicyConfig {
+  /** User agent sent with every request; its product name is matched against robots.txt groups */
+  userAgent: string;
+  /** Domains whose pages are never fetched (e.g. paywalled sites), subdomains included */
+  skipDomains: string[];
+  /** Hours a host's robots.txt is reused before it is fetched again */
+  robotsCacheHours: number;
+  /** Seconds between requests to the same host when robots.txt has no Crawl-delay */
+  defaultCrawlDelaySeconds: number;
+  /** Upper bound on a robots.txt Crawl-delay */
+  maxCrawlDelaySeconds: number;
+  /** Longest a fetch waits for its turn at a host before it is given up */
+  maxWaitSeconds: number;
+}
+
+/**
+ * Allow or Disallow line of a robots.txt group
+ */
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern, where * matches any characters and a trailing $ anchors the end */
+  path: string;
+}
+
+/**
+ * Rules of the robots.txt group that applies to our user agent
+ */
+export interface RobotsRules {
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds, if the group sets one */
+  crawlDelaySeconds?: number;
+}
+
+/**
+ * Outcome of asking whether a page may be fetched
+ * - allowed: the page may be fetched now
+ * - skipped: the publisher is on the skip list
+ * - disallowed: robots.txt disallows the page
+ * - rate-limited: the host's next free slot is further away than the maximum wait
+ * - invalid-url: the URL could not be parsed
+ */
+export type PolicyDecision = 'allowed' | 'skipped' | 'disallowed' | 'rate-limited' | 'invalid-url';
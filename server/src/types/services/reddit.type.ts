@@ -12,6 +12,15 @@ export interface RedditTokenResponse {
   scope: string;
 }
 
+/**
+ * Image of a Reddit post preview
+ */
+export interface RedditImage {
+  url: string; // HTML-escaped (&amp;)
+  width: number;
+  height: number;
+}
+
 /**
  * Reddit post data structure
  */
@@ -26,6 +35,11 @@ export interface RedditPost {
   link_flair_text?: string;
   score: number;
   num_comments: number;
+  subreddit?: string;
+  preview?: { images: Array<{ source: RedditImage; resolutions?: RedditImage[] }> };
+  thumbnail?: string; // URL, or "self", "default" or "nsfw" when the post has none
+  thumbnail_width?: number | null;
+  thumbnail_height?: number | null;
   [key: string]: any; // For other properties we might need
 }
 
@@ -43,3 +57,29 @@ export interface RedditPostData {
     before: string | null;
   };
 }
+
+/**
+ * Time frame of a subreddit's top listing
+ */
+export type RedditTimeframe = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+/**
+ * Subreddit fetched by the Reddit source
+ */
+export interface SubredditConfig {
+  /** Subreddit name without the r/ prefix */
+  name: string;
+  /** Posts to fetch (defaults to the source's fetch limit) */
+  limit?: number;
+  /** Time frame of the top listing (default: 'day') */
+  timeframe?: RedditTimeframe;
+}
+
+/**
+ * Subreddits fetched by the Reddit source, loaded from a JSON file
+ */
+export interface RedditIngestionConfig {
+  /** Maximum number of listing pages followed per subreddit */
+  maxPages: number;
+  subreddits: SubredditConfig[];
+}
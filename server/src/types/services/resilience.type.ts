@@ -0,0 +1,47 @@
+/**
+ * Types for retries and circuit breakers around outbound API calls
+ */
+
+/**
+ * Retry behaviour for a call
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay or Retry-After wait in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * Circuit breaker thresholds
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failed calls before the circuit opens */
+  failureThreshold: number;
+
+  /** How long the circuit stays open before allowing a trial call, in milliseconds */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Circuit breaker state
+ * - closed: calls pass through
+ * - open: calls are rejected without reaching the upstream API
+ * - half_open: a single trial call decides whether to close or re-open the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker state reported by the fetcher status endpoint
+ */
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+  nextAttemptAt: string | null;
+}
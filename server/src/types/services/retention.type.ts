@@ -0,0 +1,76 @@
+/**
+ * Types for article retention and archival
+ */
+
+import { Article } from '../models/article.type';
+
+/**
+ * What happens to articles past the retention period
+ * - archive: move them to the articles_archive collection
+ * - delete: remove them
+ */
+export type RetentionMode = 'archive' | 'delete';
+
+/**
+ * Retention settings
+ */
+export interface RetentionConfig {
+  /** Whether the retention job is scheduled */
+  enabled: boolean;
+  /** Articles published more than this many days ago are archived or deleted */
+  retentionDays: number;
+  mode: RetentionMode;
+  /** Cron expression for the retention job */
+  schedule: string;
+  /** Number of articles moved per batch */
+  batchSize: number;
+}
+
+/**
+ * Outcome of a retention run
+ */
+export interface RetentionRunResult {
+  startedAt: Date;
+  finishedAt: Date;
+  /** Articles published before this date were processed */
+  cutoff: Date;
+  mode: RetentionMode;
+  /** Articles moved to the archive */
+  archived: number;
+  /** Articles deleted without archiving, in delete mode */
+  deleted: number;
+  /** Set when the run stopped because of an error */
+  errorMessage?: string;
+}
+
+/**
+ * Retention state reported by the archive status endpoint
+ */
+export interface RetentionStatus {
+  enabled: boolean;
+  mode: RetentionMode;
+  retentionDays: number;
+  schedule: string;
+  isScheduled: boolean;
+  isRunning: boolean;
+  nextScheduledRun: string | null;
+  lastRun: RetentionRunResult | null;
+}
+
+/**
+ * An article moved to the archive
+ */
+export interface ArchivedArticle extends Article {
+  archivedAt: Date;
+}
+
+/**
+ * A page of archived articles, newest first
+ */
+export interface ArchivePage {
+  articles: ArchivedArticle[];
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
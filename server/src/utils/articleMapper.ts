@@ -0,0 +1,36 @@
+import { ArticleRecord } from '../models/ArticleSchema';
+import { Article } from '../types/models/article.type';
+
+/**
+ * Mapping between stored article documents and the Article interface
+ * Shared by the article store and the archive, which keep the same fields
+ */
+
+/**
+ * Map a stored article back to the Article interface
+ * @param doc Lean article document
+ * @returns Article
+ */
+export function toArticle(doc: ArticleRecord): Article {
+  return {
+    id: doc.articleId, // Map articleId back to id
+    title: doc.title,
+    content: doc.content,
+    summary: doc.summary,
+    source: doc.source,
+    sourceUrl: doc.sourceUrl,
+    canonicalUrl: doc.canonicalUrl,
+    imageUrl: doc.imageUrl,
+    imageWidth: doc.imageWidth,
+    imageHeight: doc.imageHeight,
+    author: doc.author,
+    publishedAt: doc.publishedAt,
+    location: doc.location, // This could be string or ArticleLocation object
+    tags: doc.tags,
+    topics: doc.topics,
+    entities: doc.entities,
+    mass: doc.mass,
+    storyId: doc.storyId
+    // tier removed - will be calculated dynamically, not stored
+  };
+}
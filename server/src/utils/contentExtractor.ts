@@ -0,0 +1,628 @@
+/**
+ * Utility functions for extracting the main content of article pages
+ * Article pages wrap the story in menus, cookie banners, sidebars and
+ * "related stories" lists, which add unrelated place names to location
+ * extraction. Like Readability, paragraphs are scored by their length and
+ * commas, the scores are given to their containers, and the container with
+ * the most text, fewest links and best semantic hints (e.g. <article>) is
+ * taken as the article body
+ */
+
+import { ExtractedContent, HtmlElement, HtmlNode, PageImage } from '../types/services/contentExtraction.type';
+
+// Elements that never have children
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// Elements whose content is text rather than markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'noscript', 'textarea', 'title']);
+
+// Elements that end the line they are on when the text is rendered
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'
+]);
+
+// Block elements that close an open paragraph
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+// Elements that close an open element of the same kind (e.g. <li> without </li>)
+const SELF_CLOSING_SIBLINGS = new Set(['li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+// Elements that are never part of the article body
+const REMOVED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'svg',
+  'button', 'select', 'textarea', 'figcaption', 'dialog'
+]);
+
+// ARIA roles that are never part of the article body
+const REMOVED_ROLES = new Set(['navigation', 'banner', 'complementary', 'contentinfo', 'dialog', 'alertdialog', 'menu']);
+
+// Class or id of elements that are probably not content, unless they also look like content
+const UNLIKELY_CANDIDATE = /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|gdpr|legends|menu|modal|newsletter|outbrain|pager|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|taboola|toolbar|trending|widget|advert/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story/i;
+
+// Class or id that makes an element more or less likely to be the article body
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINT = /hidden|banner|combx|comment|contact|foot|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|trending|widget/i;
+
+// Elements whose text is scored as a paragraph
+const PARAGRAPH_TAGS = new Set(['p', 'pre', 'td', 'blockquote']);
+
+// Paragraphs shorter than this are captions, bylines or buttons
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Characters of text per element at which a block counts as dense text rather than markup
+const TEXT_DENSITY_TARGET = 20;
+
+// Main content shorter than this is probably a wrong guess, so the whole page is used
+const MIN_CONTENT_LENGTH = 250;
+
+// Named character references that appear in article text
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', copy: '©', reg: '®',
+  trade: '™', middot: '·', bull: '•', deg: '°', eacute: 'é', egrave: 'è', aacute: 'á', ntilde: 'ñ',
+  ouml: 'ö', uuml: 'ü', auml: 'ä', ccedil: 'ç'
+};
+
+// <meta> properties that name the lead image, most specific first
+const IMAGE_META_PROPERTIES = ['og:image:secure_url', 'og:image:url', 'og:image', 'twitter:image', 'twitter:image:src'];
+
+// Elements nested deeper than this are added to the deepest open element instead, like
+// browsers do, so the recursive tree walks below stay far from the call stack limit
+const MAX_DEPTH = 256;
+
+// An unterminated comment runs to the end of the page, and tags with more than 100
+// attributes are text, so a page of unterminated tags cannot make matching quadratic
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?){0,100})\s*\/?>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Decode HTML character references
+ * @param text Text with character references
+ * @returns Decoded text (unknown references are kept as they are)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Parse HTML into a tree
+ * The parser is forgiving like a browser: unclosed elements are closed by their
+ * parent, stray closing tags are ignored, paragraphs or list items without a
+ * closing tag end at the next block or item and elements nested too deeply are
+ * added to the deepest open element
+ * @param html HTML page
+ * @returns Root element (tag "#document") holding the page
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = (): HtmlElement => stack[stack.length - 1];
+
+  const appendText = (text: string): void => {
+    if (text) {
+      current().children.push(decodeEntities(text));
+    }
+  };
+
+  const closeElement = (tag: string, boundaryTags: string[] = []): void => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+      if (boundaryTags.includes(stack[i].tag)) {
+        return;
+      }
+    }
+  };
+
+  // Every tag ends with '>', so the text after the last one is not searched for tags
+  const markup = html.substring(0, html.lastIndexOf('>') + 1);
+  TAG_PATTERN.lastIndex = 0;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(markup)) !== null) {
+    appendText(html.substring(lastIndex, match.index));
+    lastIndex = TAG_PATTERN.lastIndex;
+
+    const [token, closingTag, openingTag, attributeText] = match;
+
+    if (closingTag) {
+      closeElement(closingTag.toLowerCase());
+      continue;
+    }
+
+    if (!openingTag) {
+      // Comment, doctype or processing instruction; an unterminated comment hides the rest of the page
+      if (token.startsWith('<!--') && !token.endsWith('-->')) {
+        lastIndex = html.length;
+        break;
+      }
+      continue;
+    }
+
+    const tag = openingTag.toLowerCase();
+    if (tag === 'p' || CLOSES_PARAGRAPH.has(tag)) {
+      closeElement('p', ['div', 'section', 'article', 'main', 'td', 'li', 'blockquote']);
+    }
+    if (SELF_CLOSING_SIBLINGS.has(tag)) {
+      closeElement(tag, tag === 'tr' ? ['table'] : ['ul', 'ol', 'dl', 'table', 'tr', 'select']);
+    }
+
+    const element: HtmlElement = { tag, attributes: parseAttributes(attributeText || ''), children: [], parent: current() };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const endPattern = new RegExp(`</${tag}`, 'ig');
+      endPattern.lastIndex = lastIndex;
+      const end = endPattern.test(html) ? endPattern.lastIndex - tag.length - 2 : -1;
+      const rawText = html.substring(lastIndex, end === -1 ? html.length : end);
+      element.children.push(tag === 'title' || tag === 'textarea' ? decodeEntities(rawText) : rawText);
+
+      if (end === -1) {
+        lastIndex = html.length;
+        break;
+      }
+      TAG_PATTERN.lastIndex = html.indexOf('>', end) + 1 || html.length;
+      lastIndex = TAG_PATTERN.lastIndex;
+    } else if (!VOID_TAGS.has(tag) && !token.endsWith('/>') && stack.length < MAX_DEPTH) {
+      stack.push(element);
+    }
+  }
+
+  appendText(html.substring(lastIndex));
+  return root;
+}
+
+/**
+ * Parse the attributes of an opening tag
+ * @param attributeText Text between the tag name and the closing bracket
+ * @returns Attribute values by lowercase name
+ */
+function parseAttributes(attributeText: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = ATTRIBUTE_PATTERN.exec(attributeText)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Check whether a node is an element
+ * @param node Element or text
+ * @returns True for elements
+ */
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Find all elements with a tag
+ * @param root Element to search in
+ * @param tags Tag names to find
+ * @returns Matching elements in document order
+ */
+function findAll(root: HtmlElement, tags: Set<string>): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement): void => {
+    for (const child of element.children) {
+      if (isElement(child)) {
+        if (tags.has(child.tag)) {
+          found.push(child);
+        }
+        visit(child);
+      }
+    }
+  };
+  visit(root);
+  return found;
+}
+
+/**
+ * Get the text of an element on a single line
+ * @param element Element to read
+ * @returns Text with whitespace collapsed
+ */
+function getInnerText(element: HtmlElement): string {
+  const parts: string[] = [];
+  const visit = (node: HtmlNode): void => {
+    if (!isElement(node)) {
+      parts.push(node);
+    } else if (!RAW_TEXT_TAGS.has(node.tag)) {
+      node.children.forEach(visit);
+      if (BLOCK_TAGS.has(node.tag)) {
+        parts.push(' ');
+      }
+    }
+  };
+  element.children.forEach(visit);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render the text of an element with one block per line
+ * @param element Element to render
+ * @returns Text with a line per paragraph, heading or list item
+ */
+function renderText(element: HtmlElement): string {
+  const parts: string[] = [];
+  const visit = (node: HtmlNode): void => {
+    if (!isElement(node)) {
+      parts.push(node.replace(/\s+/g, ' '));
+    } else if (!RAW_TEXT_TAGS.has(node.tag)) {
+      const isBlock = BLOCK_TAGS.has(node.tag);
+      if (isBlock) {
+        parts.push('\n');
+      }
+      node.children.forEach(visit);
+      if (isBlock) {
+        parts.push('\n');
+      }
+    }
+  };
+  visit(element);
+
+  return parts.join('')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Share of an element's text that is inside links
+ * @param element Element to measure
+ * @returns Link text length divided by text length, between 0 and 1
+ */
+function getLinkDensity(element: HtmlElement): number {
+  const textLength = getInnerText(element).length;
+  if (textLength === 0) {
+    return 0;
+  }
+
+  const linkLength = findAll(element, new Set(['a'])).reduce((total, link) => total + getInnerText(link).length, 0);
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Characters of text per element, so menus and link lists score lower than prose
+ * @param element Element to measure
+ * @returns Text density between 0 and 1, where 1 is dense text
+ */
+function getTextDensity(element: HtmlElement): number {
+  let elementCount = 1;
+  const count = (node: HtmlElement): void => node.children.forEach(child => {
+    if (isElement(child)) {
+      elementCount++;
+      count(child);
+    }
+  });
+  count(element);
+
+  return Math.min(1, getInnerText(element).length / elementCount / TEXT_DENSITY_TARGET);
+}
+
+/**
+ * Get the class and id of an element
+ * @param element Element to read
+ * @returns Class and id joined by a space
+ */
+function getClassAndId(element: HtmlElement): string {
+  return `${element.attributes.class || ''} ${element.attributes.id || ''}`;
+}
+
+/**
+ * Weigh an element by its class and id
+ * @param element Element to weigh
+ * @returns 25 for content hints, -25 for boilerplate hints, or both added together
+ */
+function getClassWeight(element: HtmlElement): number {
+  const classAndId = getClassAndId(element);
+  let weight = 0;
+  if (NEGATIVE_HINT.test(classAndId)) {
+    weight -= 25;
+  }
+  if (POSITIVE_HINT.test(classAndId)) {
+    weight += 25;
+  }
+  return weight;
+}
+
+/**
+ * Initial score of a container by its tag and class
+ * Semantic elements for articles start ahead of generic containers
+ * @param element Container element
+ * @returns Initial score
+ */
+function getInitialScore(element: HtmlElement): number {
+  let score = getClassWeight(element);
+
+  switch (element.tag) {
+    case 'article':
+    case 'main':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5;
+      break;
+  }
+
+  return score;
+}
+
+/**
+ * Remove the elements that are never part of the article body
+ * Navigation, banners, sidebars and "related" lists are dropped by tag, role and class
+ * @param element Element to clean (updated in place)
+ */
+function removeUnlikelyElements(element: HtmlElement): void {
+  element.children = element.children.filter(child => {
+    if (!isElement(child)) {
+      return true;
+    }
+
+    const classAndId = getClassAndId(child);
+    const isUnlikely = REMOVED_TAGS.has(child.tag)
+      || REMOVED_ROLES.has((child.attributes.role || '').toLowerCase())
+      || 'hidden' in child.attributes
+      || child.attributes['aria-hidden'] === 'true'
+      || (UNLIKELY_CANDIDATE.test(classAndId) && !MAYBE_CANDIDATE.test(classAndId)
+        && !['body', 'article', 'main'].includes(child.tag));
+
+    if (isUnlikely) {
+      return false;
+    }
+
+    removeUnlikelyElements(child);
+    return true;
+  });
+}
+
+/**
+ * Remove link lists and other link-heavy blocks left inside the article body
+ * e.g. a "Read more" list between two paragraphs
+ * @param element Article body (updated in place)
+ */
+function removeLinkHeavyBlocks(element: HtmlElement): void {
+  element.children = element.children.filter(child => {
+    if (!isElement(child)) {
+      return true;
+    }
+
+    if (['ul', 'ol', 'div', 'section', 'table'].includes(child.tag)) {
+      const threshold = getClassWeight(child) >= 25 ? 0.5 : 0.25;
+      if (getLinkDensity(child) > threshold) {
+        return false;
+      }
+    }
+
+    removeLinkHeavyBlocks(child);
+    return true;
+  });
+}
+
+/**
+ * Find the elements scored as paragraphs
+ * Divs without block children are scored too, since some sites put their text straight into divs
+ * @param root Element to search in
+ * @returns Paragraph elements
+ */
+function findParagraphs(root: HtmlElement): HtmlElement[] {
+  const divs = findAll(root, new Set(['div'])).filter(div =>
+    div.children.some(child => !isElement(child) && child.trim().length > 0)
+    && !div.children.some(child => isElement(child) && CLOSES_PARAGRAPH.has(child.tag)));
+
+  return [...findAll(root, PARAGRAPH_TAGS), ...divs];
+}
+
+/**
+ * Score the containers of the page's paragraphs
+ * Each paragraph scores 1, plus 1 per comma and per 100 characters (up to 3),
+ * which goes to its parent in full, its grandparent by half and higher ancestors by less
+ * @param root Page body
+ * @returns Score of each container
+ */
+function scoreCandidates(root: HtmlElement): Map<HtmlElement, number> {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const paragraph of findParagraphs(root)) {
+    const text = getInnerText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      continue;
+    }
+
+    const contentScore = text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor.tag !== '#document' && level < 3; level++) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, getInitialScore(ancestor));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+      ancestor = ancestor.parent;
+    }
+  }
+
+  // Containers made mostly of links or markup are menus and link lists, not articles
+  for (const [candidate, score] of scores) {
+    scores.set(candidate, score * (1 - getLinkDensity(candidate)) * getTextDensity(candidate));
+  }
+
+  return scores;
+}
+
+/**
+ * Collect the top candidate and the siblings that continue the article
+ * Some sites split the article body over several sibling containers
+ * @param topCandidate Best scored container
+ * @param scores Score of each container
+ * @returns Elements that make up the article body, in document order
+ */
+function collectArticle(topCandidate: HtmlElement, scores: Map<HtmlElement, number>): HtmlElement[] {
+  const parent = topCandidate.parent;
+  if (!parent) {
+    return [topCandidate];
+  }
+
+  const topScore = scores.get(topCandidate) || 0;
+  const siblingThreshold = Math.max(10, topScore * 0.2);
+
+  return parent.children.filter(isElement).filter(sibling => {
+    if (sibling === topCandidate) {
+      return true;
+    }
+
+    const score = scores.get(sibling);
+    if (score !== undefined && score >= siblingThreshold) {
+      return true;
+    }
+
+    if (sibling.tag === 'p') {
+      const text = getInnerText(sibling);
+      const linkDensity = getLinkDensity(sibling);
+      return (text.length > 80 && linkDensity < 0.25)
+        || (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text));
+    }
+
+    return false;
+  });
+}
+
+/**
+ * Find the lead image declared in a page's <meta> tags
+ * Only the first image is used, since pages list their lead image first
+ * @param document Parsed page
+ * @param pageUrl URL of the page, used to resolve relative image URLs
+ * @returns Lead image, or undefined if the page declares none with an http(s) URL
+ */
+function findPageImage(document: HtmlElement, pageUrl?: string): PageImage | undefined {
+  const meta = new Map<string, string>();
+  for (const element of findAll(document, new Set(['meta']))) {
+    const property = (element.attributes.property || element.attributes.name || '').trim().toLowerCase();
+    const content = (element.attributes.content || '').trim();
+    if (property && content && !meta.has(property)) {
+      meta.set(property, content);
+    }
+  }
+
+  const imageProperty = IMAGE_META_PROPERTIES.find(property => meta.has(property));
+  if (!imageProperty) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(meta.get(imageProperty) as string, pageUrl);
+  } catch {
+    return undefined;
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return undefined;
+  }
+
+  // Dimensions are only declared for the Open Graph image
+  const readSize = (property: string): number | undefined => {
+    const size = parseInt(meta.get(property) || '', 10);
+    return size > 0 ? size : undefined;
+  };
+  const isOpenGraph = imageProperty.startsWith('og:');
+  const width = isOpenGraph ? readSize('og:image:width') : undefined;
+  const height = isOpenGraph ? readSize('og:image:height') : undefined;
+
+  return {
+    url: url.toString(),
+    ...(width ? { width } : {}),
+    ...(height ? { height } : {})
+  };
+}
+
+/**
+ * Extract the main content of an article page
+ * Falls back to the text of the whole page when no container holds enough text
+ * @param html HTML page
+ * @param pageUrl URL of the page, used to resolve a relative lead image URL
+ * @returns Page title, lead image and main content text, one paragraph per line
+ */
+export function extractMainContent(html: string, pageUrl?: string): ExtractedContent {
+  const document = parseHtml(html || '');
+  const titleElement = findAll(document, new Set(['title']))[0];
+  const title = titleElement ? getInnerText(titleElement) || undefined : undefined;
+  const image = findPageImage(document, pageUrl);
+  const body = findAll(document, new Set(['body']))[0] || document;
+
+  // Text of the whole page, used when no main content is found
+  const pageText = renderText(body);
+
+  removeUnlikelyElements(body);
+  const scores = scoreCandidates(body);
+
+  let topCandidate: HtmlElement | undefined;
+  for (const [candidate, score] of scores) {
+    if (!topCandidate || score > (scores.get(topCandidate) || 0)) {
+      topCandidate = candidate;
+    }
+  }
+
+  if (!topCandidate) {
+    return { title, text: pageText, isMainContent: false, ...(image ? { image } : {}) };
+  }
+
+  const text = collectArticle(topCandidate, scores)
+    .map(element => {
+      removeLinkHeavyBlocks(element);
+      return renderText(element);
+    })
+    .filter(part => part.length > 0)
+    .join('\n');
+
+  if (text.length < MIN_CONTENT_LENGTH) {
+    return { title, text: pageText, isMainContent: false, ...(image ? { image } : {}) };
+  }
+
+  return { title, text, isMainContent: true, ...(image ? { image } : {}) };
+}
@@ -1,7 +1,7 @@
 import { Article, ArticleLocation } from '../types/models/article.type';
 import { LocationService } from '../services/locationService';
 import { GeocodingService } from '../services/geocodingService';
-import { LocationExtractionResult } from '../types/services/location.type';
+import publisherPolicyService from '../services/publisherPolicyService';
 
 /**
  * Utility functions for handling location data
@@ -107,6 +107,22 @@ export async function geocodeArticleLocation(
       minConfidence
     });
     
+    // Keep the people and organizations found in the same pass
+    if (locationResult.entities) {
+      article.entities = locationResult.entities;
+    }
+    
+    if (locationResult.summary) {
+      article.summary = locationResult.summary;
+    }
+    
+    // The page's Open Graph image is only used when the source gave none
+    if (locationResult.image && !article.imageUrl) {
+      article.imageUrl = locationResult.image.url;
+      article.imageWidth = locationResult.image.width;
+      article.imageHeight = locationResult.image.height;
+    }
+    
     // If we found a primary location with good confidence
     if (locationResult.primaryLocation && locationResult.primaryLocation.confidence >= minConfidence) {
       if (!isTestEnv) {
@@ -213,10 +229,8 @@ export async function geocodeArticleLocation(
     if ((!locationResult.primaryLocation || locationResult.primaryLocation.confidence < minConfidence) && 
         article.sourceUrl && !fetchFullContent) {
       
-      // Check if the URL is likely to be paywalled
-      const isLikelyPaywalled = isPaywalledSite(article.sourceUrl);
-      
-      if (!isLikelyPaywalled) {
+      // Publishers on the skip list are paywalled or ask not to be crawled
+      if (!publisherPolicyService.isSkipped(article.sourceUrl)) {
         // Try again with full content fetch for non-paywalled URLs that might have more location info
         if (!isTestEnv) {
           console.debug(`Article ${article.id}: Attempting to fetch full content from ${article.sourceUrl}`);
@@ -292,26 +306,3 @@ export async function geocodeArticleLocation(
   
   return article;
 }
-
-/**
- * Check if a URL is likely to be from a paywalled site
- * @param url URL to check
- * @returns True if the URL is likely from a paywalled site
- */
-function isPaywalledSite(url: string): boolean {
-  const paywalledDomains = [
-    'nytimes.com',
-    'wsj.com',
-    'washingtonpost.com',
-    'economist.com',
-    'ft.com',
-    'bloomberg.com',
-    'newyorker.com',
-    'thetimes.co.uk',
-    'telegraph.co.uk',
-    'latimes.com',
-    'bostonglobe.com'
-  ];
-  
-  return paywalledDomains.some(domain => url.includes(domain));
-}
@@ -0,0 +1,133 @@
+/**
+ * Utility functions for robots.txt files (RFC 9309)
+ * A robots.txt file holds groups of rules, each for one or more user agents.
+ * Only the group for the most specific matching user agent applies, or the
+ * "*" group when none matches. Within it, the longest matching path wins and
+ * Allow wins a tie
+ */
+
+import { RobotsRule, RobotsRules } from '../types/services/publisherPolicy.type';
+
+/**
+ * Group of rules parsed from a robots.txt file
+ */
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+/**
+ * Get the product name of a user agent, as matched against robots.txt groups
+ * e.g. "OrbitalNewsBot/1.0 (+info)" becomes "orbitalnewsbot"
+ * @param userAgent User agent header
+ * @returns Lowercase product name
+ */
+export function getProductToken(userAgent: string): string {
+  return userAgent.split(/[/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Parse the rules of a robots.txt file that apply to a user agent
+ * @param text Contents of robots.txt
+ * @param userAgent User agent the rules are for
+ * @returns Rules and crawl delay of the matching groups (no rules if no group matches)
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of (text || '').split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share the group that follows them
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'crawl-delay') {
+      const delay = Number(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelaySeconds = delay;
+      }
+    }
+  }
+
+  const token = getProductToken(userAgent);
+  const matchLength = (group: RobotsGroup): number => Math.max(-1, ...group.agents
+    .filter(agent => agent !== '*' && token.includes(agent))
+    .map(agent => agent.length));
+
+  // Groups for the most specific agent are combined, as are all "*" groups
+  const bestLength = Math.max(-1, ...groups.map(matchLength));
+  const matching = bestLength >= 0
+    ? groups.filter(group => matchLength(group) === bestLength)
+    : groups.filter(group => group.agents.includes('*'));
+
+  const delays = matching
+    .map(group => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    ...(delays.length > 0 ? { crawlDelaySeconds: Math.max(...delays) } : {})
+  };
+}
+
+/**
+ * Check whether a robots.txt rule matches a path
+ * @param pattern Rule path, where * matches any characters and a trailing $ anchors the end
+ * @param path URL path with its query string
+ * @returns True if the rule applies to the path
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Check whether robots.txt rules allow a path
+ * @param robots Rules for our user agent
+ * @param path URL path with its query string (e.g. "/news/story?id=1")
+ * @returns True unless the longest matching rule is a Disallow
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!matchesPattern(rule.path, path)) {
+      continue;
+    }
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return !best || best.allow;
+}
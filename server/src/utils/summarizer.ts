@@ -0,0 +1,77 @@
+/**
+ * Utility functions for extractive article summaries
+ * The summary is made of the article's own sentences: each sentence is
+ * ranked by how many of the article's frequent words it contains, how much
+ * it overlaps the title and how early it appears, and the best sentences are
+ * returned in their original order
+ */
+
+import { tokenize } from './textSimilarity';
+
+// Sentences outside this word range are usually navigation, captions or run-on page text
+const MIN_SENTENCE_WORDS = 8;
+const MAX_SENTENCE_WORDS = 60;
+
+/**
+ * Split text into sentences
+ * A sentence ends at a line break, or with ., ! or ? (optionally followed by a
+ * closing quote) before whitespace and an uppercase letter, digit or opening quote.
+ * Line breaks keep menus and captions from running into the next sentence
+ * @param text Text to split
+ * @returns Sentences in order
+ */
+export function splitSentences(text: string): string[] {
+  return (text || '')
+    .split(/\n+/)
+    .flatMap(line => line.replace(/\s+/g, ' ').split(/(?<=[.!?]["”’]?)\s+(?=["“‘A-Z0-9])/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Build an extractive summary of a text
+ * @param text Text to summarize (e.g. the text of a fetched article page)
+ * @param options Number of sentences to keep and the article title
+ * @returns Summary, or an empty string if the text has no usable sentences
+ */
+export function summarize(text: string, options: { maxSentences?: number; title?: string } = {}): string {
+  const maxSentences = Math.max(1, options.maxSentences || 3);
+  const titleTokens = new Set(tokenize(options.title || ''));
+
+  const sentences = splitSentences(text)
+    .map((sentence, index) => ({ sentence, index, tokens: tokenize(sentence) }))
+    .filter(({ sentence }) => {
+      const words = sentence.split(' ').length;
+      return words >= MIN_SENTENCE_WORDS && words <= MAX_SENTENCE_WORDS && /[.!?]["”’]?$/.test(sentence);
+    });
+
+  if (sentences.length === 0) {
+    return '';
+  }
+
+  // Frequency of each word across the usable sentences, relative to the most frequent word
+  const frequencies = new Map<string, number>();
+  sentences.forEach(({ tokens }) => tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1)));
+  const maxFrequency = Math.max(...frequencies.values());
+
+  const ranked = sentences.map(({ sentence, index, tokens }, position) => {
+    const unique = new Set(tokens);
+    const frequencyScore = unique.size > 0
+      ? Array.from(unique).reduce((sum, token) => sum + (frequencies.get(token) || 0) / maxFrequency, 0) / unique.size
+      : 0;
+    const titleScore = titleTokens.size > 0
+      ? Array.from(titleTokens).filter(token => unique.has(token)).length / titleTokens.size
+      : 0;
+    // News puts the most important sentences first
+    const positionScore = 1 - position / sentences.length;
+
+    return { sentence, index, score: frequencyScore + titleScore + 0.5 * positionScore };
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence)
+    .join(' ');
+}
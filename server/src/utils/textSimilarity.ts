@@ -0,0 +1,69 @@
+/**
+ * Utility functions for comparing article text
+ */
+
+// Common words that carry no signal about which story an article covers
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'has', 'have',
+  'he', 'her', 'his', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'over', 'she', 'that',
+  'the', 'their', 'they', 'this', 'to', 'was', 'were', 'will', 'with', 'after', 'says', 'said'
+]);
+
+/**
+ * Split text into lowercase word tokens, dropping punctuation and stopwords
+ * @param text Text to tokenize
+ * @returns Array of tokens in order
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Build the set of word shingles (runs of k consecutive tokens) for a text
+ * Texts shorter than k tokens produce a single shingle of all their tokens
+ * @param text Text to shingle
+ * @param k Number of tokens per shingle
+ * @returns Set of shingles
+ */
+export function shingles(text: string, k: number = 3): Set<string> {
+  const tokens = tokenize(text);
+
+  if (tokens.length === 0) {
+    return new Set();
+  }
+
+  if (tokens.length <= k) {
+    return new Set([tokens.join(' ')]);
+  }
+
+  const result = new Set<string>();
+  for (let i = 0; i <= tokens.length - k; i++) {
+    result.add(tokens.slice(i, i + k).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Calculate the Jaccard similarity of two sets
+ * @param a First set
+ * @param b Second set
+ * @returns Similarity between 0 (disjoint or empty) and 1 (identical)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let intersection = 0;
+  a.forEach(item => {
+    if (b.has(item)) {
+      intersection++;
+    }
+  });
+
+  return intersection / (a.size + b.size - intersection);
+}
@@ -0,0 +1,102 @@
+/**
+ * Utility functions for normalizing article URLs
+ * Different sources link to the same article with tracking parameters, AMP
+ * variants, http or https and with or without a trailing slash. The canonical
+ * form removes those differences so the article is only stored once
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl',
+  'cmpid', 'smid', 'ref', 'ref_src', 'ref_url', 'share', 'amp', 'outputtype'
+]);
+
+// Hosts that serve AMP copies of other sites' pages
+const AMP_CACHE_HOSTS = [/\.cdn\.ampproject\.org$/, /^(www\.)?google\.[a-z.]+$/];
+
+/**
+ * Check whether a query parameter is used for tracking
+ * @param name Parameter name
+ * @returns True for utm_* and known click-tracking parameters
+ */
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return key.startsWith('utm_') || TRACKING_PARAMS.has(key);
+}
+
+/**
+ * Resolve a link into an AMP cache back to the original URL
+ * e.g. https://www.google.com/amp/s/example.com/story or
+ * https://example-com.cdn.ampproject.org/c/s/example.com/story
+ * @param url Parsed URL
+ * @returns Original URL, or the input if it is not an AMP cache link
+ */
+function resolveAmpCache(url: URL): URL {
+  if (!AMP_CACHE_HOSTS.some(pattern => pattern.test(url.hostname))) {
+    return url;
+  }
+
+  const match = url.pathname.match(/^\/(?:amp|c)\/(s\/)?(.+)$/);
+  if (!match) {
+    return url;
+  }
+
+  try {
+    return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Remove AMP markers from a path
+ * e.g. /amp/news/story, /news/story/amp and /news/story.amp.html
+ * @param pathname URL path
+ * @returns Path of the regular page
+ */
+function stripAmpPath(pathname: string): string {
+  return pathname
+    .replace(/\/amp(?=\/)/, '')
+    .replace(/\/amp\/?$/, '/')
+    .replace(/\.amp(\.html?)$/, '$1');
+}
+
+/**
+ * Build the canonical form of an article URL
+ * - http and https are treated as the same URL (https)
+ * - the host is lowercased, without "www." or a default port
+ * - AMP cache links and AMP paths resolve to the regular page
+ * - tracking parameters and the fragment are removed, remaining parameters are sorted
+ * - trailing slashes are removed
+ * @param rawUrl URL as given by the source
+ * @returns Canonical URL, or undefined if the URL is missing or not http(s)
+ */
+export function canonicalizeUrl(rawUrl?: string): string | undefined {
+  if (!rawUrl) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return undefined;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return undefined;
+  }
+
+  url = resolveAmpCache(url);
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  const path = stripAmpPath(url.pathname).replace(/\/+$/, '');
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `https://${host}${port}${path}${query}`;
+}
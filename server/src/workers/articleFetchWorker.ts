@@ -0,0 +1,62 @@
+import { parentPort, workerData } from 'worker_threads';
+import mongoManager from '../database/MongoManager';
+import { NewsService } from '../services/newsService';
+import { NewsSourceRegistry } from '../services/newsSourceRegistry';
+import { registerDefaultProviders } from '../services/providers';
+import { ArticlePipeline } from '../services/articlePipeline';
+import resilience from '../services/resilienceService';
+import { NewsSourceProvider } from '../types/services/newsSource.type';
+import { FetchWorkerMessage, FetchWorkerRequest } from '../types/services/fetchWorker.type';
+
+/**
+ * Worker thread entry point for the article fetcher
+ * Runs the fetch, extract, geocode and store pipeline for the requested sources
+ * and reports progress and results to the main thread (see fetchWorker.type.ts)
+ */
+
+/**
+ * Send a message to the main thread
+ * @param message Message to send
+ */
+const post = (message: FetchWorkerMessage): void => {
+  parentPort?.postMessage(message);
+};
+
+/**
+ * Run the pipeline for the requested sources
+ * @param request Work handed over by the main thread
+ */
+const run = async (request: FetchWorkerRequest): Promise<void> => {
+  // Worker threads do not share the main thread's MongoDB connection
+  await mongoManager.connect();
+  resilience.restore(request.circuits);
+
+  try {
+    const registry = registerDefaultProviders(new NewsSourceRegistry(), new NewsService());
+    const providers: NewsSourceProvider[] = [];
+    const unavailable: string[] = [];
+
+    for (const source of request.sources) {
+      const provider = registry.get(source.id);
+      if (!provider) {
+        unavailable.push(source.id);
+        continue;
+      }
+
+      // Use the limit configured on the main thread
+      provider.defaultLimit = source.limit;
+      providers.push(provider);
+    }
+
+    const outcomes = await new ArticlePipeline().runSources(providers, post);
+
+    post({ type: 'result', outcomes, unavailable, circuits: resilience.getStatus() });
+  } finally {
+    await mongoManager.disconnect();
+  }
+};
+
+run(workerData as FetchWorkerRequest).catch(error => {
+  console.error('Error in article fetch worker:', error);
+  post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+});